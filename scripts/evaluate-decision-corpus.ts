@@ -0,0 +1,14 @@
+import { DECISION_CORPUS, evaluateDecisionCorpus } from "../src/services/decisionCorpus";
+
+// Runs each corpus card through validation, risk scoring and the default
+// policy and fails when a card is judged differently than expected
+const failures = evaluateDecisionCorpus();
+
+for (const { name, expected, actual } of failures) {
+  console.log(`✗ ${name}`);
+  console.log(`    expected ${JSON.stringify(expected)}`);
+  console.log(`    actual   ${JSON.stringify(actual)}`);
+}
+console.log(`${DECISION_CORPUS.length - failures.length} of ${DECISION_CORPUS.length} cases decided as expected`);
+
+process.exitCode = failures.length ? 1 : 0;
@@ -0,0 +1,24 @@
+import { evaluateLabelMatcher } from "../src/services/labelCorpus";
+
+// Scores the OCR label matcher on the corpus and fails when a metric drops
+// below the level it reached when the corpus last changed. Raise the floors
+// when the matcher improves; never lower them to make a change pass.
+const FLOORS = { precision: 0.97, recall: 0.95, valueAccuracy: 0.8 };
+
+const evaluation = evaluateLabelMatcher();
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+for (const { line, expected, actual } of evaluation.failures) {
+  console.log(`✗ ${line}`);
+  console.log(`    expected ${JSON.stringify(expected)}`);
+  console.log(`    actual   ${JSON.stringify(actual)}`);
+}
+
+let passed = true;
+for (const metric of Object.keys(FLOORS) as (keyof typeof FLOORS)[]) {
+  const ok = evaluation[metric] >= FLOORS[metric];
+  passed &&= ok;
+  console.log(`${ok ? "✓" : "✗"} ${metric} ${percent(evaluation[metric])} (floor ${percent(FLOORS[metric])})`);
+}
+
+process.exitCode = passed ? 0 : 1;
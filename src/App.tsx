@@ -3,25 +3,56 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useEffect } from "react";
+import { toast } from "@/hooks/use-toast";
+import { startRetentionJob } from "@/services/retention";
 import Index from "./pages/Index";
+import TemplateLibrary from "./pages/TemplateLibrary";
+import TemplateEditor from "./pages/TemplateEditor";
+import Policies from "./pages/Policies";
+import History from "./pages/History";
+import HistoryDetail from "./pages/HistoryDetail";
+import Audit from "./pages/Audit";
+import SignatureVerifier from "./pages/SignatureVerifier";
+import Batch from "./pages/Batch";
+import CameraCheck from "./pages/CameraCheck";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+// The retention purge runs for as long as the app is open, on any page
+const App = () => {
+  useEffect(() => startRetentionJob(({ images, entries }) =>
+    toast({
+      title: "Retention Purge",
+      description: `Deleted the images of ${images} and all data of ${entries} expired verifications.`,
+    })
+  ), []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/templates" element={<TemplateLibrary />} />
+            <Route path="/templates/editor/:templateId?" element={<TemplateEditor />} />
+            <Route path="/policies" element={<Policies />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/history/:entryId" element={<HistoryDetail />} />
+            <Route path="/audit" element={<Audit />} />
+            <Route path="/signatures" element={<SignatureVerifier />} />
+            <Route path="/batch" element={<Batch />} />
+            {import.meta.env.DEV && <Route path="/dev/camera" element={<CameraCheck />} />}
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
@@ -0,0 +1,98 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { AUDIT_EVENT_LABELS, AuditBreak, AuditEntry } from '@/services/audit';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…`;
+
+// Event data as `key: value` pairs; long hashes are shortened, the full
+// value stays in the title
+const DataList: React.FC<{ data: AuditEntry['data'] }> = ({ data }) => (
+  <span className="space-x-3">
+    {Object.entries(data)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return (
+          <span key={key} title={text}>
+            <span className="text-muted-foreground">{key}:</span>{' '}
+            {/^[0-9a-f]{64}$/.test(text) ? shortHash(text) : text}
+          </span>
+        );
+      })}
+  </span>
+);
+
+//* -------------------------------------------------------------------------- */
+//*                              AuditTrailProps                               */
+//* -------------------------------------------------------------------------- */
+interface AuditTrailProps {
+  entries: AuditEntry[];
+  // Rows with a broken link or hash are highlighted
+  breaks?: AuditBreak[];
+  // Hides the verification id column when all entries share one
+  showVerificationId?: boolean;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                 AuditTrail                                 */
+//* -------------------------------------------------------------------------- */
+export const AuditTrail: React.FC<AuditTrailProps> = ({ entries, breaks = [], showVerificationId = true }) => {
+  const broken = new Set(breaks.map((entry) => entry.sequence));
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="font-medium py-1 pr-3">#</th>
+          <th className="font-medium py-1 pr-3">Time</th>
+          <th className="font-medium py-1 pr-3">Event</th>
+          {showVerificationId && <th className="font-medium py-1 pr-3">Verification</th>}
+          <th className="font-medium py-1 pr-3">Details</th>
+          <th className="font-medium py-1">Hash</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr
+            key={entry.sequence}
+            className={cn('border-t border-border/50 align-top', broken.has(entry.sequence) && 'bg-error/10')}
+          >
+            <td className="py-1 pr-3">{entry.sequence}</td>
+            <td className="py-1 pr-3 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+            <td className="py-1 pr-3 whitespace-nowrap">
+              <Badge variant={entry.type === 'manualOverride' || entry.type === 'failed' ? 'secondary' : 'outline'}>
+                {AUDIT_EVENT_LABELS[entry.type]}
+              </Badge>
+            </td>
+            {showVerificationId && (
+              <td className="py-1 pr-3 font-mono" title={entry.verificationId}>{entry.verificationId.slice(0, 8)}</td>
+            )}
+            <td className="py-1 pr-3"><DataList data={entry.data} /></td>
+            <td className="py-1 font-mono" title={`${entry.hash}\nprevious: ${entry.previousHash}`}>
+              {shortHash(entry.hash)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
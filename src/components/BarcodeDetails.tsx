@@ -0,0 +1,92 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Barcode } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { BarcodeResult } from '@/components/VerificationResults';
+import { AamvaRecord } from '@/services/aamva';
+
+//* -------------------------------------------------------------------------- */
+//*                                fieldLabels                                 */
+//* -------------------------------------------------------------------------- */
+const fieldLabels: [keyof AamvaRecord, string][] = [
+  ['documentNumber', 'License Number (DAQ)'],
+  ['familyName', 'Family Name (DCS)'],
+  ['firstName', 'First Name (DAC)'],
+  ['middleName', 'Middle Name (DAD)'],
+  ['dateOfBirth', 'Date of Birth (DBB)'],
+  ['issueDate', 'Issue Date (DBD)'],
+  ['expirationDate', 'Expiration (DBA)'],
+  ['sex', 'Sex (DBC)'],
+  ['street', 'Street (DAG)'],
+  ['city', 'City (DAI)'],
+  ['jurisdiction', 'Jurisdiction (DAJ)'],
+  ['postalCode', 'Postal Code (DAK)'],
+  ['vehicleClass', 'Class (DCA)'],
+];
+
+//* -------------------------------------------------------------------------- */
+//*                            BarcodeDetailsProps                             */
+//* -------------------------------------------------------------------------- */
+interface BarcodeDetailsProps {
+  barcode: BarcodeResult;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               BarcodeDetails                               */
+//* -------------------------------------------------------------------------- */
+export const BarcodeDetails: React.FC<BarcodeDetailsProps> = ({ barcode }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { aamva } = barcode;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Barcode className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Back-Side Barcode</h4>
+        <Badge variant={barcode.decoded ? "default" : "destructive"}>
+          {barcode.decoded ? 'PDF417 Decoded' : 'Not Decoded'}
+        </Badge>
+        {aamva && (
+          <Badge variant="secondary">AAMVA v{aamva.version}</Badge>
+        )}
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        {aamva && (
+          <div className="grid sm:grid-cols-2 gap-x-6 gap-y-1">
+            {fieldLabels
+              .filter(([field]) => aamva[field])
+              .map(([field, label]) => (
+                <div key={field} className="flex justify-between gap-2 text-xs">
+                  <span className="font-medium">{label}:</span>
+                  <span className="text-muted-foreground truncate">{String(aamva[field])}</span>
+                </div>
+              ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {barcode.details}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useId,
+  useRef,
+  useState
+} from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Camera, X } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { verificationService } from '@/services/verificationService';
+import {
+  CAPTURE_HINTS,
+  CaptureHint,
+  DEFAULT_HOLD_MS,
+  FrameAnalysis,
+  ID1_ASPECT,
+  StabilityTracker,
+  pickBestFrame,
+} from '@/services/capture';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { CameraStreamProvider, getCameraStream, stopStream } from '@/lib/camera';
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const ANALYSIS_WIDTH = 960;         // Live frames are downscaled before analysis
+const ANALYSIS_INTERVAL_MS = 200;
+const DEFAULT_BURST_SIZE = 5;
+const BURST_INTERVAL_MS = 80;
+const JPEG_QUALITY = 0.92;
+
+// Takes ownership of `frame`: it must close or transfer it, also on failure
+export type FrameAnalyzer = (frame: ImageBitmap) => Promise<FrameAnalysis>;
+
+const analyzeWithService: FrameAnalyzer = (frame) => verificationService.analyzeFrame(frame);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+//* -------------------------------------------------------------------------- */
+//*                                 drawFrame                                  */
+//* -------------------------------------------------------------------------- */
+// Copies the current video frame (or a captured one) onto a new canvas,
+// no wider than `maxWidth`
+const drawFrame = (source: HTMLVideoElement | HTMLCanvasElement, maxWidth = Infinity): HTMLCanvasElement => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  const scale = Math.min(1, maxWidth / width);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toJpegFile = (canvas: HTMLCanvasElement): Promise<File> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => blob
+        ? resolve(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }))
+        : reject(new Error('The captured frame could not be encoded')),
+      'image/jpeg',
+      JPEG_QUALITY
+    )
+  );
+
+//* -------------------------------------------------------------------------- */
+//*                             CameraCaptureProps                             */
+//* -------------------------------------------------------------------------- */
+// `streamProvider` and `analyzer` default to the device camera and the
+// verification worker; pass stable references, a new one restarts the
+// camera. `holdMs` is how long the frame must stay steady and usable before
+// auto-capture; `burstSize` frames (at least one) are then taken and the best
+// one kept.
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+  streamProvider?: CameraStreamProvider;
+  analyzer?: FrameAnalyzer;
+  holdMs?: number;
+  burstSize?: number;
+}
+
+type CameraStatus = 'starting' | 'live' | 'capturing' | 'error';
+
+//* -------------------------------------------------------------------------- */
+//*                               CameraCapture                                */
+//* -------------------------------------------------------------------------- */
+export const CameraCapture: React.FC<CameraCaptureProps> = ({
+  onCapture,
+  onCancel,
+  streamProvider = getCameraStream,
+  analyzer = analyzeWithService,
+  holdMs = DEFAULT_HOLD_MS,
+  burstSize = DEFAULT_BURST_SIZE,
+}) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const switchId = useId();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<CameraStatus>('starting');
+  const [error, setError] = useState('');
+  const [autoCapture, setAutoCapture] = useState(true);
+
+  // `null` until the first frame is analyzed
+  const [guidance, setGuidance] = useState<{ hints: CaptureHint[]; progress: number } | null>(null);
+  const [isGuidanceUnavailable, setIsGuidanceUnavailable] = useState(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                Start Camera                                */
+  /* -------------------------------------------------------------------------- */
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+
+    streamProvider()
+      .then(async (opened) => {
+        stream = opened;
+        if (cancelled) return stopStream(opened);
+
+        const video = videoRef.current!;
+        video.srcObject = opened;
+        await video.play();
+        if (!cancelled) setStatus('live');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setError(
+          error instanceof DOMException && error.name === 'NotAllowedError'
+            ? 'Camera access was denied. Allow it in the browser settings or upload a photo instead.'
+            : `The camera could not be started${error instanceof Error ? `: ${error.message}` : ''}.`
+        );
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+      if (stream) stopStream(stream);
+    };
+  }, [streamProvider]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   capture                                  */
+  /* -------------------------------------------------------------------------- */
+  // Takes a burst at full resolution and keeps the best frame. Frames are
+  // analyzed only after the burst so they are taken close together.
+  const capture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setStatus('capturing');
+
+    try {
+      const frames: { canvas: HTMLCanvasElement; analysis: FrameAnalysis | null }[] = [];
+      for (let i = 0; i < Math.max(1, burstSize); i++) {
+        if (i > 0) await delay(BURST_INTERVAL_MS);
+        frames.push({ canvas: drawFrame(video), analysis: null });
+      }
+      for (const frame of frames) {
+        frame.analysis = await createImageBitmap(drawFrame(frame.canvas, ANALYSIS_WIDTH))
+          .then(analyzer)
+          .catch(() => null);
+      }
+
+      onCapture(await toJpegFile(pickBestFrame(frames)!.canvas));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'The photo could not be captured.');
+      setStatus('error');
+    }
+  }, [analyzer, burstSize, onCapture]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                Live Guidance                               */
+  /* -------------------------------------------------------------------------- */
+  // One frame in flight at a time; a failing analyzer (worker still loading
+  // or not started on this page) leaves manual capture only
+  useEffect(() => {
+    if (status !== 'live') return;
+    let active = true;
+    const tracker = new StabilityTracker(holdMs);
+
+    const run = async () => {
+      while (active && videoRef.current) {
+        const started = performance.now();
+        try {
+          const analysis = await analyzer(await createImageBitmap(drawFrame(videoRef.current, ANALYSIS_WIDTH)));
+          if (!active) return;
+
+          const { hints, progress, ready } = tracker.update(analysis, performance.now());
+          setGuidance({ hints, progress });
+          setIsGuidanceUnavailable(false);
+          if (ready && autoCapture) {
+            capture();
+            return;
+          }
+        } catch {
+          if (!active) return;
+          tracker.reset();
+          setGuidance(null);
+          setIsGuidanceUnavailable(true);
+        }
+        await delay(Math.max(0, ANALYSIS_INTERVAL_MS - (performance.now() - started)));
+      }
+    };
+    run();
+
+    return () => {
+      active = false;
+    };
+  }, [status, analyzer, holdMs, autoCapture, capture]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  const isUsable = guidance !== null && guidance.hints.length === 0;
+  const message =
+    status === 'starting' ? 'Starting camera...'
+      : status === 'error' ? error
+        : status === 'capturing' ? 'Capturing...'
+          : isGuidanceUnavailable ? 'Live guidance is unavailable; line up the card and capture manually.'
+            : !guidance ? 'Analyzing...'
+              : guidance.hints.length ? CAPTURE_HINTS[guidance.hints[0]]
+                : autoCapture ? 'Hold still...' : 'Looks good, capture now';
+
+  return (
+    <div className="space-y-3">
+      <div className="relative overflow-hidden rounded-lg bg-black aspect-video">
+        <video ref={videoRef} playsInline muted className="w-full h-full object-cover" />
+
+        {/* Card-shaped guide */}
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div
+            className={cn(
+              "w-4/5 rounded-xl border-4 transition-colors",
+              isUsable ? "border-success" : guidance ? "border-warning" : "border-white/70"
+            )}
+            style={{ aspectRatio: ID1_ASPECT }}
+          />
+        </div>
+
+        <div className="absolute bottom-0 inset-x-0 p-3 bg-black/60 text-white space-y-2">
+          <p className="text-sm font-medium" role="status">{message}</p>
+          {autoCapture && isUsable && <Progress value={guidance.progress * 100} className="h-1.5" />}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id={switchId} checked={autoCapture} onCheckedChange={setAutoCapture} />
+          <Label htmlFor={switchId} className="text-sm">Auto-capture</Label>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+          <Button size="sm" onClick={capture} disabled={status !== 'live'}>
+            <Camera className="h-4 w-4 mr-1" />
+            Capture
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { CheckCircle, XCircle, MinusCircle, GitCompare } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { ConsistencyReport, ConsistencySource, ConsistencyStatus } from '@/services/consistency';
+
+//* -------------------------------------------------------------------------- */
+//*                                sourceLabels                                */
+//* -------------------------------------------------------------------------- */
+const sourceLabels: { [source in ConsistencySource]: string } = {
+  ocr: 'Printed',
+  mrz: 'MRZ',
+  barcode: 'Barcode',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 StatusIcon                                 */
+//* -------------------------------------------------------------------------- */
+const StatusIcon: React.FC<{ status: ConsistencyStatus }> = ({ status }) => {
+  switch (status) {
+    case 'matched':
+      return <CheckCircle className="h-3 w-3 text-success shrink-0" />;
+    case 'mismatched':
+      return <XCircle className="h-3 w-3 text-error shrink-0" />;
+    default:
+      return <MinusCircle className="h-3 w-3 text-muted-foreground shrink-0" />;
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                          ConsistencyDetailsProps                           */
+//* -------------------------------------------------------------------------- */
+interface ConsistencyDetailsProps {
+  consistency: ConsistencyReport;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             ConsistencyDetails                             */
+//* -------------------------------------------------------------------------- */
+export const ConsistencyDetails: React.FC<ConsistencyDetailsProps> = ({ consistency }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { sources, fields, matched, mismatched, missing } = consistency;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <GitCompare className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Cross-Source Consistency</h4>
+        <Badge variant={mismatched.length ? "destructive" : "default"}>
+          {mismatched.length ? `${mismatched.length} Mismatched` : `${matched.length} Matched`}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        {sources.length < 2 ? (
+          <p className="text-xs text-muted-foreground">
+            Only the printed text was read, so there was nothing to cross-check. Add the back
+            of the ID or use a document with a machine-readable zone.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-medium py-1 pr-3">Field</th>
+                  {sources.map((source) => (
+                    <th key={source} className="font-medium py-1 pr-3">{sourceLabels[source]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(({ field, label, status, values }) => (
+                  <tr key={field} className="border-t border-border/50">
+                    <td className="py-1 pr-3">
+                      <span className="flex items-center gap-1 font-medium">
+                        <StatusIcon status={status} />
+                        {label}
+                      </span>
+                    </td>
+                    {sources.map((source) => {
+                      const value = values.find((entry) => entry.source === source);
+                      return (
+                        <td
+                          key={source}
+                          className={cn(
+                            "py-1 pr-3 max-w-40 truncate",
+                            status === 'mismatched' ? "text-error" : "text-muted-foreground"
+                          )}
+                          title={value?.raw}
+                        >
+                          {value?.normalized ?? '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {matched.length} matched, {mismatched.length} mismatched and {missing.length} not
+          available in more than one source.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Gavel } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { HistoryEntry, overrideHistoryDecision } from '@/services/history';
+import { DECISION_LABELS, PolicyDecision } from '@/services/policy';
+
+//* -------------------------------------------------------------------------- */
+//*                         DecisionOverrideFormProps                          */
+//* -------------------------------------------------------------------------- */
+interface DecisionOverrideFormProps {
+  entry: HistoryEntry;
+  onOverride: (entry: HistoryEntry) => void;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                            DecisionOverrideForm                            */
+//* -------------------------------------------------------------------------- */
+// Replaces the policy decision of a stored verification; every override is
+// logged to the audit chain, the reason itself only in the sealed entry
+export const DecisionOverrideForm: React.FC<DecisionOverrideFormProps> = ({ entry, onOverride }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [decision, setDecision] = useState<PolicyDecision>(entry.summary.decision);
+  const [reason, setReason] = useState('');
+
+  /* -------------------------------------------------------------------------- */
+  /*                               handleOverride                               */
+  /* -------------------------------------------------------------------------- */
+  const handleOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      onOverride(await overrideHistoryDecision(entry.id, decision, reason));
+      setReason('');
+      toast({ title: "Decision Overridden", description: `Now: ${DECISION_LABELS[decision]}` });
+    } catch (error) {
+      toast({
+        title: "Override Failed",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  const { override } = entry;
+
+  return (
+    <form onSubmit={handleOverride} className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Gavel className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Manual Decision</h4>
+      </div>
+      {override && (
+        <p className="text-sm">
+          Overridden from <span className="font-medium">{DECISION_LABELS[override.previous]}</span> to{' '}
+          <span className="font-medium">{DECISION_LABELS[override.decision]}</span> on{' '}
+          {new Date(override.overriddenAt).toLocaleString()}: {override.reason}
+        </p>
+      )}
+      <div className="grid sm:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label>Decision</Label>
+          <Select value={decision} onValueChange={(value) => setDecision(value as PolicyDecision)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DECISION_LABELS) as PolicyDecision[]).map((option) => (
+                <SelectItem key={option} value={option}>{DECISION_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="overrideReason">Reason</Label>
+          <Input
+            id="overrideReason"
+            placeholder="Why the decision changes…"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={!reason.trim() || decision === entry.summary.decision}>
+          Override
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,74 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useEffect,
+  useMemo
+} from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { DocumentDetection } from '@/components/VerificationResults';
+
+//* -------------------------------------------------------------------------- */
+//*                            DocumentOverlayProps                            */
+//* -------------------------------------------------------------------------- */
+interface DocumentOverlayProps {
+  image: Blob;
+  detection: DocumentDetection;
+  className?: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               DocumentOverlay                              */
+//* -------------------------------------------------------------------------- */
+// Draws the detected card outline over the uploaded photo. The SVG shares the
+// photo's pixel coordinate system, so corners are used as-is.
+export const DocumentOverlay: React.FC<DocumentOverlayProps> = ({
+  image,
+  detection,
+  className,
+}) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const imageUrl = useMemo(() => URL.createObjectURL(image), [image]);
+
+  useEffect(() => () => URL.revokeObjectURL(imageUrl), [imageUrl]);
+
+  const { width, height } = detection.imageSize;
+  const points = detection.corners.map(({ x, y }) => `${x},${y}`).join(' ');
+  const strokeWidth = Math.max(width, height) / 150;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className={cn("relative rounded-lg overflow-hidden border-2 border-border", className)}>
+      <img src={imageUrl} alt="Detected document" className="w-full h-auto block" />
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="absolute inset-0 w-full h-full"
+        preserveAspectRatio="none"
+      >
+        <polygon
+          points={points}
+          fill="hsl(var(--primary) / 0.15)"
+          stroke="hsl(var(--primary))"
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        {detection.corners.map(({ x, y }, index) => (
+          <circle key={index} cx={x} cy={y} r={strokeWidth * 2} fill="hsl(var(--primary))" />
+        ))}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Library } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { DocumentIdentification } from '@/components/VerificationResults';
+
+//* -------------------------------------------------------------------------- */
+//*                        IdentificationDetailsProps                          */
+//* -------------------------------------------------------------------------- */
+interface IdentificationDetailsProps {
+  identification: DocumentIdentification;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                           IdentificationDetails                            */
+//* -------------------------------------------------------------------------- */
+export const IdentificationDetails: React.FC<IdentificationDetailsProps> = ({ identification }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { evaluated, candidates, selected } = identification;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Library className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Document Type</h4>
+        <Badge variant={selected ? "default" : "destructive"}>
+          {selected ? selected.label : 'Not Identified'}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        {candidates.map((candidate, index) => (
+          <div key={candidate.templateId ?? index} className="space-y-1">
+            <div className="flex justify-between gap-2 text-sm">
+              <span className={cn("truncate", index === 0 && "font-medium")}>
+                {index + 1}. {candidate.label}
+                {candidate.metadata?.validFrom && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    issued {candidate.metadata.validFrom} – {candidate.metadata.validTo ?? 'present'}
+                  </span>
+                )}
+              </span>
+              <span className="font-medium">{Math.round(candidate.confidence * 100)}%</span>
+            </div>
+            <Progress value={candidate.confidence * 100} className="h-1.5" />
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          {evaluated === 1
+            ? 'Compared against a single reference.'
+            : `Scored against ${evaluated} templates; showing the top ${candidates.length}.`}
+        </p>
+      </div>
+    </div>
+  );
+};
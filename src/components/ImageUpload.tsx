@@ -15,22 +15,32 @@ import { Card } from '@/components/ui/card';
 //* -------------------------------------------------------------------------- */
 //*                                Lucide Icons                                */
 //* -------------------------------------------------------------------------- */
-import { Upload, X, Check } from 'lucide-react';
+import { Upload, X, Check, Camera } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { CameraCapture, FrameAnalyzer } from '@/components/CameraCapture';
 
 //* -------------------------------------------------------------------------- */
 //*                                    Libs                                    */
 //* -------------------------------------------------------------------------- */
 import { cn } from '@/lib/utils';
+import { CameraStreamProvider, hasCamera } from '@/lib/camera';
 
 //* -------------------------------------------------------------------------- */
 //*                              ImageUploadProps                              */
 //* -------------------------------------------------------------------------- */
+// `cameraStream` and `frameAnalyzer` replace the device camera and the live
+// guidance of camera mode, e.g. with a fake stream
 interface ImageUploadProps {
   onImageUpload: (file: File) => void;
   label: string;
   description: string;
   uploadedImage?: File | null;
   className?: string;
+  cameraStream?: CameraStreamProvider;
+  frameAnalyzer?: FrameAnalyzer;
 }
 
 //* -------------------------------------------------------------------------- */
@@ -42,12 +52,16 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
   description,
   uploadedImage,
   className,
+  cameraStream,
+  frameAnalyzer,
 }) => {
 
   /* -------------------------------------------------------------------------- */
   /*                                    Data                                    */
   /* -------------------------------------------------------------------------- */
   const [isDragOver, setIsDragOver] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const canUseCamera = Boolean(cameraStream) || hasCamera();
 
   /* -------------------------------------------------------------------------- */
   /*                               handleDragEnter                              */
@@ -101,6 +115,14 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
     }
   }, [onImageUpload]);
 
+  /* -------------------------------------------------------------------------- */
+  /*                                handleCapture                               */
+  /* -------------------------------------------------------------------------- */
+  const handleCapture = useCallback((file: File) => {
+    setIsCameraOpen(false);
+    onImageUpload(file);
+  }, [onImageUpload]);
+
   /* -------------------------------------------------------------------------- */
   /*                                 clearImage                                 */
   /* -------------------------------------------------------------------------- */
@@ -141,6 +163,13 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
               <span className="text-sm font-medium">Image uploaded successfully</span>
             </div>
           </div>
+        ) : isCameraOpen ? (
+          <CameraCapture
+            onCapture={handleCapture}
+            onCancel={() => setIsCameraOpen(false)}
+            streamProvider={cameraStream}
+            analyzer={frameAnalyzer}
+          />
         ) : (
           <div
             className={cn(
@@ -167,9 +196,24 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({
                 Drag and drop your image here
               </p>
               <p className="text-xs text-muted-foreground">or</p>
-              <Button variant="outline" size="sm">
-                Browse Files
-              </Button>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm">
+                  Browse Files
+                </Button>
+                {canUseCamera && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsCameraOpen(true);
+                    }}
+                  >
+                    <Camera className="h-4 w-4 mr-1" />
+                    Use Camera
+                  </Button>
+                )}
+              </div>
             </div>
             <p className="text-xs text-muted-foreground mt-4">
               Supports: JPG, PNG, JPEG (Max 10MB)
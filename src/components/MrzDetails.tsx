@@ -0,0 +1,88 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { CheckCircle, XCircle, ScanText } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { MrzResult } from '@/services/mrz';
+
+//* -------------------------------------------------------------------------- */
+//*                                fieldLabels                                 */
+//* -------------------------------------------------------------------------- */
+const fieldLabels: { [field in keyof MrzResult['fields']]: string } = {
+  documentType: 'Document Type',
+  issuingCountry: 'Issuing Country',
+  documentNumber: 'Document Number',
+  nationality: 'Nationality',
+  dateOfBirth: 'Date of Birth',
+  sex: 'Sex',
+  expirationDate: 'Expiration',
+  surname: 'Surname',
+  givenNames: 'Given Names',
+  optionalData: 'Optional Data',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              MrzDetailsProps                               */
+//* -------------------------------------------------------------------------- */
+interface MrzDetailsProps {
+  mrz: MrzResult;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                 MrzDetails                                 */
+//* -------------------------------------------------------------------------- */
+export const MrzDetails: React.FC<MrzDetailsProps> = ({ mrz }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <ScanText className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Machine-Readable Zone</h4>
+        <Badge variant="secondary">{mrz.format}</Badge>
+        <Badge variant={mrz.valid ? "default" : "destructive"}>
+          {mrz.valid ? 'Check Digits Valid' : 'Check Digits Failed'}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        <pre className="text-xs font-mono bg-background rounded p-2 overflow-x-auto">
+          {mrz.lines.join('\n')}
+        </pre>
+        <div className="grid sm:grid-cols-2 gap-x-6 gap-y-1">
+          {(Object.keys(fieldLabels) as (keyof MrzResult['fields'])[]).map((field) => (
+            <div key={field} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium">{fieldLabels[field]}:</span>
+              <span className="flex items-center gap-1 text-muted-foreground truncate">
+                {mrz.fields[field].value || '—'}
+                {mrz.fields[field].valid ? (
+                  <CheckCircle className="h-3 w-3 text-success shrink-0" />
+                ) : (
+                  <XCircle className="h-3 w-3 text-error shrink-0" />
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-sm">
+          <span>Composite Check Digit:</span>
+          <span className="font-medium">{mrz.compositeValid ? 'Valid' : 'Invalid'}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { CheckCircle, XCircle, AlertTriangle, Aperture } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { QualityCheck, QualityReport } from '@/services/quality';
+
+//* -------------------------------------------------------------------------- */
+//*                                 CheckIcon                                  */
+//* -------------------------------------------------------------------------- */
+const CheckIcon: React.FC<{ check: QualityCheck }> = ({ check }) => {
+  if (check.passed || check.action === 'ignore') {
+    return <CheckCircle className="h-4 w-4 text-success shrink-0" />;
+  }
+  return check.action === 'block'
+    ? <XCircle className="h-4 w-4 text-error shrink-0" />
+    : <AlertTriangle className="h-4 w-4 text-warning shrink-0" />;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                         QualityReportDetailsProps                          */
+//* -------------------------------------------------------------------------- */
+interface QualityReportDetailsProps {
+  report: QualityReport;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                            QualityReportDetails                            */
+//* -------------------------------------------------------------------------- */
+export const QualityReportDetails: React.FC<QualityReportDetailsProps> = ({ report }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { score, checks, blocked, warnings } = report;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Aperture className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Image Quality</h4>
+        <Badge variant={blocked ? "destructive" : warnings.length ? "secondary" : "default"}>
+          {blocked ? 'Blocked' : warnings.length ? `${warnings.length} Warnings` : 'Good'}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>Quality Score:</span>
+            <span className="font-medium">{Math.round(score * 100)}%</span>
+          </div>
+          <Progress value={score * 100} className="h-2" />
+        </div>
+        <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2">
+          {checks.map((check) => (
+            <div
+              key={check.id}
+              className={cn("flex gap-2 text-xs", check.action === 'ignore' && "opacity-50")}
+            >
+              <CheckIcon check={check} />
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {check.label}
+                  {!check.passed && check.action !== 'ignore' && (
+                    <span className="ml-1 text-muted-foreground font-normal">
+                      ({check.action === 'block' ? 'blocking' : 'warning'})
+                    </span>
+                  )}
+                </p>
+                <p className="text-muted-foreground">{check.details}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
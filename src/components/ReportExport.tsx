@@ -0,0 +1,112 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { FileJson, FileSignature, FileText } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  ReportSource,
+  createJsonReport,
+  createPdfReport,
+  reportFileName,
+  serializeReport,
+} from '@/services/reports';
+import { signReport } from '@/services/signing';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { downloadBlob } from '@/lib/download';
+
+//* -------------------------------------------------------------------------- */
+//*                                ReportExport                                */
+//* -------------------------------------------------------------------------- */
+// PDF, canonical JSON and signed JWS downloads of one verification, all built
+// in the browser
+export const ReportExport: React.FC<{ source: ReportSource }> = ({ source }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handlePdf                                  */
+  /* -------------------------------------------------------------------------- */
+  const handlePdf = async () => {
+    setIsBuilding(true);
+    try {
+      downloadBlob(await createPdfReport(source), reportFileName(source, 'pdf'));
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: "The PDF report could not be created.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleJson                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleJson = () => {
+    const json = serializeReport(createJsonReport(source));
+    downloadBlob(new Blob([json], { type: 'application/json' }), reportFileName(source, 'json'));
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleSign                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleSign = async () => {
+    try {
+      const jws = await signReport(source);
+      downloadBlob(new Blob([jws], { type: 'application/jose' }), reportFileName(source, 'jws'));
+    } catch (error) {
+      toast({
+        title: "Signing Failed",
+        description: "The signed report could not be created.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={handlePdf} disabled={isBuilding}>
+        <FileText className="h-4 w-4 mr-2" />
+        {isBuilding ? 'Building PDF…' : 'PDF Report'}
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleJson}>
+        <FileJson className="h-4 w-4 mr-2" />
+        JSON
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleSign}>
+        <FileSignature className="h-4 w-4 mr-2" />
+        Signed
+      </Button>
+    </div>
+  );
+};
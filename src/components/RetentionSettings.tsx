@@ -0,0 +1,229 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useState
+} from 'react';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Eraser, Save, Timer } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  OutcomeRecord,
+  Tombstone,
+  listOutcomes,
+  listTombstones,
+} from '@/services/history';
+import {
+  RetentionPolicy,
+  getRetentionPolicy,
+  purgeExpired,
+  setRetentionPolicy,
+} from '@/services/retention';
+import { DECISION_LABELS, PolicyDecision } from '@/services/policy';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+// An empty field keeps the data indefinitely
+const toDays = (value: string) => (value.trim() ? Number(value) : null);
+
+const tombstoneLabels: { [scope in Tombstone['scope']]: string } = {
+  entry: 'Entry deleted',
+  images: 'Images deleted',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                           RetentionSettingsProps                           */
+//* -------------------------------------------------------------------------- */
+interface RetentionSettingsProps {
+  // Called after a manual purge changed the history
+  onPurge?: () => void;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             RetentionSettings                              */
+//* -------------------------------------------------------------------------- */
+// Retention periods, a manual purge, the anonymized outcome counts that
+// survive purges and the tombstone log of every deletion
+export const RetentionSettings: React.FC<RetentionSettingsProps> = ({ onPurge }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [imageDays, setImageDays] = useState('');
+  const [fieldDays, setFieldDays] = useState('');
+  const [outcomes, setOutcomes] = useState<OutcomeRecord[]>([]);
+  const [tombstones, setTombstones] = useState<Tombstone[]>([]);
+  const [isPurging, setIsPurging] = useState(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  refresh                                   */
+  /* -------------------------------------------------------------------------- */
+  const refresh = useCallback(async () => {
+    const [policy, nextOutcomes, nextTombstones] = await Promise.all([
+      getRetentionPolicy(),
+      listOutcomes(),
+      listTombstones(),
+    ]);
+    setImageDays(policy.imageDays?.toString() ?? '');
+    setFieldDays(policy.fieldDays?.toString() ?? '');
+    setOutcomes(nextOutcomes);
+    setTombstones(nextTombstones);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleSave                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleSave = async () => {
+    const policy: RetentionPolicy = { imageDays: toDays(imageDays), fieldDays: toDays(fieldDays) };
+    try {
+      await setRetentionPolicy(policy);
+      toast({ title: "Retention Policy Saved" });
+    } catch (error) {
+      toast({
+        title: "Invalid Retention Policy",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                               handlePurgeNow                               */
+  /* -------------------------------------------------------------------------- */
+  const handlePurgeNow = async () => {
+    setIsPurging(true);
+    try {
+      const { images, entries } = await purgeExpired();
+      toast({
+        title: "Purge Complete",
+        description: `Deleted the images of ${images} and all data of ${entries} expired verifications.`,
+      });
+      await refresh();
+      onPurge?.();
+    } catch (error) {
+      toast({
+        title: "Purge Failed",
+        description: "The history could not be purged.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  const counts = outcomes.reduce(
+    (totals, { decision }) => ({ ...totals, [decision]: totals[decision] + 1 }),
+    { accept: 0, review: 0, reject: 0 } as { [decision in PolicyDecision]: number }
+  );
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Timer className="h-5 w-5 text-primary" />
+        <h3 className="font-medium">Data Retention</h3>
+      </div>
+
+      <div className="grid sm:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="retentionImages">Delete images after (days)</Label>
+          <Input
+            id="retentionImages"
+            type="number"
+            min={1}
+            placeholder="Keep"
+            value={imageDays}
+            onChange={(e) => setImageDays(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="retentionFields">Delete fields after (days)</Label>
+          <Input
+            id="retentionFields"
+            type="number"
+            min={1}
+            placeholder="Keep"
+            value={fieldDays}
+            onChange={(e) => setFieldDays(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={handleSave}>
+          <Save className="h-4 w-4 mr-2" />
+          Save Policy
+        </Button>
+        <Button variant="outline" onClick={handlePurgeNow} disabled={isPurging}>
+          <Eraser className="h-4 w-4 mr-2" />
+          {isPurging ? 'Purging…' : 'Purge Now'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-muted-foreground">Anonymized outcomes:</span>
+        <Badge variant="outline">{outcomes.length} total</Badge>
+        {(Object.keys(counts) as PolicyDecision[]).map((decision) => (
+          <Badge key={decision} variant="secondary">
+            {DECISION_LABELS[decision]}: {counts[decision]}
+          </Badge>
+        ))}
+      </div>
+
+      <details className="text-xs">
+        <summary className="cursor-pointer font-medium">Deletion log ({tombstones.length})</summary>
+        {tombstones.length === 0 ? (
+          <p className="text-muted-foreground mt-2">Nothing has been deleted yet.</p>
+        ) : (
+          <table className="w-full mt-2">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="font-medium py-1 pr-3">Deleted</th>
+                <th className="font-medium py-1 pr-3">What</th>
+                <th className="font-medium py-1 pr-3">Reason</th>
+                <th className="font-medium py-1">Entry</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tombstones.map((tombstone) => (
+                <tr key={tombstone.id} className="border-t border-border/50">
+                  <td className="py-1 pr-3 whitespace-nowrap">{new Date(tombstone.deletedAt).toLocaleString()}</td>
+                  <td className="py-1 pr-3">{tombstoneLabels[tombstone.scope]}</td>
+                  <td className="py-1 pr-3 capitalize">{tombstone.reason}</td>
+                  <td className="py-1 font-mono text-muted-foreground">{tombstone.entryId}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </details>
+    </Card>
+  );
+};
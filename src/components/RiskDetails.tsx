@@ -0,0 +1,121 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { Gauge, AlertOctagon, AlertTriangle, Info } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { RiskAssessment, RiskLevel, RiskSeverity } from '@/services/riskScoring';
+
+//* -------------------------------------------------------------------------- */
+//*                                SeverityIcon                                */
+//* -------------------------------------------------------------------------- */
+const SeverityIcon: React.FC<{ severity: RiskSeverity }> = ({ severity }) => {
+  switch (severity) {
+    case 'critical':
+      return <AlertOctagon className="h-4 w-4 text-error shrink-0" />;
+    case 'high':
+      return <AlertTriangle className="h-4 w-4 text-error shrink-0" />;
+    case 'medium':
+      return <AlertTriangle className="h-4 w-4 text-warning shrink-0" />;
+    default:
+      return <Info className="h-4 w-4 text-muted-foreground shrink-0" />;
+  }
+};
+
+const levelVariants: { [level in RiskLevel]: 'default' | 'secondary' | 'destructive' } = {
+  low: 'default',
+  medium: 'secondary',
+  high: 'destructive',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              RiskDetailsProps                              */
+//* -------------------------------------------------------------------------- */
+interface RiskDetailsProps {
+  risk: RiskAssessment;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                RiskDetails                                 */
+//* -------------------------------------------------------------------------- */
+export const RiskDetails: React.FC<RiskDetailsProps> = ({ risk }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { score, level, signals, reasons } = risk;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Gauge className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Risk Assessment</h4>
+        <Badge variant={levelVariants[level]} className="capitalize">{level} Risk</Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>Trust Score:</span>
+            <span className="font-medium">{Math.round(score * 100)}%</span>
+          </div>
+          <Progress value={score * 100} className="h-2" />
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2">
+          {signals.map(({ signal, label, weight, score: signalScore, details }) => (
+            <div key={signal} className={cn("text-xs space-y-1", signalScore === null && "opacity-50")}>
+              <div className="flex justify-between">
+                <span className="font-medium">{label}</span>
+                <span className="text-muted-foreground">
+                  {signalScore === null ? 'n/a' : `${Math.round(signalScore * 100)}%`} · weight {weight}
+                </span>
+              </div>
+              <Progress value={(signalScore ?? 0) * 100} className="h-1" />
+              <p className="text-muted-foreground truncate" title={details}>{details}</p>
+            </div>
+          ))}
+        </div>
+
+        {reasons.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No risk indicators were raised.</p>
+        ) : (
+          <ul className="space-y-2">
+            {reasons.map((reason, index) => (
+              <li key={index} className="flex gap-2 text-xs">
+                <SeverityIcon severity={reason.severity} />
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    <code>{reason.code}</code>
+                    <span className="ml-1 text-muted-foreground font-normal">({reason.severity})</span>
+                  </p>
+                  <p className="text-muted-foreground">{reason.explanation}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { FlipHorizontal } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { SIDE_LABELS } from '@/services/templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { SideVerification } from '@/components/VerificationResults';
+
+//* -------------------------------------------------------------------------- */
+//*                              SideDetailsProps                              */
+//* -------------------------------------------------------------------------- */
+interface SideDetailsProps {
+  sides: SideVerification[];
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                SideDetails                                 */
+//* -------------------------------------------------------------------------- */
+// Per-side checks of a multi-sided document; the document-level outcome
+// above already accounts for each of them
+export const SideDetails: React.FC<SideDetailsProps> = ({ sides }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const missing = sides.filter((side) => !side.provided);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <FlipHorizontal className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Document Sides</h4>
+        <Badge variant={missing.length ? "destructive" : "default"}>
+          {missing.length ? `${missing.length} Missing` : 'All Captured'}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 grid sm:grid-cols-2 gap-4">
+        {sides.map((side) => (
+          <div key={side.side} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{SIDE_LABELS[side.side]}</span>
+              {side.provided ? (
+                <Badge variant={side.templateMatch.isMatch ? "default" : "destructive"}>
+                  {side.templateMatch.isMatch ? 'Layout Match' : 'No Match'}
+                </Badge>
+              ) : (
+                <Badge variant="destructive">Not Captured</Badge>
+              )}
+            </div>
+            {side.provided ? (
+              <>
+                <div className="flex justify-between text-xs">
+                  <span>Layout</span>
+                  <span className="font-medium">{Math.round(side.templateMatch.confidence * 100)}%</span>
+                </div>
+                <Progress value={side.templateMatch.confidence * 100} className="h-1.5" />
+                <div className="flex justify-between text-xs">
+                  <span>Image quality</span>
+                  <span className="font-medium">{Math.round(side.quality.score * 100)}%</span>
+                </div>
+                <Progress value={side.quality.score * 100} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">
+                  {side.fieldIds.length} fields read
+                  {side.quality.warnings.length > 0 && ` · ${side.quality.warnings.length} quality warnings`}
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                The identified template requires this side. Capture it and verify again.
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useRef,
+  useState
+} from 'react';
+import { useObjectUrl } from '@/hooks/use-object-url';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { RegionRect, TemplateField } from '@/services/templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const MIN_ZONE_SIZE = 0.01;   // Ignore accidental clicks while drawing
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+//* -------------------------------------------------------------------------- */
+//*                           TemplateZoneCanvasProps                          */
+//* -------------------------------------------------------------------------- */
+interface TemplateZoneCanvasProps {
+  image: Blob;
+  fields: TemplateField[];
+  selectedId: string | null;
+  isDrawing: boolean;
+  onDraw: (rect: RegionRect) => void;
+  onSelect: (id: string) => void;
+  className?: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             TemplateZoneCanvas                             */
+//* -------------------------------------------------------------------------- */
+// Shows the reference image with its field zones. While `isDrawing`, dragging
+// draws a new rectangle; coordinates are fractions of the image size.
+export const TemplateZoneCanvas: React.FC<TemplateZoneCanvasProps> = ({
+  image,
+  fields,
+  selectedId,
+  isDrawing,
+  onDraw,
+  onSelect,
+  className,
+}) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const imageUrl = useObjectUrl(image);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<RegionRect | null>(null);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  toPoint                                   */
+  /* -------------------------------------------------------------------------- */
+  const toPoint = (event: React.PointerEvent) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const toRect = (a: { x: number; y: number }, b: { x: number; y: number }): RegionRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  /* -------------------------------------------------------------------------- */
+  /*                               Pointer events                               */
+  /* -------------------------------------------------------------------------- */
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!isDrawing) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setStart(toPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (start) setDraft(toRect(start, toPoint(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!start) return;
+    const rect = toRect(start, toPoint(event));
+    setStart(null);
+    setDraft(null);
+    if (rect.width >= MIN_ZONE_SIZE && rect.height >= MIN_ZONE_SIZE) onDraw(rect);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative rounded-lg overflow-hidden border-2 border-border select-none touch-none",
+        isDrawing && "cursor-crosshair",
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {imageUrl && (
+        <img src={imageUrl} alt="Reference template" className="w-full h-auto block" draggable={false} />
+      )}
+
+      {fields.map((field) => (
+        <button
+          key={field.id}
+          type="button"
+          className={cn(
+            "absolute border-2 text-left",
+            field.id === selectedId
+              ? "border-primary bg-primary/20"
+              : "border-warning bg-warning/10 hover:bg-warning/20",
+            isDrawing && "pointer-events-none"
+          )}
+          style={{
+            left: `${field.x * 100}%`,
+            top: `${field.y * 100}%`,
+            width: `${field.width * 100}%`,
+            height: `${field.height * 100}%`,
+          }}
+          onClick={() => onSelect(field.id)}
+        >
+          <span className="absolute top-0 left-0 text-[10px] font-medium bg-background/90 px-1 rounded-br whitespace-nowrap">
+            {field.label}
+          </span>
+        </button>
+      ))}
+
+      {draft && (
+        <div
+          className="absolute border-2 border-dashed border-primary bg-primary/10"
+          style={{
+            left: `${draft.x * 100}%`,
+            top: `${draft.y * 100}%`,
+            width: `${draft.width * 100}%`,
+            height: `${draft.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
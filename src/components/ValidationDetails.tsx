@@ -0,0 +1,106 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { CheckCircle, XCircle, AlertTriangle, ListChecks } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { cn } from '@/lib/utils';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { ValidationReport } from '@/services/validation';
+
+//* -------------------------------------------------------------------------- */
+//*                           ValidationDetailsProps                           */
+//* -------------------------------------------------------------------------- */
+interface ValidationDetailsProps {
+  validation: ValidationReport;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             ValidationDetails                              */
+//* -------------------------------------------------------------------------- */
+export const ValidationDetails: React.FC<ValidationDetailsProps> = ({ validation }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const { fields, issues, age, expired, expirationDate, idRule, isValid } = validation;
+  const errors = issues.filter((issue) => issue.severity === 'error');
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-5 w-5 text-primary" />
+        <h4 className="font-medium">Field Validation</h4>
+        <Badge variant={isValid ? "default" : "destructive"}>
+          {isValid ? 'Valid' : `${errors.length} ${errors.length === 1 ? 'Error' : 'Errors'}`}
+        </Badge>
+      </div>
+      <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline">Age: {age ?? 'unknown'}</Badge>
+          <Badge variant={expired ? "destructive" : "outline"}>
+            {expired === null ? 'Expiry unknown' : expired ? `Expired ${expirationDate}` : `Valid until ${expirationDate}`}
+          </Badge>
+          <Badge variant="outline">ID format: {idRule ?? 'not checked'}</Badge>
+        </div>
+
+        {fields.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No extracted fields to validate.</p>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            {fields.map(({ field, label, raw, normalized, valid }) => (
+              <div key={field} className="flex items-center gap-1 min-w-0">
+                {valid ? (
+                  <CheckCircle className="h-3 w-3 text-success shrink-0" />
+                ) : (
+                  <XCircle className="h-3 w-3 text-error shrink-0" />
+                )}
+                <span className="font-medium shrink-0">{label}:</span>
+                <span
+                  className={cn("truncate", valid ? "text-muted-foreground" : "text-error")}
+                  title={raw}
+                >
+                  {normalized ?? raw}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {issues.map((issue, index) => (
+              <li key={index} className="flex items-start gap-1">
+                <AlertTriangle
+                  className={cn(
+                    "h-3 w-3 mt-0.5 shrink-0",
+                    issue.severity === 'error' ? "text-error" : "text-warning"
+                  )}
+                />
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
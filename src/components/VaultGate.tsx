@@ -0,0 +1,236 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Lucide                                   */
+//* -------------------------------------------------------------------------- */
+import { KeyRound, Lock, LockKeyhole } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  MIN_PASSPHRASE_LENGTH,
+  VaultPassphraseError,
+  createVault,
+  lockVault,
+  rotateVaultKey,
+  unlockVault,
+} from '@/services/vault';
+import { encryptLegacyHistory } from '@/services/history';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+const errorMessage = (error: unknown) =>
+  error instanceof VaultPassphraseError
+    ? 'The passphrase is not correct.'
+    : error instanceof Error ? error.message : 'Something went wrong.';
+
+//* -------------------------------------------------------------------------- */
+//*                                 VaultGate                                  */
+//* -------------------------------------------------------------------------- */
+// Renders its children only while the encrypted store is unlocked; otherwise
+// asks for the passphrase, or for a new one on first use
+export const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const status = useVault();
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleSubmit                                */
+  /* -------------------------------------------------------------------------- */
+  // Key derivation takes a moment on purpose, hence the busy state
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (status === 'uninitialized' && passphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (status === 'uninitialized') {
+        await createVault(passphrase);
+        const sealed = await encryptLegacyHistory();
+        if (sealed > 0) {
+          toast({ title: "History Encrypted", description: `${sealed} stored verifications were encrypted.` });
+        }
+      } else {
+        await unlockVault(passphrase);
+      }
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      setError(errorMessage(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  if (status === null) return null;
+  if (status === 'unlocked') return <>{children}</>;
+
+  const isNew = status === 'uninitialized';
+
+  return (
+    <Card className="p-6 max-w-md mx-auto">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-2">
+          <LockKeyhole className="h-5 w-5 text-primary" />
+          <h3 className="font-medium">{isNew ? 'Set Up Encrypted Storage' : 'Unlock Encrypted Storage'}</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {isNew
+            ? `Stored verifications are encrypted with a key protected by this passphrase. It cannot be recovered, so keep it safe (at least ${MIN_PASSPHRASE_LENGTH} characters).`
+            : 'Enter the operator passphrase to read and store verifications.'}
+        </p>
+        <div className="space-y-1">
+          <Label htmlFor="vaultPassphrase">Passphrase</Label>
+          <Input
+            id="vaultPassphrase"
+            type="password"
+            autoComplete={isNew ? 'new-password' : 'current-password'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </div>
+        {isNew && (
+          <div className="space-y-1">
+            <Label htmlFor="vaultConfirmation">Confirm Passphrase</Label>
+            <Input
+              id="vaultConfirmation"
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+        )}
+        {error && <p className="text-xs text-error">{error}</p>}
+        <Button type="submit" className="w-full" disabled={isBusy || !passphrase}>
+          {isBusy ? 'Deriving key…' : isNew ? 'Create' : 'Unlock'}
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               VaultControls                                */
+//* -------------------------------------------------------------------------- */
+// Lock button plus key rotation. Leaving the new passphrase empty keeps the
+// current one and only replaces the data key.
+export const VaultControls: React.FC = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [isRotating, setIsRotating] = useState(false);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleRotate                                */
+  /* -------------------------------------------------------------------------- */
+  const handleRotate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await rotateVaultKey(current, next || current);
+      toast({ title: "Key Rotated", description: "All stored verifications were re-encrypted." });
+      setCurrent('');
+      setNext('');
+      setIsRotating(false);
+    } catch (error) {
+      setError(errorMessage(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsRotating(!isRotating)}>
+          <KeyRound className="h-4 w-4 mr-2" />
+          Rotate Key
+        </Button>
+        <Button variant="outline" size="sm" onClick={lockVault}>
+          <Lock className="h-4 w-4 mr-2" />
+          Lock
+        </Button>
+      </div>
+      {isRotating && (
+        <Card className="p-4">
+          <form onSubmit={handleRotate} className="grid sm:grid-cols-3 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="rotateCurrent">Current Passphrase</Label>
+              <Input
+                id="rotateCurrent"
+                type="password"
+                autoComplete="current-password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rotateNext">New Passphrase (optional)</Label>
+              <Input
+                id="rotateNext"
+                type="password"
+                autoComplete="new-password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isBusy || !current}>
+              {isBusy ? 'Re-encrypting…' : 'Rotate'}
+            </Button>
+            {error && <p className="text-xs text-error sm:col-span-3">{error}</p>}
+          </form>
+        </Card>
+      )}
+    </div>
+  );
+};
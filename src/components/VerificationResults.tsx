@@ -12,39 +12,202 @@ import { Badge } from '@/components/ui/badge';
 //* -------------------------------------------------------------------------- */
 //*                                   Lucide                                   */
 //* -------------------------------------------------------------------------- */
-import { CheckCircle, XCircle, FileText, Image } from 'lucide-react';
+import { CheckCircle, XCircle, FileText, Image, ScanLine } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { DocumentOverlay } from '@/components/DocumentOverlay';
+import { MrzDetails } from '@/components/MrzDetails';
+import { BarcodeDetails } from '@/components/BarcodeDetails';
+import { ConsistencyDetails } from '@/components/ConsistencyDetails';
+import { ValidationDetails } from '@/components/ValidationDetails';
+import { RiskDetails } from '@/components/RiskDetails';
+import { QualityReportDetails } from '@/components/QualityReportDetails';
+import { IdentificationDetails } from '@/components/IdentificationDetails';
+import { SideDetails } from '@/components/SideDetails';
 
 //* -------------------------------------------------------------------------- */
 //*                                     Lib                                    */
 //* -------------------------------------------------------------------------- */
 import { cn } from '@/lib/utils';
 
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { MrzResult } from '@/services/mrz';
+import { AamvaRecord } from '@/services/aamva';
+import { ConsistencyReport } from '@/services/consistency';
+import { ValidationReport } from '@/services/validation';
+import { RiskAssessment } from '@/services/riskScoring';
+import { DECISION_LABELS, PolicyDecision, PolicyOutcome } from '@/services/policy';
+import { QualityReport } from '@/services/quality';
+import { DocumentSide, RegionRect, TemplateMetadata } from '@/services/templates';
+import { EngineVersions } from '@/workers/assets';
+
+//* -------------------------------------------------------------------------- */
+//*                              DocumentDetection                             */
+//* -------------------------------------------------------------------------- */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners are top-left, top-right, bottom-right, bottom-left in ID image pixels
+export interface DocumentDetection {
+  detected: boolean;
+  corners: Point[];
+  imageSize: { width: number; height: number };
+  areaRatio: number;
+  normalizedSize: { width: number; height: number };
+}
+
+//* -------------------------------------------------------------------------- */
+//*                              TemplateAlignment                             */
+//* -------------------------------------------------------------------------- */
+// Homography maps normalized card pixels onto reference image pixels (row-major 3x3)
+export interface TemplateAlignment {
+  detector: 'orb' | 'akaze';
+  keypoints: { source: number; reference: number };
+  matches: number;
+  inliers: number;
+  inlierRatio: number;
+  reprojectionError: number;
+  homography: number[][];
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               TemplateMasking                              */
+//* -------------------------------------------------------------------------- */
+// Present when the template masks out variable zones; `confidence` on the
+// template match is then the masked score
+export interface TemplateMasking {
+  maskedConfidence: number;
+  unmaskedConfidence: number;
+  ignoredRatio: number;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               BarcodeResult                                */
+//* -------------------------------------------------------------------------- */
+export interface BarcodeResult {
+  decoded: boolean;
+  raw?: string;
+  aamva?: AamvaRecord;
+  details: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                           DocumentIdentification                           */
+//* -------------------------------------------------------------------------- */
+// Best-first template candidates; `templateId` is null for an uploaded
+// reference outside the library
+export interface TemplateCandidate {
+  templateId: string | null;
+  label: string;
+  metadata?: TemplateMetadata;
+  confidence: number;
+  isMatch: boolean;
+}
+
+export interface DocumentIdentification {
+  evaluated: number;
+  candidates: TemplateCandidate[];
+  selected: TemplateCandidate | null;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               ExtractedField                               */
+//* -------------------------------------------------------------------------- */
+// One OCR value; `bbox` is in fractions of the reference frame, like the
+// template zones, and `confidence` is the OCR confidence for this value (0-1)
+export interface ExtractedField {
+  label: string;
+  value: string;
+  confidence: number;
+  bbox: RegionRect;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                              SideVerification                              */
+//* -------------------------------------------------------------------------- */
+// Checks of one captured side against that side's reference; a side the
+// template requires but that was not captured is listed as not provided.
+// `fieldIds` are the extracted fields read from this side.
+export type SideVerification =
+  | {
+      side: DocumentSide;
+      provided: true;
+      documentDetection: DocumentDetection;
+      quality: QualityReport;
+      templateMatch: VerificationResult['templateMatch'];
+      fieldIds: string[];
+    }
+  | { side: DocumentSide; provided: false };
+
 //* -------------------------------------------------------------------------- */
 //*                             VerificationResult                             */
 //* -------------------------------------------------------------------------- */
+// Document level: `documentDetection`, `quality` and `templateMatch` are the
+// front's (the side the document type is identified from), the extracted
+// text, consistency and validation span every side, and risk and decision
+// weigh the checks of every side in `sides`.
 export interface VerificationResult {
+  documentDetection: DocumentDetection;
+  quality: QualityReport;
+  identification: DocumentIdentification;
   templateMatch: {
     isMatch: boolean;
     confidence: number;
     details: string;
+    method: 'feature' | 'template';
+    alignment?: TemplateAlignment;
+    masking?: TemplateMasking;
   };
+  // `zonal` reads each template field zone; `fullPage` searches the whole
+  // card for printed labels when the template defines no fields
   textExtraction: {
+    method: 'zonal' | 'fullPage';
     extractedLabels: string[];
-    extractedData: { [key: string]: string };
+    extractedData: { [fieldId: string]: ExtractedField };
+    missingRequired: string[];
     confidence: number;
     details: string;
   };
+  mrz?: MrzResult;
+  barcode?: BarcodeResult;
+  consistency: ConsistencyReport;
+  validation: ValidationReport;
+  risk: RiskAssessment;
+  // Verdict and trust score of `risk`
   overall: {
     isValid: boolean;
     confidence: number;
   };
+  decision: PolicyOutcome;
+  // Missing on results stored before multi-side capture or engine versions
+  // were recorded
+  sides?: SideVerification[];
+  engine?: EngineVersions;
 }
 
+//* -------------------------------------------------------------------------- */
+//*                              decisionVariants                              */
+//* -------------------------------------------------------------------------- */
+const decisionVariants: { [decision in PolicyDecision]: 'default' | 'secondary' | 'destructive' } = {
+  accept: 'default',
+  review: 'secondary',
+  reject: 'destructive',
+};
+
 //* -------------------------------------------------------------------------- */
 //*                          VerificationResultsProps                          */
 //* -------------------------------------------------------------------------- */
 interface VerificationResultsProps {
   result: VerificationResult;
+  idImage?: Blob | null;
+  // Rendered under the header, e.g. report downloads
+  actions?: React.ReactNode;
   className?: string;
 }
 
@@ -53,13 +216,15 @@ interface VerificationResultsProps {
 //* -------------------------------------------------------------------------- */
 export const VerificationResults: React.FC<VerificationResultsProps> = ({
   result,
+  idImage,
+  actions,
   className,
 }) => {
 
   /* -------------------------------------------------------------------------- */
   /*                                    Data                                    */
   /* -------------------------------------------------------------------------- */
-  const { templateMatch, textExtraction, overall } = result;
+  const { documentDetection, templateMatch, textExtraction, overall } = result;
 
   /* -------------------------------------------------------------------------- */
   /*                                    View                                    */
@@ -83,11 +248,70 @@ export const VerificationResults: React.FC<VerificationResultsProps> = ({
             Verification {overall.isValid ? 'Successful' : 'Failed'}
           </h3>
           <p className="text-sm text-muted-foreground">
-            Overall confidence: {Math.round(overall.confidence * 100)}%
+            Trust score: {Math.round(overall.confidence * 100)}% · {result.risk.level} risk
+          </p>
+        </div>
+        <div className="ml-auto text-right">
+          <Badge variant={decisionVariants[result.decision.decision]}>
+            {DECISION_LABELS[result.decision.decision]}
+          </Badge>
+          <p className="text-xs text-muted-foreground mt-1">
+            {result.decision.policyId} v{result.decision.policyVersion}
+            {' · '}
+            {result.decision.ruleId ? `rule ${result.decision.ruleId}` : 'fallback'}
           </p>
         </div>
       </div>
 
+      {actions && <div className="flex justify-end">{actions}</div>}
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                                 Risk Score                                 */}
+      {/* -------------------------------------------------------------------------- */}
+      <RiskDetails risk={result.risk} />
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                             Document Detection                             */}
+      {/* -------------------------------------------------------------------------- */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <ScanLine className="h-5 w-5 text-primary" />
+          <h4 className="font-medium">Document Detection</h4>
+          <Badge variant={documentDetection.detected ? "default" : "secondary"}>
+            {documentDetection.detected ? 'Card Found' : 'Full Image Used'}
+          </Badge>
+        </div>
+        <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+          {idImage && (
+            <DocumentOverlay
+              image={idImage}
+              detection={documentDetection}
+              className="max-w-md mx-auto"
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            {documentDetection.detected
+              ? `Card outline covers ${Math.round(documentDetection.areaRatio * 100)}% of the photo and was corrected to ${documentDetection.normalizedSize.width}x${documentDetection.normalizedSize.height}px.`
+              : 'No card outline was found; the whole photo was used for matching and OCR.'}
+          </p>
+        </div>
+      </div>
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                                Image Quality                               */}
+      {/* -------------------------------------------------------------------------- */}
+      <QualityReportDetails report={result.quality} />
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                          Document Identification                           */}
+      {/* -------------------------------------------------------------------------- */}
+      <IdentificationDetails identification={result.identification} />
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                               Document Sides                               */}
+      {/* -------------------------------------------------------------------------- */}
+      {result.sides && result.sides.length > 1 && <SideDetails sides={result.sides} />}
+
       <div className="grid md:grid-cols-2 gap-4">
         
         {/* -------------------------------------------------------------------------- */}
@@ -103,11 +327,35 @@ export const VerificationResults: React.FC<VerificationResultsProps> = ({
           </div>
           <div className="bg-muted/50 rounded-lg p-4 space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Confidence:</span>
+              <span>{templateMatch.masking ? 'Masked Confidence:' : 'Confidence:'}</span>
               <span className="font-medium">
                 {Math.round(templateMatch.confidence * 100)}%
               </span>
             </div>
+            {templateMatch.masking && (
+              <div className="flex justify-between text-sm">
+                <span>Unmasked Confidence:</span>
+                <span className="font-medium">
+                  {Math.round(templateMatch.masking.unmaskedConfidence * 100)}%
+                </span>
+              </div>
+            )}
+            {templateMatch.alignment && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span>Inliers:</span>
+                  <span className="font-medium">
+                    {templateMatch.alignment.inliers} / {templateMatch.alignment.matches}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Reprojection Error:</span>
+                  <span className="font-medium">
+                    {templateMatch.alignment.reprojectionError.toFixed(2)} px
+                  </span>
+                </div>
+              </>
+            )}
             <p className="text-xs text-muted-foreground">
               {templateMatch.details}
             </p>
@@ -143,6 +391,11 @@ export const VerificationResults: React.FC<VerificationResultsProps> = ({
                       {label}
                     </Badge>
                   ))}
+                  {textExtraction.missingRequired.map((label) => (
+                    <Badge key={label} variant="destructive" className="text-xs">
+                      {label} missing
+                    </Badge>
+                  ))}
                 </div>
               </div>
               
@@ -152,11 +405,16 @@ export const VerificationResults: React.FC<VerificationResultsProps> = ({
                     Extracted Values:
                   </p>
                   <div className="space-y-1">
-                    {Object.entries(textExtraction.extractedData).map(([label, value]) => (
-                      <div key={label} className="flex justify-between text-xs">
-                        <span className="font-medium">{label}:</span>
-                        <span className="text-muted-foreground max-w-24 truncate" title={value}>
-                          {value}
+                    {Object.entries(textExtraction.extractedData).map(([fieldId, field]) => (
+                      <div key={fieldId} className="flex justify-between gap-2 text-xs">
+                        <span className="font-medium">{field.label}:</span>
+                        <span className="flex gap-2 min-w-0">
+                          <span className="text-muted-foreground truncate" title={field.value}>
+                            {field.value}
+                          </span>
+                          <span className="text-muted-foreground/70 shrink-0">
+                            {Math.round(field.confidence * 100)}%
+                          </span>
                         </span>
                       </div>
                     ))}
@@ -172,6 +430,26 @@ export const VerificationResults: React.FC<VerificationResultsProps> = ({
 
       </div>
 
+      {/* -------------------------------------------------------------------------- */}
+      {/*                           Machine-Readable Zone                            */}
+      {/* -------------------------------------------------------------------------- */}
+      {result.mrz && <MrzDetails mrz={result.mrz} />}
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                              Back-Side Barcode                             */}
+      {/* -------------------------------------------------------------------------- */}
+      {result.barcode && <BarcodeDetails barcode={result.barcode} />}
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                           Cross-Source Consistency                         */}
+      {/* -------------------------------------------------------------------------- */}
+      <ConsistencyDetails consistency={result.consistency} />
+
+      {/* -------------------------------------------------------------------------- */}
+      {/*                               Field Validation                             */}
+      {/* -------------------------------------------------------------------------- */}
+      <ValidationDetails validation={result.validation} />
+
     </Card>
   );
 };
\ No newline at end of file
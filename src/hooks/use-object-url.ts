@@ -0,0 +1,12 @@
+import { useEffect, useMemo } from "react"
+
+// Object URL for a Blob that is revoked when the Blob changes or on unmount
+export function useObjectUrl(blob: Blob | null | undefined) {
+  const url = useMemo(() => (blob ? URL.createObjectURL(blob) : null), [blob])
+
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url)
+  }, [url])
+
+  return url
+}
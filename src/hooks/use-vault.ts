@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react"
+import { VaultStatus, getVaultStatus, onVaultChange } from "@/services/vault"
+
+// Current vault status, `null` until the stored setting has been read
+export function useVault() {
+  const [status, setStatus] = useState<VaultStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const refresh = () => {
+      getVaultStatus().then((next) => {
+        if (!cancelled) setStatus(next)
+      })
+    }
+
+    refresh()
+    const unsubscribe = onVaultChange(refresh)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  return status
+}
@@ -0,0 +1,45 @@
+// Opens a video stream; swapped for a fake stream in tests and demos
+export type CameraStreamProvider = () => Promise<MediaStream>
+
+// Rear camera at the highest resolution it offers up to 1080p
+export function getCameraStream(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: "environment", width: { ideal: 1920 }, height: { ideal: 1080 } },
+    audio: false,
+  })
+}
+
+export function hasCamera() {
+  return typeof navigator !== "undefined" && Boolean(navigator.mediaDevices?.getUserMedia)
+}
+
+export function stopStream(stream: MediaStream) {
+  stream.getTracks().forEach((track) => track.stop())
+}
+
+// A camera stand-in: a canvas stream that redraws `source` every frame. A
+// draw callback can animate the scene (move, blur or tilt the card); the
+// loop ends once every track of the stream is stopped.
+export function createFakeCameraStream(
+  source: CanvasImageSource | ((context: CanvasRenderingContext2D, time: number) => void),
+  { width = 1280, height = 720, fps = 15 }: { width?: number; height?: number; fps?: number } = {}
+): MediaStream {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d")!
+  const stream = canvas.captureStream(fps)
+
+  const draw = (time: number) => {
+    if (stream.getTracks().every((track) => track.readyState === "ended")) return
+    if (typeof source === "function") {
+      source(context, time)
+    } else {
+      context.drawImage(source, 0, 0, width, height)
+    }
+    setTimeout(() => draw(performance.now()), 1000 / fps)
+  }
+  draw(performance.now())
+
+  return stream
+}
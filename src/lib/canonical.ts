@@ -0,0 +1,13 @@
+// Deep copy with object keys in sorted order, so JSON.stringify of equal
+// values is byte-identical however their properties were ordered
+export function sortKeys<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(sortKeys) as T
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    ) as T
+  }
+  return value
+}
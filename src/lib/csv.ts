@@ -0,0 +1,55 @@
+export type CsvValue = string | number | null | undefined
+
+// RFC 4180 quoting. Cells that a spreadsheet would run as a formula get a
+// leading apostrophe.
+function csvCell(value: CsvValue) {
+  const text = value === null || value === undefined ? "" : String(value)
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// One row per item from `[header, read]` columns; the BOM makes spreadsheets
+// read the file as UTF-8
+export function toCsv<T>(columns: [string, (row: T) => CsvValue][], rows: T[]): string {
+  return "\uFEFF" + [
+    columns.map(([header]) => header).join(","),
+    ...rows.map((row) => columns.map(([, read]) => csvCell(read(row))).join(",")),
+  ].join("\r\n") + "\r\n"
+}
+
+// RFC 4180 rows; quoted cells may contain commas, quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++
+      rows.push([...row, cell])
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell])
+
+  return rows.filter((cells) => cells.some((value) => value.trim()))
+}
@@ -0,0 +1,100 @@
+export interface ZipEntry {
+  path: string
+  file: File
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+// Everything is unpacked into memory, so the whole archive is capped
+const MAX_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024
+
+const MIME_TYPES: { [extension: string]: string } = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  json: "application/json",
+  csv: "text/csv",
+}
+
+// Stops as soon as the output passes `limit`, so an entry that inflates far
+// beyond its declared size (a ZIP bomb) never fills memory
+async function inflate(data: Uint8Array, limit: number, path: string): Promise<Blob> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length
+    if (size > limit) {
+      await reader.cancel()
+      throw new Error(`${path} unpacks to more than its declared size`)
+    }
+    chunks.push(chunk.value)
+  }
+  return new Blob(chunks)
+}
+
+// Files of a ZIP archive, without directories. Covers stored and deflated
+// entries, which is what operating systems and scanners write; ZIP64 and
+// encrypted archives are rejected, and so are archives whose entries unpack
+// to more than `maxBytes` in total.
+export async function readZip(archive: Blob, maxBytes = MAX_UNCOMPRESSED_BYTES): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(await archive.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+
+  // The end record sits at the very end, after an optional comment
+  let end = -1
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive")
+
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  if (count === 0xffff || offset === 0xffffffff) throw new Error("ZIP64 archives are not supported")
+
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+  let total = 0
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error("Corrupt ZIP directory")
+    const flags = view.getUint16(offset + 8, true)
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith("/")) continue
+    if (flags & 1) throw new Error(`${path} is encrypted`)
+    if (method !== 0 && method !== 8) throw new Error(`${path} uses an unsupported compression method`)
+    if (method === 0 && size !== compressedSize) throw new Error(`Corrupt ZIP entry ${path}`)
+    total += size
+    if (total > maxBytes) throw new Error(`The archive unpacks to more than ${Math.round(maxBytes / 1024 / 1024)} MB`)
+
+    // Sizes come from the directory: the local header may defer them to a
+    // data descriptor
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt ZIP entry ${path}`)
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(start, start + compressedSize)
+    const content = method === 8 ? await inflate(data, size, path) : data
+
+    const name = path.slice(path.lastIndexOf("/") + 1)
+    const extension = name.slice(name.lastIndexOf(".") + 1).toLowerCase()
+    entries.push({ path, file: new File([content], name, { type: MIME_TYPES[extension] ?? "" }) })
+  }
+
+  return entries
+}
@@ -0,0 +1,250 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { AuditTrail } from '@/components/AuditTrail';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import {
+  ArrowLeft,
+  Download,
+  ScrollText,
+  ShieldAlert,
+  ShieldCheck
+} from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  AuditBreakReason,
+  AuditEntry,
+  AuditVerification,
+  listAuditLog,
+  verifyAuditLog,
+} from '@/services/audit';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { downloadBlob } from '@/lib/download';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Options                                  */
+//* -------------------------------------------------------------------------- */
+const breakLabels: { [reason in AuditBreakReason]: string } = {
+  hashMismatch: 'Entry content changed',
+  brokenLink: 'Link to the previous entry broken',
+  missingEntry: 'Entries missing before this one',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              VerificationCard                              */
+//* -------------------------------------------------------------------------- */
+const VerificationCard: React.FC<{ verification: AuditVerification; source: string }> = ({
+  verification,
+  source,
+}) => (
+  <Card className={`p-4 space-y-2 text-sm ${verification.isValid ? 'bg-success/10' : 'bg-error/10'}`}>
+    <div className="flex items-center gap-2 font-medium">
+      {verification.isValid
+        ? <ShieldCheck className="h-5 w-5 text-success" />
+        : <ShieldAlert className="h-5 w-5 text-error" />}
+      {verification.isValid
+        ? `${source}: all ${verification.checked} entries are intact`
+        : `${source}: ${verification.breaks.length} problems in ${verification.checked} entries`}
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Head hash <span className="font-mono break-all">{verification.headHash}</span>. Compare it with a
+      previously recorded head to detect entries removed from the end.
+    </p>
+    {verification.breaks.length > 0 && (
+      <ul className="text-xs space-y-1">
+        {verification.breaks.map((entry) => (
+          <li key={`${entry.sequence}-${entry.reason}`}>
+            <span className="font-medium">#{entry.sequence}</span> {breakLabels[entry.reason]}{' '}
+            <span className="text-muted-foreground font-mono break-all">
+              (expected {entry.expected}, found {entry.actual})
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </Card>
+);
+
+//* -------------------------------------------------------------------------- */
+//*                                   Audit                                    */
+//* -------------------------------------------------------------------------- */
+// The append-only, hash-chained log of verification events, with a verifier
+// for the stored chain or an exported copy
+const Audit = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [verification, setVerification] = useState<{ result: AuditVerification; source: string } | null>(null);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 refreshLog                                 */
+  /* -------------------------------------------------------------------------- */
+  const refreshLog = useCallback(async () => {
+    try {
+      setEntries(await listAuditLog());
+    } catch (error) {
+      toast({
+        title: "Audit Log Error",
+        description: "Failed to load the audit log.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refreshLog();
+  }, [refreshLog]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleVerify                                */
+  /* -------------------------------------------------------------------------- */
+  // The stored chain, or an exported JSON copy of it
+  const handleVerify = async (file?: File) => {
+    try {
+      const result = file
+        ? await verifyAuditLog(JSON.parse(await file.text()) as AuditEntry[])
+        : await verifyAuditLog();
+      setVerification({ result, source: file ? file.name : 'Stored log' });
+      if (!file) await refreshLog();
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: "The audit log could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleExport                                */
+  /* -------------------------------------------------------------------------- */
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  const visible = query.trim()
+    ? entries.filter((entry) => entry.verificationId.startsWith(query.trim()))
+    : entries;
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ScrollText className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Audit Log</h1>
+                <p className="text-sm text-muted-foreground">
+                  Append-only record of verification events, each linked to the previous by its SHA-256
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Verification
+              </Link>
+            </Button>
+          </div>
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                  Verifier                                  */}
+          {/* -------------------------------------------------------------------------- */}
+          <Card className="p-4">
+            <div className="grid sm:grid-cols-4 gap-3 items-end">
+              <Button onClick={() => handleVerify()}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Verify Chain
+              </Button>
+              <div className="space-y-1">
+                <Label htmlFor="auditFile">Verify an exported copy</Label>
+                <Input
+                  id="auditFile"
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => e.target.files?.[0] && handleVerify(e.target.files[0])}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditQuery">Verification ID</Label>
+                <Input
+                  id="auditQuery"
+                  placeholder="Filter…"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" onClick={handleExport} disabled={entries.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export JSON
+              </Button>
+            </div>
+          </Card>
+
+          {verification && <VerificationCard verification={verification.result} source={verification.source} />}
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                   Entries                                  */}
+          {/* -------------------------------------------------------------------------- */}
+          {visible.length === 0 ? (
+            <Card className="p-6 bg-muted/30 text-center text-sm text-muted-foreground">
+              {entries.length === 0 ? 'No events have been logged yet.' : 'No events match this verification ID.'}
+            </Card>
+          ) : (
+            <Card className="p-4 overflow-x-auto">
+              <AuditTrail
+                entries={visible}
+                breaks={verification?.source === 'Stored log' ? verification.result.breaks : []}
+              />
+            </Card>
+          )}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
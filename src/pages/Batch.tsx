@@ -0,0 +1,443 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useRef,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import {
+  ArrowLeft,
+  Eye,
+  FileJson,
+  FileSpreadsheet,
+  Layers,
+  Pause,
+  Play,
+  RotateCcw,
+  X
+} from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  BatchItem,
+  BatchItemStatus,
+  BatchQueue,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  collectBatchFiles,
+  createBatchCsv,
+  planBatch,
+} from '@/services/batch';
+import { addHistoryEntry } from '@/services/history';
+import { DECISION_LABELS, PolicyDecision } from '@/services/policy';
+import { getActivePolicy } from '@/services/policyLibrary';
+import { createJsonReport, serializeReport } from '@/services/reports';
+import { listTemplates } from '@/services/templateLibrary';
+import { VaultLockedError } from '@/services/vault';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { downloadBlob } from '@/lib/download';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Options                                  */
+//* -------------------------------------------------------------------------- */
+const statusLabels: { [status in BatchItemStatus]: string } = {
+  queued: 'Queued',
+  running: 'Running',
+  paused: 'Paused',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const statusVariants: { [status in BatchItemStatus]: 'default' | 'secondary' | 'destructive' | 'outline' } = {
+  queued: 'outline',
+  running: 'secondary',
+  paused: 'outline',
+  done: 'default',
+  failed: 'destructive',
+};
+
+const decisionVariants: { [decision in PolicyDecision]: 'default' | 'secondary' | 'destructive' } = {
+  accept: 'default',
+  review: 'secondary',
+  reject: 'destructive',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  BatchRow                                  */
+//* -------------------------------------------------------------------------- */
+const BatchRow: React.FC<{
+  item: BatchItem;
+  isSaved: boolean;
+  queue: BatchQueue;
+}> = ({ item, isSaved, queue }) => {
+  const decision = item.result?.decision.decision;
+  const mismatched = item.applicantCheck?.filter(({ status }) => status === 'mismatched') ?? [];
+
+  return (
+    <tr className="border-t border-border/50 align-top">
+      <td className="py-2 pr-3">
+        <div className="font-mono text-xs break-all">{item.path}</div>
+        {item.back && <div className="text-xs text-muted-foreground">+ back: {item.back.name}</div>}
+      </td>
+      <td className="py-2 pr-3">
+        <Badge variant={statusVariants[item.status]}>{statusLabels[item.status]}</Badge>
+        {item.attempts > 1 && <div className="text-xs text-muted-foreground mt-1">Attempt {item.attempts}</div>}
+      </td>
+      <td className="py-2 pr-3 min-w-40">
+        <div className="text-xs">{item.error ?? item.stage}</div>
+        {item.status === 'running' && <Progress value={item.progress} className="h-1.5 mt-1" />}
+      </td>
+      <td className="py-2 pr-3">
+        {decision && <Badge variant={decisionVariants[decision]}>{DECISION_LABELS[decision]}</Badge>}
+      </td>
+      <td className="py-2 pr-3">{item.result ? `${Math.round(item.result.overall.confidence * 100)}%` : ''}</td>
+      <td className="py-2 pr-3 text-xs">
+        {item.applicantCheck && (
+          mismatched.length > 0
+            ? <span className="text-error">Differs: {mismatched.map(({ label }) => label).join(', ')}</span>
+            : `${item.applicantCheck.filter(({ status }) => status === 'matched').length}/${item.applicantCheck.length} matched`
+        )}
+      </td>
+      <td className="py-2 text-right whitespace-nowrap">
+        {(item.status === 'queued' || item.status === 'running') && (
+          <Button variant="ghost" size="icon" title="Pause" onClick={() => queue.pauseItem(item.id)}>
+            <Pause className="h-4 w-4" />
+          </Button>
+        )}
+        {item.status === 'paused' && (
+          <Button variant="ghost" size="icon" title="Resume" onClick={() => queue.resumeItem(item.id)}>
+            <Play className="h-4 w-4" />
+          </Button>
+        )}
+        {(item.status === 'failed' || item.status === 'done') && (
+          <Button variant="ghost" size="icon" title="Retry" onClick={() => queue.retryItem(item.id)}>
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+        {isSaved && item.verificationId && (
+          <Button variant="ghost" size="icon" title="Open in history" asChild>
+            <Link to={`/history/${item.verificationId}`}>
+              <Eye className="h-4 w-4" />
+            </Link>
+          </Button>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                   Batch                                    */
+//* -------------------------------------------------------------------------- */
+// Verifies a folder or ZIP archive of ID images through a queue of workers,
+// optionally driven by a manifest that pairs backs, templates and applicant
+// data with each image
+const Batch = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [queue, setQueue] = useState<BatchQueue | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isPaused, setIsPaused] = useState(true);
+  const [manifest, setManifest] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+
+  // One "not saved" notice per batch is enough
+  const lockedNoticeShown = useRef(false);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  useEffect                                 */
+  /* -------------------------------------------------------------------------- */
+  // Leaving the page or loading another batch ends the current one
+  useEffect(() => {
+    if (!queue) return;
+    const refresh = () => {
+      setItems(queue.snapshot);
+      setIsPaused(queue.paused);
+    };
+    refresh();
+    const unsubscribe = queue.subscribe(refresh);
+    return () => {
+      unsubscribe();
+      queue.dispose();
+    };
+  }, [queue]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                saveToHistory                               */
+  /* -------------------------------------------------------------------------- */
+  // Best effort, as for single verifications
+  const saveToHistory = useCallback((item: BatchItem) => {
+    if (item.status !== 'done' || !item.result || !item.verificationId) return;
+    const verificationId = item.verificationId;
+
+    addHistoryEntry(item.result, item.front, item.back, verificationId)
+      .then(() => setSavedIds((ids) => new Set(ids).add(verificationId)))
+      .catch((error) => {
+        if (error instanceof VaultLockedError) {
+          if (lockedNoticeShown.current) return;
+          lockedNoticeShown.current = true;
+          toast({
+            title: "Not Saved to History",
+            description: "Unlock the encrypted history to keep batch results.",
+          });
+          return;
+        }
+        toast({
+          title: "History Error",
+          description: `The result for ${item.path} could not be saved to the local history.`,
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleFiles                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setIsLoading(true);
+
+    try {
+      const plan = await planBatch(await collectBatchFiles(Array.from(fileList)));
+      if (plan.items.length === 0) {
+        toast({
+          title: "No Images",
+          description: "The selection contains no ID images to verify.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const [templates, policy] = await Promise.all([listTemplates(), getActivePolicy()]);
+      lockedNoticeShown.current = false;
+      setSavedIds(new Set());
+      setManifest(plan.manifest);
+      setWarnings(plan.warnings);
+      setQueue(new BatchQueue(plan.items, { concurrency, policy, templates, onSettled: saveToHistory }));
+    } catch (error) {
+      toast({
+        title: "Batch Not Loaded",
+        description: error instanceof Error ? error.message : "The files could not be read.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                             handleConcurrency                              */
+  /* -------------------------------------------------------------------------- */
+  const handleConcurrency = (value: number) => {
+    const next = Math.min(Math.max(1, value || 1), MAX_BATCH_CONCURRENCY);
+    setConcurrency(next);
+    queue?.setConcurrency(next);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleExport                                */
+  /* -------------------------------------------------------------------------- */
+  const handleExport = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadBlob(new Blob([createBatchCsv(items)], { type: 'text/csv' }), `batch-${date}.csv`);
+      return;
+    }
+    const reports = items
+      .filter((item) => item.result)
+      .map(({ result, verificationId, verifiedAt }) => createJsonReport({ result: result!, verificationId, verifiedAt }));
+    downloadBlob(new Blob([serializeReport(reports)], { type: 'application/json' }), `batch-${date}.json`);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  const count = (status: BatchItemStatus) => items.filter((item) => item.status === status).length;
+  const settled = count('done') + count('failed');
+  const hasStarted = items.some((item) => item.attempts > 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Layers className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Batch Verification</h1>
+                <p className="text-sm text-muted-foreground">
+                  Verify a folder or ZIP archive of ID images against the template library and active policy
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Verification
+              </Link>
+            </Button>
+          </div>
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                    Input                                   */}
+          {/* -------------------------------------------------------------------------- */}
+          <Card className="p-4 space-y-3">
+            <div className="grid sm:grid-cols-3 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="batchFolder">Folder</Label>
+                <Input
+                  id="batchFolder"
+                  type="file"
+                  ref={(input) => input?.setAttribute('webkitdirectory', '')}
+                  disabled={isLoading}
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="batchFiles">ZIP archive or images</Label>
+                <Input
+                  id="batchFiles"
+                  type="file"
+                  multiple
+                  accept=".zip,application/zip,image/*,.csv,.json"
+                  disabled={isLoading}
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="batchConcurrency">Parallel workers (1–{MAX_BATCH_CONCURRENCY})</Label>
+                <Input
+                  id="batchConcurrency"
+                  type="number"
+                  min={1}
+                  max={MAX_BATCH_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => handleConcurrency(Number(e.target.value))}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              An optional <span className="font-mono">manifest.csv</span> or{' '}
+              <span className="font-mono">manifest.json</span> lists one item per row: <span className="font-mono">file</span>,
+              optional <span className="font-mono">back</span> and <span className="font-mono">template</span> (library
+              id), and applicant data to compare (<span className="font-mono">fullName</span>,{' '}
+              <span className="font-mono">dateOfBirth</span>, <span className="font-mono">documentNumber</span>,{' '}
+              <span className="font-mono">issueDate</span>, <span className="font-mono">expirationDate</span>,{' '}
+              <span className="font-mono">sex</span>). Without one, every image is verified on its own.
+            </p>
+          </Card>
+
+          {warnings.length > 0 && (
+            <Card className="p-4 bg-warning/10 text-sm space-y-1">
+              <div className="font-medium">Some manifest rows were skipped</div>
+              <ul className="text-xs list-disc pl-4">
+                {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+              </ul>
+            </Card>
+          )}
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                    Queue                                   */}
+          {/* -------------------------------------------------------------------------- */}
+          {queue && (
+            <Card className="p-4 space-y-4 overflow-x-auto">
+              <div className="flex flex-wrap items-center gap-2">
+                {isPaused ? (
+                  <Button onClick={() => queue.resume()}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {hasStarted ? 'Resume' : 'Start'}
+                  </Button>
+                ) : (
+                  <Button variant="secondary" onClick={() => queue.pause()}>
+                    <Pause className="h-4 w-4 mr-2" />
+                    Pause
+                  </Button>
+                )}
+                <span className="text-xs text-muted-foreground mr-auto">
+                  {settled} of {items.length} finished · {count('done')} done · {count('failed')} failed
+                  {count('running') > 0 && ` · ${count('running')} running`}
+                  {count('paused') > 0 && ` · ${count('paused')} paused`}
+                  {manifest && ` · manifest ${manifest}`}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={!hasStarted}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={count('done') === 0}>
+                  <FileJson className="h-4 w-4 mr-2" />
+                  Export JSON
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setQueue(null)}>
+                  <X className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+              <Progress value={items.length ? (settled / items.length) * 100 : 0} className="h-2" />
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground text-xs">
+                    <th className="font-medium py-1 pr-3">File</th>
+                    <th className="font-medium py-1 pr-3">Status</th>
+                    <th className="font-medium py-1 pr-3">Stage</th>
+                    <th className="font-medium py-1 pr-3">Outcome</th>
+                    <th className="font-medium py-1 pr-3">Trust</th>
+                    <th className="font-medium py-1 pr-3">Applicant</th>
+                    <th className="font-medium py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <BatchRow
+                      key={item.id}
+                      item={item}
+                      isSaved={Boolean(item.verificationId && savedIds.has(item.verificationId))}
+                      queue={queue}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          )}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,250 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useMemo,
+  useState
+} from 'react';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Card } from '@/components/ui/card';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import { CheckCircle, Video, XCircle } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { CameraCapture, FrameAnalyzer } from '@/components/CameraCapture';
+import { ImageUpload } from '@/components/ImageUpload';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { FrameAnalysis, ID1_ASPECT } from '@/services/capture';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { CameraStreamProvider, createFakeCameraStream } from '@/lib/camera';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const STREAM_SIZE = { width: 1280, height: 720 };
+const HOLD_MS = 300;
+
+// The card as drawn on the fake stream, in stream pixels
+const CARD_WIDTH = STREAM_SIZE.width * 0.6;
+const CARD_HEIGHT = CARD_WIDTH / ID1_ASPECT;
+const CARD_X = (STREAM_SIZE.width - CARD_WIDTH) / 2;
+const CARD_Y = (STREAM_SIZE.height - CARD_HEIGHT) / 2;
+
+//* -------------------------------------------------------------------------- */
+//*                                 drawScene                                  */
+//* -------------------------------------------------------------------------- */
+// A light card with a few text lines on a dark desk, held perfectly still
+const drawScene = (context: CanvasRenderingContext2D) => {
+  context.fillStyle = '#1f2937';
+  context.fillRect(0, 0, STREAM_SIZE.width, STREAM_SIZE.height);
+  context.fillStyle = '#f8fafc';
+  context.fillRect(CARD_X, CARD_Y, CARD_WIDTH, CARD_HEIGHT);
+  context.fillStyle = '#0f172a';
+  context.font = '32px sans-serif';
+  ['DRIVER LICENSE', 'DOE, JANE', 'DOB 01/02/1990', 'EXP 01/02/2030'].forEach((line, index) =>
+    context.fillText(line, CARD_X + 40, CARD_Y + 70 + index * 60)
+  );
+};
+
+const fakeCamera: CameraStreamProvider = async () => createFakeCameraStream(drawScene, STREAM_SIZE);
+
+//* -------------------------------------------------------------------------- */
+//*                             createFakeAnalyzer                             */
+//* -------------------------------------------------------------------------- */
+// Reports the drawn card as detected and sharp, and records the size of every
+// frame it was handed. It owns the frames, so it closes them.
+const createFakeAnalyzer = () => {
+  const frames: { width: number; height: number }[] = [];
+
+  const analyzer: FrameAnalyzer = async (frame) => {
+    const { width, height } = frame;
+    frame.close();
+    frames.push({ width, height });
+
+    const scale = width / STREAM_SIZE.width;
+    const corners = [
+      { x: CARD_X, y: CARD_Y },
+      { x: CARD_X + CARD_WIDTH, y: CARD_Y },
+      { x: CARD_X + CARD_WIDTH, y: CARD_Y + CARD_HEIGHT },
+      { x: CARD_X, y: CARD_Y + CARD_HEIGHT },
+    ].map(({ x, y }) => ({ x: x * scale, y: y * scale }));
+
+    const analysis: FrameAnalysis = {
+      detection: {
+        detected: true,
+        corners,
+        imageSize: { width, height },
+        areaRatio: (CARD_WIDTH * CARD_HEIGHT) / (STREAM_SIZE.width * STREAM_SIZE.height),
+        normalizedSize: { width: Math.round(CARD_WIDTH * scale), height: Math.round(CARD_HEIGHT * scale) },
+      },
+      quality: {
+        score: 1,
+        checks: [{
+          id: 'focus',
+          label: 'Focus',
+          value: 500 + frames.length,
+          threshold: 100,
+          action: 'block',
+          passed: true,
+          score: 1,
+          details: 'Fake frame',
+        }],
+        blocked: false,
+        blocking: [],
+        warnings: [],
+      },
+    };
+    return analysis;
+  };
+
+  return { analyzer, frames };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 checkCapture                               */
+//* -------------------------------------------------------------------------- */
+interface CheckOutcome {
+  label: string;
+  passed: boolean;
+  details: string;
+}
+
+// What every capture must satisfy: a JPEG at the full stream resolution,
+// chosen from a burst of at least `burstSize` analyzed, downscaled frames
+const checkCapture = async (
+  file: File,
+  frames: { width: number; height: number }[],
+  burstSize: number
+): Promise<CheckOutcome[]> => {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+
+  return [
+    {
+      label: 'Captured a JPEG',
+      passed: file.type === 'image/jpeg' && file.size > 0,
+      details: `${file.type}, ${file.size} bytes`,
+    },
+    {
+      label: 'Kept the full stream resolution',
+      passed: size.width === STREAM_SIZE.width && size.height === STREAM_SIZE.height,
+      details: `${size.width}×${size.height}`,
+    },
+    {
+      label: 'Analyzed the live frames and the burst',
+      passed: frames.length > Math.max(1, burstSize),
+      details: `${frames.length} frames analyzed`,
+    },
+    {
+      label: 'Analyzed downscaled frames only',
+      passed: frames.every(({ width }) => width < STREAM_SIZE.width),
+      details: `widest ${Math.max(0, ...frames.map(({ width }) => width))} px`,
+    },
+  ];
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 BurstCheck                                 */
+//* -------------------------------------------------------------------------- */
+// One capture through the fake camera. `viaUpload` goes through the upload
+// slot (open its camera to start), otherwise the camera starts right away.
+const BurstCheck: React.FC<{ title: string; burstSize: number; viaUpload?: boolean }> = ({
+  title,
+  burstSize,
+  viaUpload,
+}) => {
+  const { analyzer, frames } = useMemo(createFakeAnalyzer, []);
+  const [outcomes, setOutcomes] = useState<CheckOutcome[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleCapture = useCallback(async (captured: File) => {
+    setFile(captured);
+    setOutcomes(await checkCapture(captured, frames, burstSize));
+  }, [frames, burstSize]);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <h2 className="font-semibold">{title}</h2>
+      {viaUpload ? (
+        <ImageUpload
+          label="Front of ID"
+          description="Open the camera; the fake card is captured automatically"
+          onImageUpload={handleCapture}
+          uploadedImage={file}
+          cameraStream={fakeCamera}
+          frameAnalyzer={analyzer}
+        />
+      ) : !outcomes && (
+        <CameraCapture
+          onCapture={handleCapture}
+          onCancel={() => setOutcomes([{ label: 'Capture cancelled', passed: false, details: '' }])}
+          streamProvider={fakeCamera}
+          analyzer={analyzer}
+          holdMs={HOLD_MS}
+          burstSize={burstSize}
+        />
+      )}
+
+      {outcomes && (
+        <ul className="space-y-1 text-sm" data-check={outcomes.every(({ passed }) => passed) ? 'passed' : 'failed'}>
+          {outcomes.map(({ label, passed, details }) => (
+            <li key={label} className="flex items-center gap-2">
+              {passed
+                ? <CheckCircle className="h-4 w-4 text-success" />
+                : <XCircle className="h-4 w-4 text-error" />}
+              {label}
+              <span className="text-muted-foreground">{details}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 CameraCheck                                */
+//* -------------------------------------------------------------------------- */
+// Development only: drives camera capture end to end with a fake stream and a
+// scripted analyzer, without a camera or the verification worker
+const CameraCheck = () => (
+  <div className="min-h-screen bg-gradient-surface">
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-8">
+
+        <div className="flex items-center gap-3">
+          <Video className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-bold">Camera Check</h1>
+            <p className="text-sm text-muted-foreground">
+              Auto-capture on a fake camera stream; every check must pass
+            </p>
+          </div>
+        </div>
+
+        <BurstCheck title="Upload slot, default burst" burstSize={5} viaUpload />
+        <BurstCheck title="Burst of three" burstSize={3} />
+        <BurstCheck title="Empty burst still captures one frame" burstSize={0} />
+
+      </div>
+    </div>
+  </div>
+);
+
+export default CameraCheck;
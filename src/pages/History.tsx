@@ -0,0 +1,363 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { useVault } from '@/hooks/use-vault';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { VaultControls, VaultGate } from '@/components/VaultGate';
+import { RetentionSettings } from '@/components/RetentionSettings';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import {
+  ArrowLeft,
+  Eye,
+  FileJson,
+  FileSpreadsheet,
+  History as HistoryIcon,
+  Trash2
+} from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  HistoryEntry,
+  HistoryFilter,
+  deleteHistoryEntry,
+  listHistory,
+} from '@/services/history';
+import { DECISION_LABELS, PolicyDecision } from '@/services/policy';
+import {
+  REPORT_JSON_SCHEMA,
+  createHistoryCsv,
+  createJsonReport,
+  serializeReport,
+} from '@/services/reports';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { downloadBlob } from '@/lib/download';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Options                                  */
+//* -------------------------------------------------------------------------- */
+// Select items cannot have an empty value, so "all" stands for no filter
+const ALL = 'all';
+
+const decisionVariants: { [decision in PolicyDecision]: 'default' | 'secondary' | 'destructive' } = {
+  accept: 'default',
+  review: 'secondary',
+  reject: 'destructive',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 HistoryRow                                 */
+//* -------------------------------------------------------------------------- */
+const HistoryRow: React.FC<{
+  entry: HistoryEntry;
+  onDelete: (id: string) => void;
+}> = ({ entry, onDelete }) => {
+  const thumbnailUrl = useObjectUrl(entry.thumbnail);
+  const { summary } = entry;
+
+  return (
+    <tr className="border-t border-border/50">
+      <td className="py-2 pr-3">
+        {thumbnailUrl && (
+          <img src={thumbnailUrl} alt="ID thumbnail" className="h-10 w-16 object-cover rounded border border-border" />
+        )}
+      </td>
+      <td className="py-2 pr-3 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+      <td className="py-2 pr-3">{summary.templateLabel ?? '—'}</td>
+      <td className="py-2 pr-3">{summary.name ?? '—'}</td>
+      <td className="py-2 pr-3 font-mono">{summary.documentNumber ?? '—'}</td>
+      <td className="py-2 pr-3">
+        <Badge variant={decisionVariants[summary.decision]}>{DECISION_LABELS[summary.decision]}</Badge>
+      </td>
+      <td className="py-2 pr-3">{Math.round(summary.trustScore * 100)}%</td>
+      <td className="py-2 text-right whitespace-nowrap">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to={`/history/${entry.id}`}>
+            <Eye className="h-4 w-4" />
+          </Link>
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => onDelete(entry.id)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </td>
+    </tr>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  History                                   */
+//* -------------------------------------------------------------------------- */
+const History = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+  const vaultStatus = useVault();
+  const isUnlocked = vaultStatus === 'unlocked';
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [documentTypes, setDocumentTypes] = useState<string[]>([]);
+  const [filter, setFilter] = useState<HistoryFilter>({});
+
+  /* -------------------------------------------------------------------------- */
+  /*                               refreshHistory                               */
+  /* -------------------------------------------------------------------------- */
+  // Entries can only be read while the vault is unlocked
+  const refreshHistory = useCallback(async () => {
+    if (!isUnlocked) {
+      setEntries([]);
+      return;
+    }
+    try {
+      setEntries(await listHistory(filter));
+    } catch (error) {
+      toast({
+        title: "History Error",
+        description: "Failed to load the verification history.",
+        variant: "destructive",
+      });
+    }
+  }, [filter, isUnlocked, toast]);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  // Document type options come from the whole history, not the filtered list
+  useEffect(() => {
+    if (!isUnlocked) return;
+    listHistory()
+      .then((all) => {
+        const types = all.map((entry) => entry.summary.documentType).filter((type): type is string => Boolean(type));
+        setDocumentTypes([...new Set(types)].sort());
+      })
+      .catch(() => setDocumentTypes([]));
+  }, [entries.length, isUnlocked]);
+
+  const hasFilter = useMemo(() => Object.values(filter).some(Boolean), [filter]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleDelete                                */
+  /* -------------------------------------------------------------------------- */
+  const handleDelete = async (id: string) => {
+    await deleteHistoryEntry(id);
+    await refreshHistory();
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleExport                                */
+  /* -------------------------------------------------------------------------- */
+  // Exports cover exactly the entries the filters currently show
+  const handleExport = (format: 'csv' | 'json' | 'schema') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadBlob(new Blob([createHistoryCsv(entries)], { type: 'text/csv' }), `verifications-${date}.csv`);
+      return;
+    }
+    const json = format === 'schema'
+      ? JSON.stringify(REPORT_JSON_SCHEMA, null, 2)
+      : serializeReport(entries.map((entry) =>
+          createJsonReport({
+            result: entry.result,
+            verificationId: entry.id,
+            verifiedAt: entry.createdAt,
+            override: entry.override,
+          })
+        ));
+    const name = format === 'schema' ? 'verification-report.schema.json' : `verifications-${date}.json`;
+    downloadBlob(new Blob([json], { type: 'application/json' }), name);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <HistoryIcon className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Verification History</h1>
+                <p className="text-sm text-muted-foreground">
+                  Past verifications stored encrypted in this browser
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Verification
+              </Link>
+            </Button>
+          </div>
+
+          <VaultGate>
+            <VaultControls />
+            <RetentionSettings onPurge={refreshHistory} />
+
+            {/* -------------------------------------------------------------------------- */}
+            {/*                                   Filters                                  */}
+            {/* -------------------------------------------------------------------------- */}
+            <Card className="p-4">
+              <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+                <div className="space-y-1">
+                  <Label>Outcome</Label>
+                  <Select
+                    value={filter.decision ?? ALL}
+                    onValueChange={(value) =>
+                      setFilter({ ...filter, decision: value === ALL ? undefined : value as PolicyDecision })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All outcomes</SelectItem>
+                      {(Object.keys(DECISION_LABELS) as PolicyDecision[]).map((decision) => (
+                        <SelectItem key={decision} value={decision}>{DECISION_LABELS[decision]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Document Type</Label>
+                  <Select
+                    value={filter.documentType ?? ALL}
+                    onValueChange={(value) => setFilter({ ...filter, documentType: value === ALL ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All types</SelectItem>
+                      {documentTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="historyFrom">From</Label>
+                  <Input
+                    id="historyFrom"
+                    type="date"
+                    value={filter.from ?? ''}
+                    onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="historyTo">To</Label>
+                  <Input
+                    id="historyTo"
+                    type="date"
+                    value={filter.to ?? ''}
+                    onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="historyQuery">Name or ID Number</Label>
+                  <Input
+                    id="historyQuery"
+                    placeholder="Search…"
+                    value={filter.query ?? ''}
+                    onChange={(e) => setFilter({ ...filter, query: e.target.value || undefined })}
+                  />
+                </div>
+              </div>
+            </Card>
+
+            {/* -------------------------------------------------------------------------- */}
+            {/*                                   Entries                                  */}
+            {/* -------------------------------------------------------------------------- */}
+            {entries.length === 0 ? (
+              <Card className="p-6 bg-muted/30 text-center text-sm text-muted-foreground">
+                {hasFilter ? 'No verifications match these filters.' : 'No verifications have been stored yet.'}
+              </Card>
+            ) : (
+              <Card className="p-4 space-y-3 overflow-x-auto">
+                <div className="flex items-center justify-end gap-2">
+                  <span className="text-xs text-muted-foreground mr-auto">{entries.length} verifications</span>
+                  <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Export JSON
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleExport('schema')}>
+                    JSON Schema
+                  </Button>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground text-xs">
+                      <th className="font-medium py-1 pr-3" />
+                      <th className="font-medium py-1 pr-3">Date</th>
+                      <th className="font-medium py-1 pr-3">Template</th>
+                      <th className="font-medium py-1 pr-3">Name</th>
+                      <th className="font-medium py-1 pr-3">ID Number</th>
+                      <th className="font-medium py-1 pr-3">Outcome</th>
+                      <th className="font-medium py-1 pr-3">Trust</th>
+                      <th className="font-medium py-1" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map((entry) => (
+                      <HistoryRow key={entry.id} entry={entry} onDelete={handleDelete} />
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+            )}
+          </VaultGate>
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default History;
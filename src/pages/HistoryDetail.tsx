@@ -0,0 +1,199 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useEffect,
+  useState
+} from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { useVault } from '@/hooks/use-vault';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { VerificationResults } from '@/components/VerificationResults';
+import { VaultGate } from '@/components/VaultGate';
+import { DecisionOverrideForm } from '@/components/DecisionOverrideForm';
+import { AuditTrail } from '@/components/AuditTrail';
+import { ReportExport } from '@/components/ReportExport';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import { ArrowLeft, UserX } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { HistoryEntry, getHistoryEntry } from '@/services/history';
+import { forgetSubject } from '@/services/retention';
+import { AuditEntry, listAuditLog } from '@/services/audit';
+
+//* -------------------------------------------------------------------------- */
+//*                               HistoryDetail                                */
+//* -------------------------------------------------------------------------- */
+// A stored result rendered exactly as it was shown after verification, with
+// the thumbnail standing in for the original photo
+const HistoryDetail = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { entryId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const vaultStatus = useVault();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [entry, setEntry] = useState<HistoryEntry | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  useEffect                                 */
+  /* -------------------------------------------------------------------------- */
+  // Locking the vault drops the decrypted entry again
+  useEffect(() => {
+    if (!entryId || vaultStatus !== 'unlocked') {
+      setEntry(null);
+      return;
+    }
+
+    getHistoryEntry(entryId).then((found) => {
+      if (!found) {
+        toast({ title: "Verification Not Found", variant: "destructive" });
+        navigate('/history');
+        return;
+      }
+      setEntry(found);
+    });
+  }, [entryId, navigate, toast, vaultStatus]);
+
+  // Reloaded after an override, which appends to the log
+  useEffect(() => {
+    if (!entry) return;
+    listAuditLog(entry.id).then(setAuditEntries).catch(() => setAuditEntries([]));
+  }, [entry]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleForget                                */
+  /* -------------------------------------------------------------------------- */
+  // Removes every stored verification of this holder, not just this one
+  const handleForget = async () => {
+    if (!entry) return;
+
+    const count = await forgetSubject(entry.summary);
+    toast({ title: "Subject Forgotten", description: `Deleted ${count} stored verifications.` });
+    navigate('/history');
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold">Past Verification</h1>
+              {entry && (
+                <p className="text-sm text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.summary.templateLabel && ` · ${entry.summary.templateLabel}`}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {entry && (entry.summary.name || entry.summary.documentNumber) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline">
+                      <UserX className="h-4 w-4 mr-2" />
+                      Forget This Subject
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Forget this subject?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Every stored verification with the name or ID number of this holder is deleted,
+                        including its images. Only anonymized outcome counts and deletion tombstones remain.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleForget}>Forget</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              <Button variant="outline" asChild>
+                <Link to="/history">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to History
+                </Link>
+              </Button>
+            </div>
+          </div>
+
+          <VaultGate>
+            {entry && (
+              <>
+                <Card className="p-4">
+                  <DecisionOverrideForm key={entry.summary.decision} entry={entry} onOverride={setEntry} />
+                </Card>
+                <VerificationResults
+                  result={entry.result}
+                  idImage={entry.thumbnail}
+                  actions={
+                    <ReportExport
+                      source={{
+                        result: entry.result,
+                        verificationId: entry.id,
+                        verifiedAt: entry.createdAt,
+                        override: entry.override,
+                        images: { front: entry.thumbnail, back: entry.backThumbnail },
+                      }}
+                    />
+                  }
+                />
+                <Card className="p-4 space-y-3 overflow-x-auto">
+                  <h4 className="font-medium">Audit Trail</h4>
+                  {auditEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No audit events were logged for this verification.</p>
+                  ) : (
+                    <AuditTrail entries={auditEntries} showVerificationId={false} />
+                  )}
+                </Card>
+              </>
+            )}
+          </VaultGate>
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDetail;
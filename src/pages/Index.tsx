@@ -10,6 +10,7 @@ import React, {
 //*                                    Hooks                                   */
 //* -------------------------------------------------------------------------- */
 import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
 
 //* -------------------------------------------------------------------------- */
 //*                                   Shadcn                                   */
@@ -32,19 +33,34 @@ import {
   VerificationResult    // Type
 } from '@/components/VerificationResults';
 
+import { QualityReportDetails } from '@/components/QualityReportDetails';
+import { ReportExport } from '@/components/ReportExport';
+
 //* -------------------------------------------------------------------------- */
 //*                                    Icons                                   */
 //* -------------------------------------------------------------------------- */
 import { 
   Shield, 
   FileCheck, 
-  Sparkles 
+  Sparkles,
+  Library,
+  Scale,
+  History,
+  ScrollText,
+  FileSignature,
+  Layers
 } from 'lucide-react';
 
 //* -------------------------------------------------------------------------- */
 //*                                     API                                    */
 //* -------------------------------------------------------------------------- */
 import { verificationService } from '@/services/verificationService';
+import { ImageQualityError, QualityReport } from '@/services/quality';
+import { listTemplates } from '@/services/templateLibrary';
+import { DocumentSide, DocumentTemplate, SIDE_LABELS, templateLabel, templateSides } from '@/services/templates';
+import { getActivePolicy } from '@/services/policyLibrary';
+import { addHistoryEntry } from '@/services/history';
+import { VaultLockedError } from '@/services/vault';
 
 //* -------------------------------------------------------------------------- */
 //*                                    Index                                   */
@@ -62,17 +78,23 @@ const Index = () => {
   /* -------------------------------------------------------------------------- */
   const [idImage, setIdImage] = useState<File | null>(null);
   const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [backImage, setBackImage] = useState<File | null>(null);
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [identifiedTemplate, setIdentifiedTemplate] = useState<DocumentTemplate | null>(null);
     
   const [processingMessage, setProcessingMessage] = useState('');
   const [processingDetails, setProcessingDetails] = useState('');
 
   const [processingState, setProcessingState] = useState<ProcessingState>('idle');
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null);
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [blockedQuality, setBlockedQuality] = useState<QualityReport | null>(null);
   
   /* -------------------------------------------------------------------------- */
   /*                                  Triggers                                  */
   /* -------------------------------------------------------------------------- */
   const [isServiceReady, setIsServiceReady] = useState(false);
+  const [isIdentifying, setIsIdentifying] = useState(false);
 
   /* -------------------------------------------------------------------------- */
   /*                                  useEffect                                 */
@@ -112,21 +134,61 @@ const Index = () => {
 
     initializeService();
 
+    listTemplates()
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+
     return () => {
       verificationService.cleanup();
     };
 
   }, [toast]);
 
+  // The front decides which sides must be captured: the library template it
+  // matches, or a one-sided design when a reference image is uploaded
+  useEffect(() => {
+    setIdentifiedTemplate(null);
+    setIsIdentifying(false);
+    if (!idImage || referenceImage || !isServiceReady || templates.length === 0) return;
+
+    let cancelled = false;
+    setIsIdentifying(true);
+    verificationService.identifyDocument(idImage, templates)
+      .then(({ selected }) => {
+        if (cancelled || !selected) return;
+        setIdentifiedTemplate(templates.find(({ metadata }) => metadata?.id === selected.templateId) ?? null);
+      })
+      .catch((error) => console.warn('Document identification failed:', error))
+      .finally(() => {
+        if (!cancelled) setIsIdentifying(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idImage, referenceImage, templates, isServiceReady]);
+
+  const requiredSides: DocumentSide[] = identifiedTemplate ? templateSides(identifiedTemplate) : ['front'];
+  const isBackRequired = requiredSides.includes('back');
+
   /* -------------------------------------------------------------------------- */
   /*                             handleVerification                             */
   /* -------------------------------------------------------------------------- */
   const handleVerification = async () => {
     
-    if (!idImage || !referenceImage) {
+    if (!idImage) {
+      toast({
+        title: "Missing Images",
+        description: "Please upload the ID image to verify.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isBackRequired && !backImage) {
       toast({
         title: "Missing Images",
-        description: "Please upload both the ID image and reference template.",
+        description: `${templateLabel(identifiedTemplate!)} is verified on both sides. Please upload the back of the ID.`,
         variant: "destructive",
       });
       return;
@@ -143,44 +205,91 @@ const Index = () => {
 
     try {
 
+      // An uploaded reference wins; otherwise identify against the library
+      const reference = referenceImage ?? await listTemplates();
+      if (Array.isArray(reference) && reference.length === 0) {
+        toast({
+          title: "No Templates",
+          description: "Upload a reference template or add templates to the library.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const policy = await getActivePolicy();
+
       setVerificationResult(null);
+      setBlockedQuality(null);
       setProcessingState('processing');
       
+      // Shared by the audit log and the history entry of this run
+      const verificationId = crypto.randomUUID();
       const result = await verificationService.verifyDocument(
         idImage,
-        referenceImage,
+        reference,
         (stage, progress) => {
           setProcessingMessage(stage);
           setProcessingDetails(`Progress: ${progress}%`);
-        }
+        },
+        { backImage, policy, verificationId }
       );
 
       setVerificationResult(result);
+      setVerificationId(verificationId);
+
+      // History is best effort; a full, blocked or locked store must not hide the result
+      addHistoryEntry(result, idImage, backImage, verificationId).catch((error) =>
+        toast(error instanceof VaultLockedError ? {
+          title: "Not Saved to History",
+          description: "Unlock the encrypted history to keep verification results.",
+        } : {
+          title: "History Error",
+          description: "The result could not be saved to the local history.",
+          variant: "destructive",
+        })
+      );
 
-      setProcessingState(result.overall.isValid ? 'success' : 'warning');
+      // The policy decision drives the outcome; the risk score explains it
+      const { decision } = result.decision;
+      setProcessingState(decision === 'accept' ? 'success' : decision === 'review' ? 'warning' : 'error');
       
       setProcessingMessage(
-        result.overall.isValid 
-          ? 'Verification completed successfully!' 
-          : 'Verification completed with warnings'
+        decision === 'accept'
+          ? 'Document accepted'
+          : decision === 'review'
+            ? 'Document needs manual review'
+            : 'Document rejected'
       );
 
+      const missingSides = (result.sides ?? []).filter((side) => !side.provided);
       setProcessingDetails(
-        `Overall confidence: ${Math.round(result.overall.confidence * 100)}%`
+        `Trust score: ${Math.round(result.overall.confidence * 100)}% (${result.risk.level} risk). ${result.decision.explanation}` +
+        (missingSides.length
+          ? ` Capture the ${missingSides.map((side) => SIDE_LABELS[side.side].toLowerCase()).join(' and ')} of the document and verify again.`
+          : '')
       );
 
       toast({
-        title: result.overall.isValid ? "Verification Success" : "Verification Warning",
-        description: result.overall.isValid 
-          ? "Document verification passed all checks." 
-          : "Document verification completed with some issues.",
-        variant: result.overall.isValid ? "default" : "destructive",
+        title: decision === 'accept' ? "Accepted" : decision === 'review' ? "Manual Review" : "Rejected",
+        description: result.decision.explanation,
+        variant: decision === 'accept' ? "default" : "destructive",
       });
 
     } catch (error) {
       setProcessingState('error');
       setProcessingMessage('Verification failed');
       setProcessingDetails(error instanceof Error ? error.message : 'Unknown error occurred');
+
+      if (error instanceof ImageQualityError) {
+        setBlockedQuality(error.report);
+        toast({
+          title: "Image Quality Too Low",
+          description: `Please retake the photo of the ${SIDE_LABELS[error.side].toLowerCase()}; see the quality report for details.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Verification Error",
         description: "An error occurred during verification. Please try again.",
@@ -196,13 +305,16 @@ const Index = () => {
   const resetVerification = () => {
     setIdImage(null);
     setReferenceImage(null);
+    setBackImage(null);
     setVerificationResult(null);
+    setBlockedQuality(null);
     setProcessingState('idle');
     setProcessingMessage('');
     setProcessingDetails('');
   };
 
-  const canVerify = idImage && referenceImage && isServiceReady && processingState !== 'processing';
+  const canVerify =
+    idImage && (!isBackRequired || backImage) && !isIdentifying && isServiceReady && processingState !== 'processing';
 
   /* -------------------------------------------------------------------------- */
   /*                                    View                                    */
@@ -246,20 +358,40 @@ const Index = () => {
           {/* -------------------------------------------------------------------------- */}
           {/*                               Upload Section                               */}
           {/* -------------------------------------------------------------------------- */}
-          <div className="grid md:grid-cols-2 gap-6">
+          <div className="grid md:grid-cols-3 gap-6">
             <ImageUpload
               onImageUpload={setIdImage}
-              label="Government ID"
-              description="Upload the government-issued ID document to verify"
+              label="Front of ID"
+              description="Upload the front of the government-issued ID document to verify"
               uploadedImage={idImage}
             />
             <ImageUpload
               onImageUpload={setReferenceImage}
-              label="Reference Template"
-              description="Upload a reference template for comparison"
+              label="Reference Template (Optional)"
+              description="Leave empty to identify the document from the template library"
               uploadedImage={referenceImage}
             />
+            <ImageUpload
+              onImageUpload={setBackImage}
+              label={isBackRequired ? "Back of ID" : "Back of ID (Optional)"}
+              description={
+                isBackRequired
+                  ? `Required for ${templateLabel(identifiedTemplate!)}; also decodes its PDF417 barcode`
+                  : "Upload the back side to decode its PDF417 barcode"
+              }
+              uploadedImage={backImage}
+            />
           </div>
+          {(isIdentifying || identifiedTemplate) && (
+            <p className="text-sm text-muted-foreground text-center">
+              {isIdentifying ? 'Identifying the document from the front...' : (
+                <>
+                  Identified as <span className="font-medium">{templateLabel(identifiedTemplate!)}</span>;
+                  capture the {requiredSides.map((side) => SIDE_LABELS[side].toLowerCase()).join(' and ')}.
+                </>
+              )}
+            </p>
+          )}
 
           {/* -------------------------------------------------------------------------- */}
           {/*                              Processing Status                             */}
@@ -281,7 +413,7 @@ const Index = () => {
                 size="lg"
                 className="min-w-40"
               >
-                {processingState === 'processing' ? 'Verifying...' : 'Start Verification'}
+                {processingState === 'processing' ? 'Verifying...' : isIdentifying ? 'Identifying...' : 'Start Verification'}
               </Button>
               <Button
                 variant="outline"
@@ -291,6 +423,42 @@ const Index = () => {
               >
                 Reset
               </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/templates">
+                  <Library className="h-4 w-4 mr-2" />
+                  Template Library
+                </Link>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/policies">
+                  <Scale className="h-4 w-4 mr-2" />
+                  Decision Policies
+                </Link>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/history">
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Link>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/audit">
+                  <ScrollText className="h-4 w-4 mr-2" />
+                  Audit Log
+                </Link>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/signatures">
+                  <FileSignature className="h-4 w-4 mr-2" />
+                  Verify Signature
+                </Link>
+              </Button>
+              <Button variant="ghost" size="lg" asChild>
+                <Link to="/batch">
+                  <Layers className="h-4 w-4 mr-2" />
+                  Batch
+                </Link>
+              </Button>
             </div>
           </Card>
 
@@ -298,7 +466,21 @@ const Index = () => {
           {/*                                   Results                                  */}
           {/* -------------------------------------------------------------------------- */}
           {verificationResult && (
-            <VerificationResults result={verificationResult} />
+            <VerificationResults
+              result={verificationResult}
+              idImage={idImage}
+              actions={
+                <ReportExport
+                  source={{ result: verificationResult, verificationId, images: { front: idImage, back: backImage } }}
+                />
+              }
+            />
+          )}
+
+          {blockedQuality && (
+            <Card className="p-6">
+              <QualityReportDetails report={blockedQuality} />
+            </Card>
           )}
 
           {/* -------------------------------------------------------------------------- */}
@@ -313,7 +495,7 @@ const Index = () => {
                   Upload Images
                 </div>
                 <p className="text-muted-foreground">
-                  Upload both the government ID and a reference template for comparison.
+                  Upload the government ID; add a reference template or let the library identify it.
                 </p>
               </div>
               <div className="space-y-2">
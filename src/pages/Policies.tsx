@@ -0,0 +1,342 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import { ArrowLeft, FlaskConical, Save, Scale } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  DECISION_LABELS,
+  DEFAULT_POLICY_SET,
+  POLICY_FACTS,
+  PolicyDecision,
+  PolicyDryRun,
+  PolicySet,
+  dryRunPolicy,
+  parsePolicySet,
+} from '@/services/policy';
+import {
+  PolicyLibraryEntry,
+  getActivePolicy,
+  listPolicies,
+  savePolicyVersion,
+  setActivePolicy,
+} from '@/services/policyLibrary';
+import { listHistory } from '@/services/history';
+import { readVerificationResults } from '@/services/reports';
+import { VaultLockedError } from '@/services/vault';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Types                                   */
+//* -------------------------------------------------------------------------- */
+import { VerificationResult } from '@/components/VerificationResults';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+// The editor never shows `version` or `savedAt`: both are assigned on save
+const toEditorJson = ({ version, savedAt, ...policy }: PolicySet & { savedAt?: string }) =>
+  JSON.stringify(policy, null, 2);
+
+const isSamePolicy = (a: { id: string; version: number }, b: { id: string; version: number }) =>
+  a.id === b.id && a.version === b.version;
+
+// Result files are JSON report exports (one or a list) or bare results
+const readResultFiles = async (files: FileList): Promise<VerificationResult[]> => {
+  const results: VerificationResult[] = [];
+  for (const file of Array.from(files)) {
+    results.push(...readVerificationResults(JSON.parse(await file.text())));
+  }
+  return results;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               DryRunSummary                                */
+//* -------------------------------------------------------------------------- */
+const DryRunSummary: React.FC<{ dryRun: PolicyDryRun }> = ({ dryRun }) => (
+  <div className="space-y-3 text-xs">
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline">{dryRun.total} results</Badge>
+      {(Object.keys(dryRun.counts) as PolicyDecision[]).map((decision) => (
+        <Badge key={decision} variant="secondary">
+          {DECISION_LABELS[decision]}: {dryRun.counts[decision]}
+        </Badge>
+      ))}
+    </div>
+    <p className="text-muted-foreground">
+      Rules fired:{' '}
+      {Object.entries(dryRun.rules)
+        .map(([ruleId, count]) => `${ruleId || 'fallback'} ×${count}`)
+        .join(', ') || 'none'}
+    </p>
+    {dryRun.changed.length === 0 ? (
+      <p className="text-muted-foreground">No decision would change.</p>
+    ) : (
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-muted-foreground">
+            <th className="font-medium py-1 pr-3">#</th>
+            <th className="font-medium py-1 pr-3">Recorded</th>
+            <th className="font-medium py-1 pr-3">Dry run</th>
+            <th className="font-medium py-1">Rule</th>
+          </tr>
+        </thead>
+        <tbody>
+          {dryRun.changed.map(({ index, previous, next }) => (
+            <tr key={index} className="border-t border-border/50">
+              <td className="py-1 pr-3">{index + 1}</td>
+              <td className="py-1 pr-3">{previous ? DECISION_LABELS[previous.decision] : '—'}</td>
+              <td className="py-1 pr-3 font-medium">{DECISION_LABELS[next.decision]}</td>
+              <td className="py-1 text-muted-foreground">{next.ruleId ?? 'fallback'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+//* -------------------------------------------------------------------------- */
+//*                                  Policies                                  */
+//* -------------------------------------------------------------------------- */
+// Edit decision policies as JSON, save immutable versions, choose the active
+// one and dry-run a draft against past results before activating it
+const Policies = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [policies, setPolicies] = useState<PolicyLibraryEntry[]>([]);
+  const [active, setActive] = useState<PolicySet>(DEFAULT_POLICY_SET);
+  const [draft, setDraft] = useState(() => toEditorJson(DEFAULT_POLICY_SET));
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [dryRun, setDryRun] = useState<PolicyDryRun | null>(null);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                refreshPolicies                             */
+  /* -------------------------------------------------------------------------- */
+  const refreshPolicies = useCallback(async () => {
+    try {
+      const [entries, current] = await Promise.all([listPolicies(), getActivePolicy()]);
+      setPolicies(entries);
+      setActive(current);
+    } catch (error) {
+      toast({
+        title: "Policy Error",
+        description: "Failed to load the saved policies.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refreshPolicies();
+  }, [refreshPolicies]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 parseDraft                                 */
+  /* -------------------------------------------------------------------------- */
+  const parseDraft = (): PolicySet | null => {
+    try {
+      const policy = parsePolicySet(draft);
+      setDraftError(null);
+      return policy;
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : 'Invalid policy');
+      return null;
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleSave                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleSave = async () => {
+    const policy = parseDraft();
+    if (!policy) return;
+
+    const entry = await savePolicyVersion(policy);
+    toast({ title: "Policy Saved", description: `${entry.name} v${entry.version}` });
+    await refreshPolicies();
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                               handleActivate                               */
+  /* -------------------------------------------------------------------------- */
+  const handleActivate = async (policy: PolicySet | null) => {
+    await setActivePolicy(policy);
+    await refreshPolicies();
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleDryRun                                */
+  /* -------------------------------------------------------------------------- */
+  // Results come from the local history or from exported result files
+  const handleDryRun = async (source: 'history' | FileList | null) => {
+    const policy = parseDraft();
+    if (!policy || !source) return;
+
+    try {
+      const results = source === 'history'
+        ? (await listHistory()).map((entry) => entry.result)
+        : await readResultFiles(source);
+      setDryRun(dryRunPolicy(policy, results));
+    } catch (error) {
+      toast({
+        title: "Dry Run Failed",
+        description: error instanceof VaultLockedError
+          ? "Unlock the encrypted history first."
+          : "The past results could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Scale className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Decision Policies</h1>
+                <p className="text-sm text-muted-foreground">
+                  Rules that turn a verification result into accept, manual review or reject
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Verification
+              </Link>
+            </Button>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-6">
+
+            {/* -------------------------------------------------------------------------- */}
+            {/*                                  Versions                                  */}
+            {/* -------------------------------------------------------------------------- */}
+            <Card className="p-4 space-y-3">
+              <h3 className="font-medium">Versions</h3>
+              {[DEFAULT_POLICY_SET, ...policies].map((policy) => (
+                <div
+                  key={`${policy.id}@${policy.version}`}
+                  className="flex items-center justify-between gap-2 border-t border-border/50 pt-2 text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{policy.name}</p>
+                    <p className="text-xs text-muted-foreground">{policy.id} v{policy.version}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {isSamePolicy(policy, active) ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleActivate(policy === DEFAULT_POLICY_SET ? null : policy)}
+                      >
+                        Activate
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setDraft(toEditorJson(policy))}>
+                      Load
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </Card>
+
+            {/* -------------------------------------------------------------------------- */}
+            {/*                                   Editor                                   */}
+            {/* -------------------------------------------------------------------------- */}
+            <Card className="p-4 space-y-3 lg:col-span-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Policy JSON</h3>
+                <Button size="sm" onClick={handleSave}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save as New Version
+                </Button>
+              </div>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="font-mono text-xs min-h-96"
+              />
+              {draftError && <p className="text-xs text-error">{draftError}</p>}
+
+              <div className="space-y-1">
+                <Label htmlFor="dryRunFiles" className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4" />
+                  Dry run against past results
+                </Label>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => handleDryRun('history')}>
+                    Local History
+                  </Button>
+                  <Input
+                    id="dryRunFiles"
+                    type="file"
+                    accept="application/json,.json"
+                    multiple
+                    onChange={(e) => handleDryRun(e.target.files)}
+                  />
+                </div>
+              </div>
+              {dryRun && <DryRunSummary dryRun={dryRun} />}
+
+              <details className="text-xs">
+                <summary className="cursor-pointer font-medium">Available facts</summary>
+                <dl className="grid sm:grid-cols-2 gap-x-4 gap-y-1 mt-2">
+                  {Object.entries(POLICY_FACTS).map(([fact, description]) => (
+                    <div key={fact}>
+                      <dt className="font-mono">{fact}</dt>
+                      <dd className="text-muted-foreground">{description}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            </Card>
+
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Policies;
@@ -0,0 +1,267 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useEffect,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import {
+  ArrowLeft,
+  Download,
+  FileSignature,
+  KeyRound,
+  ShieldAlert,
+  ShieldCheck
+} from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { sha256Hex } from '@/services/audit';
+import { DECISION_LABELS } from '@/services/policy';
+import {
+  SignatureCheck,
+  SigningKeyInfo,
+  getSigningKey,
+  verifySignedReport,
+} from '@/services/signing';
+
+//* -------------------------------------------------------------------------- */
+//*                                     Lib                                    */
+//* -------------------------------------------------------------------------- */
+import { downloadBlob } from '@/lib/download';
+
+//* -------------------------------------------------------------------------- */
+//*                                 CheckResult                                */
+//* -------------------------------------------------------------------------- */
+const CheckResult: React.FC<{ check: SignatureCheck; imageMatch: string | null }> = ({ check, imageMatch }) => {
+  const payload = check.payload;
+  const decision = payload?.override?.decision ?? payload?.result?.decision?.decision;
+
+  return (
+    <Card className={`p-4 space-y-3 text-sm ${check.isValid ? 'bg-success/10' : 'bg-error/10'}`}>
+      <div className="flex items-center gap-2 font-medium">
+        {check.isValid
+          ? <ShieldCheck className="h-5 w-5 text-success" />
+          : <ShieldAlert className="h-5 w-5 text-error" />}
+        {check.isValid
+          ? 'Signature valid: the report is unchanged since signing'
+          : check.isUnsupported ? 'Not verified: unsupported report version' : 'Signature invalid'}
+        {check.fingerprint && (
+          <Badge variant={check.isKnownKey ? 'default' : 'secondary'}>
+            {check.isKnownKey ? "This browser's key" : 'External key'}
+          </Badge>
+        )}
+      </div>
+      {check.error && <p className="text-error">{check.error}</p>}
+      {check.fingerprint && (
+        <p className="text-xs text-muted-foreground">
+          Signer key fingerprint <span className="font-mono break-all">{check.fingerprint}</span>. Compare it with
+          the fingerprint the sender published.
+        </p>
+      )}
+
+      {payload && (
+        <dl className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+          <dt className="text-muted-foreground">Decision</dt>
+          <dd>
+            {decision ? DECISION_LABELS[decision] : '—'}
+            {payload.override && ' (manual override)'}
+          </dd>
+          <dt className="text-muted-foreground">Verification ID</dt>
+          <dd className="font-mono break-all">{payload.verificationId ?? '—'}</dd>
+          <dt className="text-muted-foreground">Verified</dt>
+          <dd>{new Date(payload.verifiedAt).toLocaleString()}</dd>
+          <dt className="text-muted-foreground">Signed</dt>
+          <dd>{new Date(payload.signedAt).toLocaleString()}</dd>
+          <dt className="text-muted-foreground">Front image SHA-256</dt>
+          <dd className="font-mono break-all">{payload.imageHashes?.front ?? 'Not recorded'}</dd>
+          <dt className="text-muted-foreground">Back image SHA-256</dt>
+          <dd className="font-mono break-all">{payload.imageHashes?.back ?? 'Not recorded'}</dd>
+        </dl>
+      )}
+      {imageMatch && <p className="text-xs font-medium">{imageMatch}</p>}
+    </Card>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             SignatureVerifier                              */
+//* -------------------------------------------------------------------------- */
+// Checks a signed report's integrity and signer, and optionally that an image
+// is one of the originals it was issued for
+const SignatureVerifier = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [signingKey, setSigningKey] = useState<SigningKeyInfo | null>(null);
+  const [input, setInput] = useState('');
+  const [check, setCheck] = useState<SignatureCheck | null>(null);
+  const [imageMatch, setImageMatch] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSigningKey()
+      .then(setSigningKey)
+      .catch(() => setSigningKey(null));
+  }, []);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleVerify                                */
+  /* -------------------------------------------------------------------------- */
+  const handleVerify = async (text: string) => {
+    setInput(text);
+    setImageMatch(null);
+    setCheck(text.trim() ? await verifySignedReport(text) : null);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (file) await handleVerify(await file.text());
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleImage                                */
+  /* -------------------------------------------------------------------------- */
+  const handleImage = async (file?: File) => {
+    const hashes = check?.payload?.imageHashes;
+    if (!file || !hashes) return;
+    const hash = await sha256Hex(file);
+    const side = hash === hashes.front ? 'front' : hash === hashes.back ? 'back' : null;
+    setImageMatch(
+      side
+        ? `${file.name} is the original ${side} image of this report.`
+        : `${file.name} does not match either image of this report.`
+    );
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                              handleExportKey                               */
+  /* -------------------------------------------------------------------------- */
+  const handleExportKey = () => {
+    if (!signingKey) return;
+    const blob = new Blob([JSON.stringify(signingKey.publicJwk, null, 2)], { type: 'application/jwk+json' });
+    downloadBlob(blob, `signing-key-${signingKey.fingerprint.slice(0, 8)}.jwk`);
+    toast({
+      title: "Public Key Exported",
+      description: "Share it with the systems that receive signed reports.",
+    });
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <FileSignature className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Verify Signature</h1>
+                <p className="text-sm text-muted-foreground">
+                  Check that a signed verification report is unchanged and see who signed it
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Verification
+              </Link>
+            </Button>
+          </div>
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                  Local Key                                 */}
+          {/* -------------------------------------------------------------------------- */}
+          <Card className="p-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <KeyRound className="h-5 w-5 text-primary shrink-0" />
+              <div className="min-w-0">
+                <div className="font-medium">This browser's signing key</div>
+                <div className="text-xs text-muted-foreground font-mono break-all">
+                  {signingKey ? signingKey.fingerprint : 'Unavailable'}
+                </div>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExportKey} disabled={!signingKey}>
+              <Download className="h-4 w-4 mr-2" />
+              Public Key
+            </Button>
+          </Card>
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                   Report                                   */}
+          {/* -------------------------------------------------------------------------- */}
+          <Card className="p-4 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="signedReport">Signed report</Label>
+              <Textarea
+                id="signedReport"
+                rows={6}
+                className="font-mono text-xs"
+                placeholder="Paste a signed report, or drop a .jws file here"
+                value={input}
+                onChange={(e) => handleVerify(e.target.value)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleFile(e.dataTransfer.files[0]);
+                }}
+              />
+            </div>
+            <div className="grid sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="signedReportFile">Or choose a file</Label>
+                <Input
+                  id="signedReportFile"
+                  type="file"
+                  accept=".jws,.json,.txt,application/jose,application/json"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="signedReportImage">Check an original image</Label>
+                <Input
+                  id="signedReportImage"
+                  type="file"
+                  accept="image/*"
+                  disabled={!check?.payload}
+                  onChange={(e) => handleImage(e.target.files?.[0])}
+                />
+              </div>
+            </div>
+          </Card>
+
+          {check && <CheckResult check={check} imageMatch={imageMatch} />}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignatureVerifier;
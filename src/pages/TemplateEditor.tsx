@@ -0,0 +1,503 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useEffect,
+  useState
+} from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+//* -------------------------------------------------------------------------- */
+//*                                 Components                                 */
+//* -------------------------------------------------------------------------- */
+import { ImageUpload } from '@/components/ImageUpload';
+import { TemplateZoneCanvas } from '@/components/TemplateZoneCanvas';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import { ArrowLeft, Plus, SquareDashedMousePointer, Trash2 } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import { getTemplate, saveTemplate } from '@/services/templateLibrary';
+import {
+  DocumentSide,
+  FIELD_PRESETS,
+  FieldValidator,
+  RegionRect,
+  SIDE_LABELS,
+  TemplateField,
+  TemplateFieldType,
+  TemplateRegion,
+} from '@/services/templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Options                                  */
+//* -------------------------------------------------------------------------- */
+const fieldTypes: { value: TemplateFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'date', label: 'Date' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'signature', label: 'Signature' },
+  { value: 'mrz', label: 'MRZ' },
+];
+
+const validators: { value: FieldValidator; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'name', label: 'Name' },
+  { value: 'date', label: 'Date' },
+  { value: 'documentNumber', label: 'Document Number' },
+  { value: 'sex', label: 'Sex' },
+  { value: 'mrz', label: 'MRZ Check Digits' },
+];
+
+type FieldDraft = Omit<TemplateField, keyof RegionRect>;
+
+const customField: FieldDraft = { id: 'field', label: 'Custom Field', type: 'text', validator: 'none', required: false };
+
+// The reference image is missing until one is uploaded
+type SideDraft = { image: Blob | null; variableRegions: TemplateRegion[]; fields: TemplateField[] };
+
+const emptySide: SideDraft = { image: null, variableRegions: [], fields: [] };
+
+const emptyMetadata = {
+  jurisdiction: '',
+  documentType: '',
+  version: '1',
+  validFrom: '',
+  validTo: '',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               TemplateEditor                               */
+//* -------------------------------------------------------------------------- */
+// Draw and describe the field zones of a reference image, per side for
+// two-sided cards. `/templates/editor` creates a library entry;
+// `/templates/editor/:templateId` edits one.
+const TemplateEditor = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { templateId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [drafts, setDrafts] = useState<{ [side in DocumentSide]: SideDraft }>({ front: emptySide, back: emptySide });
+  const [hasBack, setHasBack] = useState(false);
+  const [activeSide, setActiveSide] = useState<DocumentSide>('front');
+  const [metadata, setMetadata] = useState(emptyMetadata);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingField, setPendingField] = useState<FieldDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Field ids key the extracted data of the whole document, so they are
+  // unique across sides
+  const { image, fields } = drafts[activeSide];
+  const allFields = [...drafts.front.fields, ...(hasBack ? drafts.back.fields : [])];
+  const selected = fields.find((field) => field.id === selectedId) ?? null;
+
+  const updateDraft = (changes: Partial<SideDraft>) =>
+    setDrafts({ ...drafts, [activeSide]: { ...drafts[activeSide], ...changes } });
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  useEffect                                 */
+  /* -------------------------------------------------------------------------- */
+  useEffect(() => {
+    if (!templateId) return;
+
+    getTemplate(templateId).then((entry) => {
+      if (!entry) {
+        toast({ title: "Template Not Found", variant: "destructive" });
+        navigate('/templates');
+        return;
+      }
+      setDrafts({
+        front: { image: entry.image, variableRegions: entry.variableRegions, fields: entry.fields },
+        back: entry.back ?? emptySide,
+      });
+      setHasBack(Boolean(entry.back));
+      setMetadata({
+        jurisdiction: entry.metadata.jurisdiction,
+        documentType: entry.metadata.documentType,
+        version: entry.metadata.version,
+        validFrom: entry.metadata.validFrom ?? '',
+        validTo: entry.metadata.validTo ?? '',
+      });
+    });
+  }, [templateId, navigate, toast]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleDraw                                 */
+  /* -------------------------------------------------------------------------- */
+  // Field ids key the extracted data, so a repeated preset gets a suffix
+  const handleDraw = (rect: RegionRect) => {
+    if (!pendingField) return;
+
+    let id = pendingField.id;
+    for (let n = 2; allFields.some((field) => field.id === id); n++) {
+      id = `${pendingField.id}${n}`;
+    }
+
+    updateDraft({ fields: [...fields, { ...pendingField, ...rect, id }] });
+    setSelectedId(id);
+    setPendingField(null);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                updateField                                 */
+  /* -------------------------------------------------------------------------- */
+  const updateField = (changes: Partial<TemplateField>) => {
+    if (!selected) return;
+    if (changes.id !== undefined && allFields.some((field) => field !== selected && field.id === changes.id)) {
+      return;
+    }
+    updateDraft({ fields: fields.map((field) => (field === selected ? { ...field, ...changes } : field)) });
+    if (changes.id !== undefined) setSelectedId(changes.id);
+  };
+
+  const removeField = () => {
+    updateDraft({ fields: fields.filter((field) => field !== selected) });
+    setSelectedId(null);
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 switchSide                                 */
+  /* -------------------------------------------------------------------------- */
+  const switchSide = (side: DocumentSide) => {
+    setActiveSide(side);
+    setSelectedId(null);
+    setPendingField(null);
+  };
+
+  const toggleBack = (enabled: boolean) => {
+    setHasBack(enabled);
+    switchSide(enabled ? 'back' : 'front');
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleSave                                 */
+  /* -------------------------------------------------------------------------- */
+  const handleSave = async () => {
+    const { front, back } = drafts;
+    if (!front.image || (hasBack && !back.image)) return;
+
+    try {
+      setIsSaving(true);
+      await saveTemplate({
+        image: front.image,
+        variableRegions: front.variableRegions,
+        fields: front.fields,
+        back: hasBack && back.image
+          ? { image: back.image, variableRegions: back.variableRegions, fields: back.fields }
+          : undefined,
+        metadata: {
+          id: templateId,
+          jurisdiction: metadata.jurisdiction.trim(),
+          documentType: metadata.documentType.trim(),
+          version: metadata.version.trim(),
+          validFrom: metadata.validFrom || undefined,
+          validTo: metadata.validTo || undefined,
+        },
+      });
+      toast({ title: "Template Saved", description: `${allFields.length} field zones saved to the library.` });
+      navigate('/templates');
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave =
+    drafts.front.image &&
+    (!hasBack || drafts.back.image) &&
+    metadata.jurisdiction.trim() &&
+    metadata.documentType.trim() &&
+    metadata.version.trim() &&
+    allFields.every((field) => field.id.trim()) &&
+    !isSaving;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <SquareDashedMousePointer className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">{templateId ? 'Edit Template' : 'New Template'}</h1>
+                <p className="text-sm text-muted-foreground">
+                  Draw a zone for every field the verification should read
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/templates">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Template Library
+              </Link>
+            </Button>
+          </div>
+
+          <div className="grid lg:grid-cols-3 gap-6">
+
+            {/* -------------------------------------------------------------------------- */}
+            {/*                                Reference Image                             */}
+            {/* -------------------------------------------------------------------------- */}
+            <div className="lg:col-span-2 space-y-4">
+              {hasBack && (
+                <Tabs value={activeSide} onValueChange={(side) => switchSide(side as DocumentSide)}>
+                  <TabsList>
+                    {(['front', 'back'] as DocumentSide[]).map((side) => (
+                      <TabsTrigger key={side} value={side}>
+                        {SIDE_LABELS[side]}
+                        {!drafts[side].image && ' (no image)'}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+              )}
+              {image ? (
+                <Card className="p-4 space-y-3">
+                  <TemplateZoneCanvas
+                    image={image}
+                    fields={fields}
+                    selectedId={selectedId}
+                    isDrawing={!!pendingField}
+                    onDraw={handleDraw}
+                    onSelect={setSelectedId}
+                  />
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {pendingField
+                        ? `Drag over the image to place "${pendingField.label}".`
+                        : 'Pick a field on the right, then drag over the image to place it.'}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => updateDraft({ image: null })}>
+                      Replace Image
+                    </Button>
+                  </div>
+                </Card>
+              ) : (
+                <ImageUpload
+                  key={activeSide}
+                  onImageUpload={(file) => updateDraft({ image: file })}
+                  label={hasBack ? `${SIDE_LABELS[activeSide]} Reference Image` : 'Reference Image'}
+                  description={`A clean, flat scan of the ${activeSide} of a genuine specimen`}
+                  uploadedImage={null}
+                />
+              )}
+            </div>
+
+            <div className="space-y-4">
+
+              {/* -------------------------------------------------------------------------- */}
+              {/*                                  Metadata                                  */}
+              {/* -------------------------------------------------------------------------- */}
+              <Card className="p-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="jurisdiction">Jurisdiction</Label>
+                    <Input
+                      id="jurisdiction"
+                      placeholder="e.g. California"
+                      value={metadata.jurisdiction}
+                      onChange={(e) => setMetadata({ ...metadata, jurisdiction: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="documentType">Document Type</Label>
+                    <Input
+                      id="documentType"
+                      placeholder="e.g. Driver License"
+                      value={metadata.documentType}
+                      onChange={(e) => setMetadata({ ...metadata, documentType: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="version">Version</Label>
+                    <Input
+                      id="version"
+                      value={metadata.version}
+                      onChange={(e) => setMetadata({ ...metadata, version: e.target.value })}
+                    />
+                  </div>
+                  <div />
+                  <div className="space-y-1">
+                    <Label htmlFor="validFrom">Issued From</Label>
+                    <Input
+                      id="validFrom"
+                      type="date"
+                      value={metadata.validFrom}
+                      onChange={(e) => setMetadata({ ...metadata, validFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="validTo">Issued Until</Label>
+                    <Input
+                      id="validTo"
+                      type="date"
+                      value={metadata.validTo}
+                      onChange={(e) => setMetadata({ ...metadata, validTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="hasBack">Two-sided document</Label>
+                  <Switch id="hasBack" checked={hasBack} onCheckedChange={toggleBack} />
+                </div>
+              </Card>
+
+              {/* -------------------------------------------------------------------------- */}
+              {/*                                   Fields                                   */}
+              {/* -------------------------------------------------------------------------- */}
+              <Card className="p-4 space-y-3">
+                <h3 className="font-medium text-sm">Add Field</h3>
+                <div className="flex flex-wrap gap-2">
+                  {[...FIELD_PRESETS, customField].map((preset) => (
+                    <Button
+                      key={preset.id}
+                      variant={pendingField === preset ? "default" : "outline"}
+                      size="sm"
+                      disabled={!image}
+                      onClick={() => setPendingField(pendingField === preset ? null : preset)}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </Card>
+
+              {selected && (
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium text-sm">Field Settings</h3>
+                    <Button variant="ghost" size="icon" onClick={removeField}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="fieldLabel">Label</Label>
+                    <Input
+                      id="fieldLabel"
+                      value={selected.label}
+                      onChange={(e) => updateField({ label: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="fieldId">Field ID</Label>
+                    <Input
+                      id="fieldId"
+                      value={selected.id}
+                      onChange={(e) => updateField({ id: e.target.value.replace(/[^A-Za-z0-9_-]/g, '') })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Type</Label>
+                      <Select
+                        value={selected.type}
+                        onValueChange={(type: TemplateFieldType) => updateField({ type })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fieldTypes.map(({ value, label }) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Validator</Label>
+                      <Select
+                        value={selected.validator}
+                        onValueChange={(validator: FieldValidator) => updateField({ validator })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {validators.map(({ value, label }) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="fieldRequired">Required</Label>
+                    <Switch
+                      id="fieldRequired"
+                      checked={selected.required}
+                      onCheckedChange={(required) => updateField({ required })}
+                    />
+                  </div>
+                </Card>
+              )}
+
+              {fields.length > 0 && (
+                <Card className="p-4 space-y-1">
+                  {fields.map((field) => (
+                    <button
+                      key={field.id}
+                      type="button"
+                      className="flex w-full justify-between text-xs py-1 hover:text-primary"
+                      onClick={() => setSelectedId(field.id)}
+                    >
+                      <span className="font-medium">{field.label}</span>
+                      <span className="text-muted-foreground">
+                        {field.type}{field.required ? ' · required' : ''}
+                      </span>
+                    </button>
+                  ))}
+                </Card>
+              )}
+
+              <Button className="w-full" disabled={!canSave} onClick={handleSave}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+            </div>
+
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,181 @@
+//* -------------------------------------------------------------------------- */
+//*                                    Hooks                                   */
+//* -------------------------------------------------------------------------- */
+import React, {
+  useCallback,
+  useEffect,
+  useState
+} from 'react';
+import { Link } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { useObjectUrl } from '@/hooks/use-object-url';
+
+//* -------------------------------------------------------------------------- */
+//*                                   Shadcn                                   */
+//* -------------------------------------------------------------------------- */
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+
+//* -------------------------------------------------------------------------- */
+//*                                    Icons                                   */
+//* -------------------------------------------------------------------------- */
+import { ArrowLeft, Library, Pencil, Plus, Trash2 } from 'lucide-react';
+
+//* -------------------------------------------------------------------------- */
+//*                                     API                                    */
+//* -------------------------------------------------------------------------- */
+import {
+  TemplateLibraryEntry,
+  deleteTemplate,
+  listTemplates,
+} from '@/services/templateLibrary';
+
+//* -------------------------------------------------------------------------- */
+//*                             TemplateLibraryCard                            */
+//* -------------------------------------------------------------------------- */
+const TemplateLibraryCard: React.FC<{
+  entry: TemplateLibraryEntry;
+  onDelete: (id: string) => void;
+}> = ({ entry, onDelete }) => {
+  const imageUrl = useObjectUrl(entry.image);
+  const { metadata } = entry;
+
+  return (
+    <Card className="p-4 space-y-3">
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt={`${metadata.jurisdiction} ${metadata.documentType}`}
+          className="w-full h-36 object-cover rounded-lg border-2 border-border"
+        />
+      )}
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{metadata.jurisdiction} {metadata.documentType}</p>
+          <p className="text-xs text-muted-foreground">
+            {metadata.validFrom || metadata.validTo
+              ? `Issued ${metadata.validFrom || '…'} – ${metadata.validTo || 'present'}`
+              : 'No validity dates'}
+          </p>
+        </div>
+        <Badge variant="secondary">v{metadata.version}</Badge>
+      </div>
+      <div className="flex justify-between items-center text-xs text-muted-foreground">
+        <span>
+          {entry.fields.length + (entry.back?.fields.length ?? 0)} field zones
+          {entry.back && ' · two-sided'}
+        </span>
+        <div className="flex">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to={`/templates/editor/${metadata.id}`}>
+              <Pencil className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => onDelete(metadata.id)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               TemplateLibrary                              */
+//* -------------------------------------------------------------------------- */
+const TemplateLibrary = () => {
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Hooks                                   */
+  /* -------------------------------------------------------------------------- */
+  const { toast } = useToast();
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    Data                                    */
+  /* -------------------------------------------------------------------------- */
+  const [templates, setTemplates] = useState<TemplateLibraryEntry[]>([]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                refreshLibrary                              */
+  /* -------------------------------------------------------------------------- */
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (error) {
+      toast({
+        title: "Library Error",
+        description: "Failed to load the template library.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
+
+  /* -------------------------------------------------------------------------- */
+  /*                                handleDelete                                */
+  /* -------------------------------------------------------------------------- */
+  const handleDelete = async (id: string) => {
+    await deleteTemplate(id);
+    await refreshLibrary();
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    View                                    */
+  /* -------------------------------------------------------------------------- */
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-8">
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Library className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">Template Library</h1>
+                <p className="text-sm text-muted-foreground">
+                  Reference designs used to identify the document type of every ID
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button asChild>
+                <Link to="/templates/editor">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Template
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Verification
+                </Link>
+              </Button>
+            </div>
+          </div>
+
+          {/* -------------------------------------------------------------------------- */}
+          {/*                                  Templates                                 */}
+          {/* -------------------------------------------------------------------------- */}
+          {templates.length === 0 ? (
+            <Card className="p-6 bg-muted/30 text-center text-sm text-muted-foreground">
+              The library is empty. Create a template to enable automatic document identification.
+            </Card>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {templates.map((entry) => (
+                <TemplateLibraryCard key={entry.metadata.id} entry={entry} onDelete={handleDelete} />
+              ))}
+            </div>
+          )}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,181 @@
+//* -------------------------------------------------------------------------- */
+//*                               TS: AamvaRecord                              */
+//* -------------------------------------------------------------------------- */
+// Holder data from the PDF417 barcode on the back of US/Canadian licenses and
+// ID cards (AAMVA DL/ID Card Design Standard, versions 1-10). Dates are ISO
+// yyyy-mm-dd; `elements` keeps every raw element by its three-letter ID.
+export interface AamvaRecord {
+  version: number;
+  jurisdictionVersion: number;
+  issuerId: string;
+  subfileType: 'DL' | 'ID';
+  documentNumber?: string;
+  familyName?: string;
+  firstName?: string;
+  middleName?: string;
+  dateOfBirth?: string;
+  issueDate?: string;
+  expirationDate?: string;
+  sex?: 'M' | 'F' | 'X';
+  street?: string;
+  city?: string;
+  jurisdiction?: string;
+  postalCode?: string;
+  country?: string;
+  height?: string;
+  eyeColor?: string;
+  vehicleClass?: string;
+  documentDiscriminator?: string;
+  elements: { [elementId: string]: string };
+}
+
+const DATA_ELEMENT_SEPARATOR = '\n';
+const SEGMENT_TERMINATOR = '\r';
+
+//* -------------------------------------------------------------------------- */
+//*                                 parseHeader                                */
+//* -------------------------------------------------------------------------- */
+// "@<LF><RS><CR>ANSI 636014080102DL..." — the compliance preamble is skipped
+// because some early issuers mangled it; version 1 files say "AAMVA" instead
+// of "ANSI " and carry no jurisdiction version.
+const HEADER = /(ANSI |AAMVA)(\d{6})(\d{2})(\d{2})?(\d{2})/;
+
+const parseHeader = (raw: string) => {
+  const match = HEADER.exec(raw);
+  if (!match) return null;
+
+  const [, , issuerId, version, jurisdictionVersion] = match;
+  return {
+    issuerId,
+    version: Number(version),
+    jurisdictionVersion: Number(jurisdictionVersion ?? 0),
+    end: match.index + match[0].length,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               parseElements                                */
+//* -------------------------------------------------------------------------- */
+// Subfile offsets in the header are unreliable in the wild, so the DL/ID
+// subfile is located by its designator and split on the element separators.
+const parseElements = (raw: string, from: number) => {
+  const body = raw.slice(from);
+  const subfile = /(DL|ID)(?=D[A-Z]{2})/.exec(body);
+  if (!subfile) return null;
+
+  const elements: { [elementId: string]: string } = {};
+  const content = body.slice(subfile.index + 2);
+
+  for (const entry of content.split(new RegExp(`[${DATA_ELEMENT_SEPARATOR}${SEGMENT_TERMINATOR}]`))) {
+    const element = entry.replace(/^(DL|ID|Z[A-Z])(?=[A-Z]{3})/, '').trim();
+    const match = /^([A-Z]{3})(.*)$/.exec(element);
+    if (match && !(match[1] in elements)) {
+      elements[match[1]] = match[2].trim();
+    }
+  }
+
+  return { subfileType: subfile[1] as 'DL' | 'ID', elements };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 parseDate                                  */
+//* -------------------------------------------------------------------------- */
+// Version 1 and Canadian issuers use CCYYMMDD, US issuers MMDDCCYY
+const parseDate = (value: string | undefined, version: number, country?: string) => {
+  const digits = value?.replace(/\D/g, '');
+  if (!digits || digits.length !== 8) return undefined;
+
+  const yearFirst = version === 1 || country === 'CAN' || (!country && /^(19|20)/.test(digits) && Number(digits.slice(4, 6)) <= 12);
+  const [year, month, day] = yearFirst
+    ? [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8)]
+    : [digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4)];
+
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+    return undefined;
+  }
+  return `${year}-${month}-${day}`;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  parseSex                                  */
+//* -------------------------------------------------------------------------- */
+const parseSex = (value?: string): AamvaRecord['sex'] => {
+  switch (value?.toUpperCase()) {
+    case '1':
+    case 'M':
+      return 'M';
+    case '2':
+    case 'F':
+      return 'F';
+    case '9':
+    case 'X':
+      return 'X';
+    default:
+      return undefined;
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 parseNames                                 */
+//* -------------------------------------------------------------------------- */
+const parseNames = (elements: AamvaRecord['elements'], version: number) => {
+  const clean = (value?: string) => (value && value !== 'NONE' && value !== 'unavl' ? value : undefined);
+
+  // Version 1: DAA full name "FAMILY,FIRST,MIDDLE" or DAB/DAC/DAD parts
+  if (version === 1 && elements.DAA) {
+    const [family, first, ...middle] = elements.DAA.split(/,|\$/).map((part) => part.trim());
+    return { familyName: clean(family), firstName: clean(first), middleName: clean(middle.join(' ')) };
+  }
+
+  // Version 2: DCT holds all given names, comma or space separated
+  if (version === 2 && elements.DCT) {
+    const [first, ...middle] = elements.DCT.split(/,|\s+/).filter(Boolean);
+    return { familyName: clean(elements.DCS), firstName: clean(first), middleName: clean(middle.join(' ')) };
+  }
+
+  return {
+    familyName: clean(elements.DCS ?? elements.DAB),
+    firstName: clean(elements.DAC ?? elements.DCT),
+    middleName: clean(elements.DAD),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 parseAamva                                 */
+//* -------------------------------------------------------------------------- */
+// Returns null when the payload is not an AAMVA DL/ID barcode
+export const parseAamva = (raw: string): AamvaRecord | null => {
+  const header = parseHeader(raw);
+  if (!header) return null;
+
+  const parsed = parseElements(raw, header.end);
+  if (!parsed) return null;
+
+  const { elements, subfileType } = parsed;
+  const { version } = header;
+  const country = elements.DCG;
+
+  return {
+    version,
+    jurisdictionVersion: header.jurisdictionVersion,
+    issuerId: header.issuerId,
+    subfileType,
+    documentNumber: elements.DAQ,
+    ...parseNames(elements, version),
+    dateOfBirth: parseDate(elements.DBB, version, country),
+    issueDate: parseDate(elements.DBD, version, country),
+    expirationDate: parseDate(elements.DBA, version, country),
+    sex: parseSex(elements.DBC),
+    street: elements.DAG,
+    city: elements.DAI,
+    jurisdiction: elements.DAJ,
+    // US ZIP+4 is padded with zeros when the extension is unknown
+    postalCode: elements.DAK?.replace(/0000$/, '').replace(/\s+$/, ''),
+    country,
+    height: elements.DAU ?? elements.DAV,
+    eyeColor: elements.DAY,
+    vehicleClass: elements.DCA ?? elements.DAR,
+    documentDiscriminator: elements.DCF,
+    elements,
+  };
+};
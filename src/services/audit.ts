@@ -0,0 +1,168 @@
+import { openDatabase, promisify, withStore } from './database';
+import { sortKeys } from '@/lib/canonical';
+
+//* -------------------------------------------------------------------------- */
+//*                               TS: AuditEntry                               */
+//* -------------------------------------------------------------------------- */
+export type AuditEventType =
+  | 'initialized'
+  | 'imagesUploaded'
+  | 'stageCompleted'
+  | 'decision'
+  | 'manualOverride'
+  | 'failed';
+
+// `hash` is the SHA-256 of every other field, `previousHash` the hash of the
+// entry before it, so changing, removing or reordering any entry breaks the
+// chain from that point on
+export interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  type: AuditEventType;
+  verificationId: string;
+  data: { [key: string]: unknown };
+  previousHash: string;
+  hash: string;
+}
+
+// `hashMismatch`: the entry was edited; `brokenLink`: its `previousHash` does
+// not match the entry before it; `missingEntry`: a sequence number is skipped
+export type AuditBreakReason = 'hashMismatch' | 'brokenLink' | 'missingEntry';
+
+export interface AuditBreak {
+  sequence: number;
+  reason: AuditBreakReason;
+  expected: string;
+  actual: string;
+}
+
+// `headHash` pins the whole chain: note it down (or export it) to detect
+// entries later cut off the end, which no link can reveal
+export interface AuditVerification {
+  isValid: boolean;
+  checked: number;
+  headHash: string;
+  breaks: AuditBreak[];
+}
+
+export const AUDIT_EVENT_LABELS: { [type in AuditEventType]: string } = {
+  initialized: 'Verification started',
+  imagesUploaded: 'Images uploaded',
+  stageCompleted: 'Stage completed',
+  decision: 'Decision',
+  manualOverride: 'Manual override',
+  failed: 'Verification failed',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Appends are serialized: each one reads the current head before writing
+let queue: Promise<unknown> = Promise.resolve();
+
+//* -------------------------------------------------------------------------- */
+//*                                  sha256Hex                                 */
+//* -------------------------------------------------------------------------- */
+export const sha256Hex = async (data: BufferSource | Blob): Promise<string> => {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 hashEntry                                  */
+//* -------------------------------------------------------------------------- */
+// The hash covers everything but itself, as JSON with sorted keys so it does
+// not depend on how IndexedDB or an export ordered the properties
+const hashEntry = ({ hash, ...fields }: Omit<AuditEntry, 'hash'> & { hash?: string }) =>
+  sha256Hex(new TextEncoder().encode(JSON.stringify(sortKeys(fields))));
+
+//* -------------------------------------------------------------------------- */
+//*                                  readHead                                  */
+//* -------------------------------------------------------------------------- */
+const readHead = async (): Promise<AuditEntry | null> => {
+  const db = await openDatabase();
+  const cursor = await promisify(db.transaction('audit', 'readonly').objectStore('audit').openCursor(null, 'prev'));
+  return cursor ? (cursor.value as AuditEntry) : null;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              appendAuditEvent                              */
+//* -------------------------------------------------------------------------- */
+// Entries are only ever added: `add` refuses an existing sequence number, so
+// a concurrent writer (another tab) fails instead of forking the chain
+export const appendAuditEvent = (
+  type: AuditEventType,
+  verificationId: string,
+  data: AuditEntry['data'] = {}
+): Promise<AuditEntry> => {
+  const append = async () => {
+    const head = await readHead();
+    const unsigned: Omit<AuditEntry, 'hash'> = {
+      sequence: head ? head.sequence + 1 : 0,
+      timestamp: new Date().toISOString(),
+      type,
+      verificationId,
+      data,
+      previousHash: head?.hash ?? GENESIS_HASH,
+    };
+    const entry: AuditEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+    await withStore('audit', 'readwrite', (store) => store.add(entry));
+    return entry;
+  };
+
+  const result = queue.then(append);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                listAuditLog                                */
+//* -------------------------------------------------------------------------- */
+// Oldest first; optionally only the events of one verification
+export const listAuditLog = async (verificationId?: string): Promise<AuditEntry[]> => {
+  const entries = await withStore<AuditEntry[]>('audit', 'readonly', (store) => store.getAll());
+  return verificationId ? entries.filter((entry) => entry.verificationId === verificationId) : entries;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               verifyAuditLog                               */
+//* -------------------------------------------------------------------------- */
+// Recomputes every hash and link. `entries` defaults to the stored log, so an
+// exported copy can be checked the same way.
+export const verifyAuditLog = async (entries?: AuditEntry[]): Promise<AuditVerification> => {
+  const log = [...(entries ?? (await listAuditLog()))].sort((a, b) => a.sequence - b.sequence);
+  const breaks: AuditBreak[] = [];
+
+  for (const [index, entry] of log.entries()) {
+    const previous = log[index - 1];
+    const expectedSequence = previous ? previous.sequence + 1 : 0;
+    if (entry.sequence !== expectedSequence) {
+      breaks.push({
+        sequence: entry.sequence,
+        reason: 'missingEntry',
+        expected: String(expectedSequence),
+        actual: String(entry.sequence),
+      });
+    }
+
+    const expectedPrevious = previous?.hash ?? GENESIS_HASH;
+    if (entry.previousHash !== expectedPrevious) {
+      breaks.push({ sequence: entry.sequence, reason: 'brokenLink', expected: expectedPrevious, actual: entry.previousHash });
+    }
+
+    const hash = await hashEntry(entry);
+    if (entry.hash !== hash) {
+      breaks.push({ sequence: entry.sequence, reason: 'hashMismatch', expected: hash, actual: entry.hash });
+    }
+  }
+
+  return {
+    isValid: breaks.length === 0,
+    checked: log.length,
+    headHash: log[log.length - 1]?.hash ?? GENESIS_HASH,
+    breaks,
+  };
+};
@@ -0,0 +1,499 @@
+import { VerificationResult } from '@/components/VerificationResults';
+import { CsvValue, parseCsv, toCsv } from '@/lib/csv';
+import { readZip } from '@/lib/zip';
+import {
+  APPLICANT_FIELDS,
+  ApplicantData,
+  ConsistencyField,
+  ConsistencyFieldName,
+  checkApplicant,
+} from './consistency';
+import { PolicySet } from './policy';
+import { TemplateLibraryEntry } from './templateLibrary';
+import { VerificationService } from './verificationService';
+
+//* -------------------------------------------------------------------------- */
+//*                                TS: BatchItem                               */
+//* -------------------------------------------------------------------------- */
+// `paused` items are skipped until resumed; `verificationId` is the audit and
+// history id of the latest attempt
+export type BatchItemStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  path: string;
+  front: File;
+  back: File | null;
+  templateId: string | null;
+  applicant: ApplicantData | null;
+  status: BatchItemStatus;
+  stage: string;
+  progress: number;
+  attempts: number;
+  verificationId: string | null;
+  verifiedAt: string | null;
+  result: VerificationResult | null;
+  applicantCheck: ConsistencyField[] | null;
+  error: string | null;
+}
+
+// One manifest row: `file` and `back` are paths inside the folder or
+// archive (a bare file name is enough when it is unique), `template` is a
+// template library id
+export interface BatchManifestEntry {
+  file: string;
+  back?: string;
+  template?: string;
+  applicant?: ApplicantData;
+}
+
+// `warnings` lists manifest rows and files that could not be used
+export interface BatchPlan {
+  items: BatchItem[];
+  manifest: string | null;
+  warnings: string[];
+}
+
+export interface BatchFile {
+  path: string;
+  file: File;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Each worker loads its own OpenCV and Tesseract, so two is a safe default
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const IMAGE_FILE = /\.(jpe?g|png|webp|bmp|gif)$/i;
+const MANIFEST_FILE = /(^|\/)manifest\.(json|csv)$/i;
+
+//* -------------------------------------------------------------------------- */
+//*                              collectBatchFiles                             */
+//* -------------------------------------------------------------------------- */
+// Files picked from a folder keep their relative path; ZIP archives are
+// expanded in place. System files (macOS metadata, dotfiles) are dropped.
+export const collectBatchFiles = async (files: File[]): Promise<BatchFile[]> => {
+  const collected: BatchFile[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      collected.push(...await readZip(file));
+    } else {
+      collected.push({ path: file.webkitRelativePath || file.name, file });
+    }
+  }
+  return collected.filter(({ path }) => !path.startsWith('__MACOSX/') && !/(^|\/)\./.test(path));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                readManifest                                */
+//* -------------------------------------------------------------------------- */
+// CSV headers are matched loosely, so `fullName`, `full_name` and
+// "Full Name" all work
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const readCsvManifest = (text: string): BatchManifestEntry[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const keys = header.map(headerKey);
+  const column = (row: string[], key: string) => row[keys.indexOf(key.toLowerCase())]?.trim() || undefined;
+
+  return rows.map((row) => {
+    const applicant: ApplicantData = {};
+    for (const field of APPLICANT_FIELDS) {
+      const value = column(row, field);
+      if (value) applicant[field] = value;
+    }
+    return {
+      file: column(row, 'file') ?? '',
+      back: column(row, 'back'),
+      template: column(row, 'template'),
+      applicant,
+    };
+  });
+};
+
+// JSON rows are checked field by field, so a malformed manifest is rejected
+// naming the row instead of queueing items that cannot run
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+const readJsonEntry = (value: unknown, index: number): BatchManifestEntry => {
+  const row = `Row ${index + 1}`;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error(`${row} is not an object`);
+
+  const { file, back, template, applicant } = value as { [key: string]: unknown };
+  if (!isOptionalString(file)) throw new Error(`${row}: "file" must be a path`);
+  if (!isOptionalString(back)) throw new Error(`${row}: "back" must be a path`);
+  if (!isOptionalString(template)) throw new Error(`${row}: "template" must be a template id`);
+  if (applicant !== undefined && applicant !== null) {
+    if (typeof applicant !== 'object' || Array.isArray(applicant)) throw new Error(`${row}: "applicant" must be an object`);
+    for (const [field, declared] of Object.entries(applicant)) {
+      if (!APPLICANT_FIELDS.includes(field as ConsistencyFieldName)) {
+        throw new Error(`${row}: unknown applicant field "${field}"`);
+      }
+      if (typeof declared !== 'string') throw new Error(`${row}: applicant field "${field}" must be text`);
+    }
+  }
+
+  return {
+    file: (file as string | null | undefined) ?? '',
+    back: (back as string | null | undefined) ?? undefined,
+    template: (template as string | null | undefined) ?? undefined,
+    applicant: (applicant as ApplicantData | null | undefined) ?? undefined,
+  };
+};
+
+const readManifest = async ({ path, file }: BatchFile): Promise<BatchManifestEntry[]> => {
+  const text = await file.text();
+  if (/\.csv$/i.test(path)) return readCsvManifest(text);
+
+  const data = JSON.parse(text);
+  const entries = Array.isArray(data) ? data : data?.items;
+  if (!Array.isArray(entries)) throw new Error('Expected an array of entries, or an object with an "items" array');
+  return entries.map(readJsonEntry);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 planBatch                                  */
+//* -------------------------------------------------------------------------- */
+const newItem = (
+  path: string,
+  front: File,
+  entry?: { back?: File | null; templateId?: string | null; applicant?: ApplicantData | null }
+): BatchItem => ({
+  id: crypto.randomUUID(),
+  path,
+  front,
+  back: entry?.back ?? null,
+  templateId: entry?.templateId ?? null,
+  applicant: entry?.applicant && Object.keys(entry.applicant).length > 0 ? entry.applicant : null,
+  status: 'queued',
+  stage: 'Waiting',
+  progress: 0,
+  attempts: 0,
+  verificationId: null,
+  verifiedAt: null,
+  result: null,
+  applicantCheck: null,
+  error: null,
+});
+
+// With a manifest, its rows define the items in order. Without one, every
+// image is the front of its own item.
+export const planBatch = async (files: BatchFile[]): Promise<BatchPlan> => {
+  const images = files
+    .filter(({ path }) => IMAGE_FILE.test(path))
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+  const manifestFile = files.find(({ path }) => MANIFEST_FILE.test(path));
+
+  if (!manifestFile) {
+    return { items: images.map(({ path, file }) => newItem(path, file)), manifest: null, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  let entries: BatchManifestEntry[];
+  try {
+    entries = await readManifest(manifestFile);
+  } catch (error) {
+    throw new Error(`${manifestFile.path} could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Manifest paths are relative to the manifest itself
+  const base = manifestFile.path.slice(0, manifestFile.path.lastIndexOf('/') + 1);
+  const find = (name: string) => {
+    const exact = images.find(({ path }) => path === base + name || path === name);
+    if (exact) return exact;
+    const byName = images.filter(({ path }) => path.slice(path.lastIndexOf('/') + 1) === name);
+    return byName.length === 1 ? byName[0] : undefined;
+  };
+
+  const items: BatchItem[] = [];
+  entries.forEach((entry, index) => {
+    const front = entry.file ? find(entry.file) : undefined;
+    if (!front) {
+      warnings.push(`Row ${index + 1}: ${entry.file ? `${entry.file} was not found` : 'no file given'}`);
+      return;
+    }
+    const back = entry.back ? find(entry.back) : undefined;
+    if (entry.back && !back) warnings.push(`Row ${index + 1}: back image ${entry.back} was not found`);
+
+    items.push(newItem(front.path, front.file, {
+      back: back?.file,
+      templateId: entry.template,
+      applicant: entry.applicant,
+    }));
+  });
+
+  return { items, manifest: manifestFile.path, warnings };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               createBatchCsv                               */
+//* -------------------------------------------------------------------------- */
+const applicantSummary = (item: BatchItem) =>
+  item.applicantCheck
+    ?.map(({ field, status }) => `${field}:${status}`)
+    .join(' ');
+
+const BATCH_CSV_COLUMNS: [string, (item: BatchItem) => CsvValue][] = [
+  ['file', (item) => item.path],
+  ['back_file', (item) => item.back?.name],
+  ['status', (item) => item.status],
+  ['attempts', (item) => item.attempts],
+  ['verification_id', (item) => item.verificationId],
+  ['verified_at', (item) => item.verifiedAt],
+  ['decision', (item) => item.result?.decision.decision],
+  ['rule', (item) => item.result && (item.result.decision.ruleId ?? 'fallback')],
+  ['trust_score', (item) => item.result?.overall.confidence.toFixed(3)],
+  ['risk_level', (item) => item.result?.risk.level],
+  ['reason_codes', (item) => item.result?.risk.reasons.map((reason) => reason.code).join(' ')],
+  ['template', (item) => item.result?.identification.selected?.label ?? item.templateId],
+  ['applicant_check', applicantSummary],
+  ['error', (item) => item.error],
+];
+
+// One row per item, finished or not, so the export accounts for the whole batch
+export const createBatchCsv = (items: BatchItem[]): string => toCsv(BATCH_CSV_COLUMNS, items);
+
+//* -------------------------------------------------------------------------- */
+//*                                 BatchQueue                                 */
+//* -------------------------------------------------------------------------- */
+// `onSettled` fires once per attempt that completes or fails, not for
+// attempts cut short by a pause
+export interface BatchQueueOptions {
+  concurrency: number;
+  policy: PolicySet;
+  templates: TemplateLibraryEntry[];
+  onSettled?: (item: BatchItem) => void;
+}
+
+// Runs batch items through a pool of verification workers, at most
+// `concurrency` at once. The queue starts paused. Pausing a running item
+// terminates its worker, since a pipeline run cannot be interrupted.
+export class BatchQueue {
+
+  private items: BatchItem[];
+  private options: BatchQueueOptions;
+  private isPaused = true;
+  private isDisposed = false;
+  private idle: VerificationService[] = [];
+  private active = new Map<string, string>();
+  private services = new Map<string, VerificationService>();
+  private listeners = new Set<() => void>();
+
+  constructor(items: BatchItem[], options: BatchQueueOptions) {
+    this.items = items;
+    this.options = options;
+  }
+
+  get snapshot(): BatchItem[] {
+    return this.items;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 subscribe                                  */
+  /* -------------------------------------------------------------------------- */
+  // Called after every change; returns the unsubscribe
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(id: string, changes: Partial<BatchItem>) {
+    this.items = this.items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private find(id: string) {
+    return this.items.find((item) => item.id === id);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              Queue controls                                */
+  /* -------------------------------------------------------------------------- */
+  // Running items finish; no new ones start
+  pause() {
+    this.isPaused = true;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  resume() {
+    this.isPaused = false;
+    this.listeners.forEach((listener) => listener());
+    this.pump();
+  }
+
+  setConcurrency(concurrency: number) {
+    this.options.concurrency = Math.min(Math.max(1, Math.round(concurrency)), MAX_BATCH_CONCURRENCY);
+    while (this.idle.length > 0 && this.idle.length + this.active.size > this.options.concurrency) {
+      this.idle.pop()!.cleanup();
+    }
+    this.pump();
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                               Item controls                                */
+  /* -------------------------------------------------------------------------- */
+  pauseItem(id: string) {
+    const item = this.find(id);
+    if (item?.status === 'queued') {
+      this.update(id, { status: 'paused', stage: 'Paused' });
+    }
+    if (item?.status === 'running') {
+      this.active.delete(id);
+      this.services.get(id)?.cleanup();
+      this.services.delete(id);
+      this.update(id, { status: 'paused', stage: 'Paused', progress: 0 });
+      this.pump();
+    }
+  }
+
+  resumeItem(id: string) {
+    if (this.find(id)?.status !== 'paused') return;
+    this.update(id, { status: 'queued', stage: 'Waiting' });
+    this.pump();
+  }
+
+  // Failed items, and finished ones to run them again
+  retryItem(id: string) {
+    const status = this.find(id)?.status;
+    if (status !== 'failed' && status !== 'done') return;
+    this.update(id, { status: 'queued', stage: 'Waiting', progress: 0, error: null });
+    this.pump();
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  dispose                                   */
+  /* -------------------------------------------------------------------------- */
+  // Stops everything and ends all workers; the queue cannot be used after
+  dispose() {
+    this.isDisposed = true;
+    this.active.clear();
+    [...this.idle, ...this.services.values()].forEach((service) => service.cleanup());
+    this.idle = [];
+    this.services.clear();
+    this.listeners.clear();
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    pump                                    */
+  /* -------------------------------------------------------------------------- */
+  private pump() {
+    while (!this.isPaused && !this.isDisposed && this.active.size < this.options.concurrency) {
+      const next = this.items.find((item) => item.status === 'queued');
+      if (!next) return;
+      this.run(next);
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              acquire / release                             */
+  /* -------------------------------------------------------------------------- */
+  private async acquire(): Promise<VerificationService> {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+
+    const service = new VerificationService();
+    try {
+      await service.initialize();
+    } catch (error) {
+      service.cleanup();
+      throw error;
+    }
+    return service;
+  }
+
+  private release(service: VerificationService) {
+    if (this.isDisposed || this.idle.length + this.active.size >= this.options.concurrency) {
+      service.cleanup();
+    } else {
+      this.idle.push(service);
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    run                                     */
+  /* -------------------------------------------------------------------------- */
+  // Each attempt gets a fresh verification id. An attempt whose id is no
+  // longer the item's active one was paused and must not touch the item.
+  private async run(item: BatchItem) {
+    const verificationId = crypto.randomUUID();
+    const isCurrent = () => this.active.get(item.id) === verificationId;
+
+    this.active.set(item.id, verificationId);
+    this.update(item.id, {
+      status: 'running',
+      stage: 'Starting worker…',
+      progress: 0,
+      attempts: item.attempts + 1,
+      verificationId,
+      verifiedAt: null,
+      result: null,
+      applicantCheck: null,
+      error: null,
+    });
+
+    let service: VerificationService | null = null;
+    try {
+      service = await this.acquire();
+      if (!isCurrent()) {
+        this.release(service);
+        return;
+      }
+      this.services.set(item.id, service);
+
+      const templates = item.templateId
+        ? this.options.templates.filter((template) => template.metadata.id === item.templateId)
+        : this.options.templates;
+      if (templates.length === 0) {
+        throw new Error(item.templateId
+          ? `Template ${item.templateId} is not in the library`
+          : 'The template library is empty');
+      }
+
+      const result = await service.verifyDocument(
+        item.front,
+        templates,
+        (stage, progress) => {
+          if (isCurrent()) this.update(item.id, { stage, progress });
+        },
+        { backImage: item.back, policy: this.options.policy, verificationId }
+      );
+      if (!isCurrent()) return;
+
+      this.update(item.id, {
+        status: 'done',
+        stage: 'Done',
+        progress: 100,
+        verifiedAt: new Date().toISOString(),
+        result,
+        applicantCheck: item.applicant ? checkApplicant(result.consistency, item.applicant) : null,
+      });
+    } catch (error) {
+      if (!isCurrent()) return;
+      this.update(item.id, {
+        status: 'failed',
+        stage: 'Failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      if (isCurrent()) {
+        this.active.delete(item.id);
+        if (service) {
+          this.services.delete(item.id);
+          this.release(service);
+        }
+        this.options.onSettled?.(this.find(item.id)!);
+        this.pump();
+      }
+    }
+  }
+
+}
@@ -0,0 +1,149 @@
+import { DocumentDetection, Point } from '@/components/VerificationResults';
+import { QualityCheckId, QualityReport } from './quality';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: FrameAnalysis                             */
+//* -------------------------------------------------------------------------- */
+// What the verification worker reports for one live camera frame
+export interface FrameAnalysis {
+  detection: DocumentDetection;
+  quality: QualityReport;
+}
+
+export type CaptureHint = 'noCard' | 'tooFar' | 'tilted' | 'blurry' | 'glare' | 'tooDark' | 'tooBright';
+
+// Most important first: a missing card makes every other hint moot
+export const CAPTURE_HINTS: { [hint in CaptureHint]: string } = {
+  noCard: 'Place the card inside the frame',
+  tooFar: 'Move closer',
+  tilted: 'Hold the camera parallel to the card',
+  blurry: 'Hold still, the image is blurry',
+  glare: 'Tilt the card away from the light to remove glare',
+  tooDark: 'Too dark, add light',
+  tooBright: 'Too bright, reduce the light',
+};
+
+const QUALITY_HINTS: { [hint in CaptureHint]?: QualityCheckId } = {
+  tooFar: 'framing',
+  blurry: 'focus',
+  glare: 'glare',
+  tooDark: 'underExposure',
+  tooBright: 'overExposure',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+// ISO/IEC 7810 ID-1, the size of ID cards and driving licenses
+export const ID1_ASPECT = 85.6 / 53.98;
+
+const TILT_LIMIT = 8;                 // Degrees a card corner may deviate from square
+const STABLE_MOVEMENT = 0.015;        // Corner drift between frames, as a share of the frame diagonal
+export const DEFAULT_HOLD_MS = 1200;  // How long the frame must stay usable before auto-capture
+
+//* -------------------------------------------------------------------------- */
+//*                                measureTilt                                 */
+//* -------------------------------------------------------------------------- */
+// Largest deviation of a corner angle from 90°. A card photographed at an
+// angle turns into a trapezoid; rotating it within the frame does not count.
+export const measureTilt = (corners: Point[]): number => {
+  return Math.max(
+    ...corners.map((corner, index) => {
+      const previous = corners[(index + 3) % 4];
+      const next = corners[(index + 1) % 4];
+      const a = { x: previous.x - corner.x, y: previous.y - corner.y };
+      const b = { x: next.x - corner.x, y: next.y - corner.y };
+      const cosine = (a.x * b.x + a.y * b.y) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y) || 1);
+      return Math.abs(90 - (Math.acos(Math.max(-1, Math.min(1, cosine))) * 180) / Math.PI);
+    })
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                captureHints                                */
+//* -------------------------------------------------------------------------- */
+// What the user should fix, most important first; empty when the frame is
+// good enough to capture. Checks the policy ignores never produce hints.
+export const captureHints = ({ detection, quality }: FrameAnalysis): CaptureHint[] => {
+  if (!detection.detected) return ['noCard'];
+
+  const failed = new Set(
+    quality.checks.filter((check) => check.action !== 'ignore' && !check.passed).map(({ id }) => id)
+  );
+
+  return (Object.keys(CAPTURE_HINTS) as CaptureHint[]).filter((hint) =>
+    hint === 'tilted'
+      ? measureTilt(detection.corners) > TILT_LIMIT
+      : QUALITY_HINTS[hint] !== undefined && failed.has(QUALITY_HINTS[hint]!)
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               frameMovement                                */
+//* -------------------------------------------------------------------------- */
+// Mean corner displacement between two frames relative to the frame diagonal
+export const frameMovement = (a: DocumentDetection, b: DocumentDetection): number => {
+  const diagonal = Math.hypot(a.imageSize.width, a.imageSize.height) || 1;
+  const total = a.corners.reduce(
+    (sum, corner, index) => sum + Math.hypot(corner.x - b.corners[index].x, corner.y - b.corners[index].y),
+    0
+  );
+  return total / a.corners.length / diagonal;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              StabilityTracker                              */
+//* -------------------------------------------------------------------------- */
+// Tracks how long consecutive frames have been usable and steady. `progress`
+// runs from 0 to 1 over the hold time; any hint or movement restarts it.
+export class StabilityTracker {
+
+  private since: number | null = null;
+  private previous: DocumentDetection | null = null;
+
+  constructor(private readonly holdMs = DEFAULT_HOLD_MS) {}
+
+  update(analysis: FrameAnalysis, now: number): { hints: CaptureHint[]; progress: number; ready: boolean } {
+    const hints = captureHints(analysis);
+    const steady = this.previous !== null && frameMovement(this.previous, analysis.detection) <= STABLE_MOVEMENT;
+    this.previous = analysis.detection;
+
+    if (hints.length > 0) {
+      this.since = null;
+      return { hints, progress: 0, ready: false };
+    }
+    if (!steady || this.since === null) {
+      this.since = now;
+      return { hints, progress: 0, ready: false };
+    }
+
+    const progress = Math.min(1, (now - this.since) / this.holdMs);
+    return { hints, progress, ready: progress >= 1 };
+  }
+
+  reset() {
+    this.since = null;
+    this.previous = null;
+  }
+
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               pickBestFrame                                */
+//* -------------------------------------------------------------------------- */
+// Best frame of a burst: usable frames beat ones with hints, then the
+// sharpest wins (focus is what varies most between frames of a steady burst)
+export const pickBestFrame = <T extends { analysis: FrameAnalysis | null }>(frames: T[]): T | null => {
+  const rank = ({ analysis }: T) => {
+    if (!analysis) return [-1, 0];
+    const focus = analysis.quality.checks.find((check) => check.id === 'focus')?.value ?? 0;
+    return [captureHints(analysis).length === 0 ? 1 : 0, focus];
+  };
+
+  return frames.reduce<T | null>((best, frame) => {
+    if (!best) return frame;
+    const [usable, focus] = rank(frame);
+    const [bestUsable, bestFocus] = rank(best);
+    return usable > bestUsable || (usable === bestUsable && focus > bestFocus) ? frame : best;
+  }, null);
+};
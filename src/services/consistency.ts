@@ -0,0 +1,252 @@
+import { MrzResult } from './mrz';
+import { AamvaRecord } from './aamva';
+import {
+  levenshtein,
+  normalizeDate,
+  normalizeIdNumber,
+  normalizeName,
+  normalizeSex,
+  similarity,
+} from './normalize';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: Consistency                               */
+//* -------------------------------------------------------------------------- */
+export type ConsistencySource = 'ocr' | 'mrz' | 'barcode';
+
+export type ConsistencyFieldName =
+  | 'fullName'
+  | 'dateOfBirth'
+  | 'documentNumber'
+  | 'issueDate'
+  | 'expirationDate'
+  | 'sex';
+
+// `missing` means fewer than two sources carried the field, so there was
+// nothing to compare against
+export type ConsistencyStatus = 'matched' | 'mismatched' | 'missing';
+
+export interface ConsistencyValue {
+  source: ConsistencySource;
+  raw: string;
+  normalized: string;
+}
+
+// `score` is the lowest pairwise similarity between the sources (0-1)
+export interface ConsistencyField {
+  field: ConsistencyFieldName;
+  label: string;
+  status: ConsistencyStatus;
+  values: ConsistencyValue[];
+  score: number;
+}
+
+export interface ConsistencyReport {
+  sources: ConsistencySource[];
+  fields: ConsistencyField[];
+  matched: ConsistencyFieldName[];
+  mismatched: ConsistencyFieldName[];
+  missing: ConsistencyFieldName[];
+}
+
+// OCR values are keyed by template field id (see FIELD_PRESETS)
+export interface ConsistencyInput {
+  extractedData: { [fieldId: string]: { value: string } };
+  mrz?: MrzResult | null;
+  barcode?: AamvaRecord | null;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const NAME_THRESHOLD = 0.8;
+const ID_MAX_EDITS = 1;       // One OCR slip is tolerated in document numbers
+
+const FIELD_LABELS: { [field in ConsistencyFieldName]: string } = {
+  fullName: 'Full Name',
+  dateOfBirth: 'Date of Birth',
+  documentNumber: 'Document Number',
+  issueDate: 'Issue Date',
+  expirationDate: 'Expiration',
+  sex: 'Sex',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 Comparators                                */
+//* -------------------------------------------------------------------------- */
+// Each comparator normalizes one raw value and scores a pair of normalized
+// values; `match` applies the field's fuzzy rule.
+interface Comparator {
+  normalize: (raw: string) => string | null;
+  score: (a: string, b: string) => number;
+  match: (a: string, b: string) => boolean;
+}
+
+// Order-insensitive token matching ("DOE, JOHN" vs "JOHN DOE"). MRZ names are
+// truncated to fit the line, so a token that prefixes the other counts as equal.
+const tokenScore = (token: string, candidates: string[]) =>
+  Math.max(
+    0,
+    ...candidates.map((candidate) =>
+      candidate.startsWith(token) || token.startsWith(candidate)
+        ? 1
+        : similarity(token, candidate)
+    )
+  );
+
+const nameScore = (a: string, b: string) => {
+  const [shorter, longer] = [a.split(' '), b.split(' ')].sort((x, y) => x.length - y.length);
+  if (!shorter[0]) return 0;
+  return shorter.reduce((sum, token) => sum + tokenScore(token, longer), 0) / shorter.length;
+};
+
+const exact = (a: string, b: string) => (a === b ? 1 : 0);
+
+const comparators: { [field in ConsistencyFieldName]: Comparator } = {
+  fullName: {
+    normalize: (raw) => normalizeName(raw).join(' ') || null,
+    score: nameScore,
+    match: (a, b) => nameScore(a, b) >= NAME_THRESHOLD,
+  },
+  dateOfBirth: { normalize: normalizeDate, score: exact, match: (a, b) => a === b },
+  issueDate: { normalize: normalizeDate, score: exact, match: (a, b) => a === b },
+  expirationDate: { normalize: normalizeDate, score: exact, match: (a, b) => a === b },
+  documentNumber: {
+    normalize: (raw) => normalizeIdNumber(raw) || null,
+    score: similarity,
+    match: (a, b) => levenshtein(a, b) <= ID_MAX_EDITS,
+  },
+  sex: { normalize: normalizeSex, score: exact, match: (a, b) => a === b },
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               collectSources                               */
+//* -------------------------------------------------------------------------- */
+type SourceValues = { [field in ConsistencyFieldName]?: string };
+
+const joinName = (...parts: (string | undefined)[]) =>
+  parts.filter(Boolean).join(' ') || undefined;
+
+const fromOcr = (extractedData: ConsistencyInput['extractedData']): SourceValues => {
+  const values: SourceValues = {};
+  for (const field of Object.keys(FIELD_LABELS) as ConsistencyFieldName[]) {
+    const value = extractedData[field]?.value;
+    if (value) values[field] = value;
+  }
+  return values;
+};
+
+// Only fields whose check digit or format check passed are trusted
+const fromMrz = ({ fields }: MrzResult): SourceValues => {
+  const trusted = (field: keyof MrzResult['fields']) =>
+    fields[field].valid && fields[field].value ? fields[field].value : undefined;
+  return {
+    fullName: joinName(trusted('surname'), trusted('givenNames')),
+    dateOfBirth: trusted('dateOfBirth'),
+    documentNumber: trusted('documentNumber'),
+    expirationDate: trusted('expirationDate'),
+    sex: trusted('sex'),
+  };
+};
+
+const fromBarcode = (record: AamvaRecord): SourceValues => ({
+  fullName: joinName(record.familyName, record.firstName, record.middleName),
+  dateOfBirth: record.dateOfBirth,
+  documentNumber: record.documentNumber,
+  issueDate: record.issueDate,
+  expirationDate: record.expirationDate,
+  sex: record.sex,
+});
+
+//* -------------------------------------------------------------------------- */
+//*                               compareField                                 */
+//* -------------------------------------------------------------------------- */
+const compareField = (
+  field: ConsistencyFieldName,
+  sources: [ConsistencySource, SourceValues][]
+): ConsistencyField => {
+  const comparator = comparators[field];
+  const values: ConsistencyValue[] = [];
+
+  for (const [source, sourceValues] of sources) {
+    const raw = sourceValues[field];
+    const normalized = raw ? comparator.normalize(raw) : null;
+    if (raw && normalized) values.push({ source, raw, normalized });
+  }
+
+  if (values.length < 2) {
+    return { field, label: FIELD_LABELS[field], status: 'missing', values, score: 0 };
+  }
+
+  let score = 1;
+  let matched = true;
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      score = Math.min(score, comparator.score(values[i].normalized, values[j].normalized));
+      matched = matched && comparator.match(values[i].normalized, values[j].normalized);
+    }
+  }
+
+  return {
+    field,
+    label: FIELD_LABELS[field],
+    status: matched ? 'matched' : 'mismatched',
+    values,
+    score,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              checkConsistency                              */
+//* -------------------------------------------------------------------------- */
+// Reconciles the holder data read from the printed text, the MRZ and the
+// back-side barcode. Disagreement between sources of the same document is a
+// strong tampering signal; fields seen by a single source are reported missing.
+export const checkConsistency = ({ extractedData, mrz, barcode }: ConsistencyInput): ConsistencyReport => {
+  const sources: [ConsistencySource, SourceValues][] = [['ocr', fromOcr(extractedData)]];
+  if (mrz) sources.push(['mrz', fromMrz(mrz)]);
+  if (barcode) sources.push(['barcode', fromBarcode(barcode)]);
+
+  const fields = (Object.keys(comparators) as ConsistencyFieldName[]).map((field) =>
+    compareField(field, sources)
+  );
+  const withStatus = (status: ConsistencyStatus) =>
+    fields.filter((field) => field.status === status).map(({ field }) => field);
+
+  return {
+    sources: sources.map(([source]) => source),
+    fields,
+    matched: withStatus('matched'),
+    mismatched: withStatus('mismatched'),
+    missing: withStatus('missing'),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               checkApplicant                               */
+//* -------------------------------------------------------------------------- */
+// Holder data declared outside the document, e.g. in a batch manifest
+export type ApplicantData = { [field in ConsistencyFieldName]?: string };
+
+export const APPLICANT_FIELDS = Object.keys(FIELD_LABELS) as ConsistencyFieldName[];
+
+// Compares declared data with every value the document carries for the same
+// field, using the same fuzzy rules as the cross-source check. `missing`
+// means the document gave no readable value to compare against.
+export const checkApplicant = (report: ConsistencyReport, applicant: ApplicantData): ConsistencyField[] =>
+  APPLICANT_FIELDS.filter((field) => applicant[field]?.trim()).map((field) => {
+    const comparator = comparators[field];
+    const declared = comparator.normalize(applicant[field]!);
+    const values = report.fields.find((entry) => entry.field === field)?.values ?? [];
+
+    if (!declared || values.length === 0) {
+      return { field, label: FIELD_LABELS[field], status: 'missing', values, score: 0 };
+    }
+    return {
+      field,
+      label: FIELD_LABELS[field],
+      status: values.every(({ normalized }) => comparator.match(declared, normalized)) ? 'matched' : 'mismatched',
+      values,
+      score: Math.min(...values.map(({ normalized }) => comparator.score(declared, normalized))),
+    };
+  });
@@ -0,0 +1,103 @@
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const DATABASE_NAME = 'id-verification';
+
+export type StoreName = 'templates' | 'policies' | 'settings' | 'history' | 'outcomes' | 'tombstones' | 'audit';
+
+// One entry per schema version; opening runs every migration past the
+// version found on disk, so new stores only ever get appended here
+const migrations: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => db.createObjectStore('templates', { keyPath: 'metadata.id' }),
+  (db) => {
+    db.createObjectStore('policies', { keyPath: ['id', 'version'] });
+    db.createObjectStore('settings', { keyPath: 'key' });
+  },
+  (db) => db.createObjectStore('history', { keyPath: 'id' }).createIndex('createdAt', 'createdAt'),
+  // History records are encrypted, so there is no readable timestamp to index
+  (db, transaction) => transaction.objectStore('history').deleteIndex('createdAt'),
+  // Anonymized outcomes and deletion tombstones carry no PII and stay readable
+  (db) => {
+    db.createObjectStore('outcomes', { keyPath: 'id' });
+    db.createObjectStore('tombstones', { keyPath: 'id' });
+  },
+  (db) => db.createObjectStore('audit', { keyPath: 'sequence' }),
+  // Encrypted history records gained a plaintext creation date for retention
+  (db, transaction) => transaction.objectStore('history').createIndex('createdAt', 'createdAt'),
+];
+
+let connection: Promise<IDBDatabase> | null = null;
+
+//* -------------------------------------------------------------------------- */
+//*                                  promisify                                 */
+//* -------------------------------------------------------------------------- */
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+//* -------------------------------------------------------------------------- */
+//*                                openDatabase                                */
+//* -------------------------------------------------------------------------- */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, migrations.length);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < migrations.length; version++) {
+          migrations[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 withStore                                  */
+//* -------------------------------------------------------------------------- */
+// Runs `action` in its own transaction and resolves once the transaction has
+// committed, so callers never observe a write that could still roll back
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, mode);
+  const result = promisify(action(transaction.objectStore(store)));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  return result;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              withTransaction                               */
+//* -------------------------------------------------------------------------- */
+// Several stores written atomically: `action` queues its requests on the
+// transaction synchronously and this resolves once everything committed
+export const withTransaction = async (
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(stores, mode);
+  action(transaction);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
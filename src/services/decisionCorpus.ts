@@ -0,0 +1,132 @@
+import { VerificationResult } from '@/components/VerificationResults';
+import { matchLabels } from './labelMatcher';
+import { validateFields } from './validation';
+import { checkConsistency } from './consistency';
+import { assessRisk } from './riskScoring';
+import { DEFAULT_POLICY_SET, PolicyDecision, evaluatePolicy } from './policy';
+import { TemplateMetadata } from './templates';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: DecisionCase                              */
+//* -------------------------------------------------------------------------- */
+// OCR lines of one card whose layout, image quality and OCR confidence are
+// all clean, so the printed values alone decide validity and the decision
+export interface DecisionCase {
+  name: string;
+  lines: string[];
+  expected: { isValid: boolean; decision: PolicyDecision };
+}
+
+export interface DecisionFailure {
+  name: string;
+  expected: DecisionCase['expected'];
+  actual: DecisionCase['expected'] & { trustScore: number; reasons: string[] };
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+// Fixed so expiry and age do not drift with the calendar
+const EVALUATED_AT = new Date('2025-06-01T12:00:00');
+
+const METADATA: TemplateMetadata = {
+  id: 'specimen-ca-dl',
+  jurisdiction: 'CA',
+  documentType: 'Driver License',
+  version: '1',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               DECISION_CORPUS                              */
+//* -------------------------------------------------------------------------- */
+// California licenses (ID numbers are one letter and seven digits)
+export const DECISION_CORPUS: DecisionCase[] = [
+  {
+    name: 'Clean specimen',
+    lines: ['DL A1234568', 'NAME JANE DOE', 'DOB 08/31/1977', 'ISS 08/31/2021', 'EXP 08/31/2029', 'SEX F'],
+    expected: { isValid: true, decision: 'accept' },
+  },
+  {
+    name: 'ID number in the wrong format',
+    lines: ['DL 112345678', 'NAME JANE DOE', 'DOB 08/31/1977', 'ISS 08/31/2021', 'EXP 08/31/2029', 'SEX F'],
+    expected: { isValid: false, decision: 'review' },
+  },
+  {
+    name: 'Implausible birth date',
+    lines: ['DL A1234568', 'NAME JANE DOE', 'DOB 08/31/1817', 'ISS 08/31/2021', 'EXP 08/31/2029', 'SEX F'],
+    expected: { isValid: false, decision: 'review' },
+  },
+  {
+    name: 'Unreadable issue date',
+    lines: ['DL A1234568', 'NAME JANE DOE', 'DOB 08/31/1977', 'ISS 31/31/2021', 'EXP 08/31/2029', 'SEX F'],
+    expected: { isValid: false, decision: 'review' },
+  },
+  {
+    name: 'Expired',
+    lines: ['DL A1234568', 'NAME JANE DOE', 'DOB 08/31/1977', 'ISS 08/31/2016', 'EXP 08/31/2024', 'SEX F'],
+    expected: { isValid: false, decision: 'reject' },
+  },
+];
+
+//* -------------------------------------------------------------------------- */
+//*                               decideCase                                   */
+//* -------------------------------------------------------------------------- */
+// Full-page OCR result for the lines, with every signal not read from the
+// printed text at its best
+const decideCase = ({ lines }: DecisionCase) => {
+  const extractedData: VerificationResult['textExtraction']['extractedData'] = {};
+  for (const candidate of lines.flatMap((line) => matchLabels(line))) {
+    extractedData[candidate.id] ??= {
+      label: candidate.label,
+      value: candidate.value,
+      confidence: 0.95,
+      bbox: { x: 0, y: 0, width: 0, height: 0 },
+    };
+  }
+
+  const candidate = { templateId: METADATA.id, label: 'Specimen', metadata: METADATA, confidence: 0.9, isMatch: true };
+  const input = {
+    documentDetection: {
+      detected: true,
+      corners: [{ x: 0, y: 0 }, { x: 856, y: 0 }, { x: 856, y: 540 }, { x: 0, y: 540 }],
+      imageSize: { width: 856, height: 540 },
+      areaRatio: 1,
+      normalizedSize: { width: 856, height: 540 },
+    },
+    quality: { score: 1, checks: [], blocked: false, blocking: [], warnings: [] },
+    identification: { evaluated: 1, candidates: [candidate], selected: candidate },
+    templateMatch: { isMatch: true, confidence: 0.9, details: 'Specimen layout.', method: 'feature' as const },
+    textExtraction: {
+      method: 'fullPage' as const,
+      extractedLabels: Object.values(extractedData).map(({ label }) => label),
+      extractedData,
+      missingRequired: [],
+      confidence: 0.95,
+      details: 'Decision corpus.',
+    },
+    consistency: checkConsistency({ extractedData }),
+    validation: validateFields({ extractedData, metadata: METADATA, now: EVALUATED_AT }),
+  };
+
+  const risk = assessRisk(input);
+  const assessed = { ...input, risk, overall: { isValid: risk.isValid, confidence: risk.score } };
+  return { risk, decision: evaluatePolicy(DEFAULT_POLICY_SET, assessed, EVALUATED_AT).decision };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                           evaluateDecisionCorpus                           */
+//* -------------------------------------------------------------------------- */
+// Cases whose validity or default-policy decision differs from the expected
+export const evaluateDecisionCorpus = (corpus: DecisionCase[] = DECISION_CORPUS): DecisionFailure[] =>
+  corpus.flatMap((entry) => {
+    const { risk, decision } = decideCase(entry);
+    const actual = {
+      isValid: risk.isValid,
+      decision,
+      trustScore: Math.round(risk.score * 100) / 100,
+      reasons: risk.reasons.map((reason) => `${reason.code} (${reason.severity})`),
+    };
+    return actual.isValid === entry.expected.isValid && actual.decision === entry.expected.decision
+      ? []
+      : [{ name: entry.name, expected: entry.expected, actual }];
+  });
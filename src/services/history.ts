@@ -0,0 +1,397 @@
+import { VerificationResult } from '@/components/VerificationResults';
+import { withStore, withTransaction } from './database';
+import { PolicyDecision } from './policy';
+import { RiskLevel } from './riskScoring';
+import { appendAuditEvent, sha256Hex } from './audit';
+import { EncryptedRecord, isSameSeal, openBlob, openJson, sealBlob, sealJson, withVaultWrite } from './vault';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: HistoryEntry                              */
+//* -------------------------------------------------------------------------- */
+// `summary` duplicates the few result values the history list filters on,
+// so listing never has to dig through full results
+export interface HistorySummary {
+  decision: PolicyDecision;
+  trustScore: number;
+  templateLabel: string | null;
+  documentType: string | null;
+  jurisdiction: string | null;
+  name: string | null;
+  documentNumber: string | null;
+}
+
+// An operator's decision replacing the policy decision of a stored result.
+// The reason stays in the sealed entry; the audit log only gets its digest,
+// salted so it cannot be matched against guessed reasons.
+export interface DecisionOverride {
+  decision: PolicyDecision;
+  previous: PolicyDecision;
+  reason: string;
+  reasonSalt: string;
+  overriddenAt: string;
+}
+
+// `id` is also the verification id in the audit log. `thumbnail` is gone once
+// the retention policy has purged the images; `summary.decision` follows the
+// latest override.
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  thumbnail?: Blob;
+  backThumbnail?: Blob;
+  result: VerificationResult;
+  summary: HistorySummary;
+  override?: DecisionOverride;
+}
+
+// `from`/`to` are inclusive local yyyy-mm-dd dates; `query` matches the
+// holder name or document number
+export interface HistoryFilter {
+  decision?: PolicyDecision;
+  from?: string;
+  to?: string;
+  documentType?: string;
+  query?: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                          TS: Outcome / Tombstone                           */
+//* -------------------------------------------------------------------------- */
+// Anonymized statistics written next to every entry. They share nothing with
+// the entry (not even its id) and outlive it, so purges never lose counts.
+export interface OutcomeRecord {
+  id: string;
+  date: string;                       // yyyy-mm-dd, no time of day
+  decision: PolicyDecision;
+  trustScore: number;
+  riskLevel: RiskLevel;
+  documentType: string | null;
+  jurisdiction: string | null;
+}
+
+export type TombstoneScope = 'entry' | 'images';
+export type TombstoneReason = 'retention' | 'manual' | 'subject';
+
+// Audit record of one deletion: what was removed from which entry, and why
+export interface Tombstone {
+  id: string;
+  entryId: string;
+  scope: TombstoneScope;
+  reason: TombstoneReason;
+  deletedAt: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const THUMBNAIL_SIZE = 640;           // Long edge in pixels
+const THUMBNAIL_QUALITY = 0.8;
+
+//* -------------------------------------------------------------------------- */
+//*                              createThumbnail                               */
+//* -------------------------------------------------------------------------- */
+// Downscaled JPEG with the original aspect ratio, so the detection overlay
+// (drawn in original pixel coordinates via viewBox) still lines up
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: THUMBNAIL_QUALITY });
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 summarize                                  */
+//* -------------------------------------------------------------------------- */
+// Printed values first, then whatever the MRZ or barcode carried
+const holderValue = (result: VerificationResult, field: 'fullName' | 'documentNumber') =>
+  result.textExtraction.extractedData[field]?.value ??
+  result.consistency.fields.find((entry) => entry.field === field)?.values[0]?.raw ??
+  null;
+
+const summarize = (result: VerificationResult): HistorySummary => {
+  const selected = result.identification.selected;
+  return {
+    decision: result.decision.decision,
+    trustScore: result.overall.confidence,
+    templateLabel: selected?.label ?? null,
+    documentType: selected?.metadata?.documentType ?? null,
+    jurisdiction: selected?.metadata?.jurisdiction ?? null,
+    name: holderValue(result, 'fullName'),
+    documentNumber: holderValue(result, 'documentNumber'),
+  };
+};
+
+const toOutcome = ({ createdAt, result, summary }: HistoryEntry): OutcomeRecord => ({
+  id: crypto.randomUUID(),
+  date: createdAt.slice(0, 10),
+  decision: summary.decision,
+  trustScore: Math.round(summary.trustScore * 100) / 100,
+  riskLevel: result.risk.level,
+  documentType: summary.documentType,
+  jurisdiction: summary.jurisdiction,
+});
+
+const createTombstone = (entryId: string, scope: TombstoneScope, reason: TombstoneReason): Tombstone => ({
+  id: crypto.randomUUID(),
+  entryId,
+  scope,
+  reason,
+  deletedAt: new Date().toISOString(),
+});
+
+//* -------------------------------------------------------------------------- */
+//*                             seal / open entry                              */
+//* -------------------------------------------------------------------------- */
+// Entries are stored as vault records: the result, summary and timestamp are
+// one sealed JSON part, each thumbnail its own sealed part
+type LegacyHistoryEntry = HistoryEntry;
+
+// The creation date is also kept in plaintext, so retention can purge while
+// the vault is locked. Records sealed before that lack it until dated.
+interface HistoryRecord extends EncryptedRecord {
+  createdAt?: string;
+}
+
+const isEncrypted = (record: HistoryRecord | LegacyHistoryEntry): record is HistoryRecord => 'parts' in record;
+
+const sealEntry = async ({ id, thumbnail, backThumbnail, ...rest }: HistoryEntry): Promise<HistoryRecord> => {
+  const parts: EncryptedRecord['parts'] = { entry: await sealJson(rest) };
+  if (thumbnail) parts.thumbnail = await sealBlob(thumbnail);
+  if (backThumbnail) parts.backThumbnail = await sealBlob(backThumbnail);
+  return { id, createdAt: rest.createdAt, parts };
+};
+
+const openEntry = async ({ id, parts }: EncryptedRecord): Promise<HistoryEntry> => ({
+  id,
+  ...(await openJson<Omit<HistoryEntry, 'id' | 'thumbnail' | 'backThumbnail'>>(parts.entry)),
+  thumbnail: parts.thumbnail ? await openBlob(parts.thumbnail) : undefined,
+  backThumbnail: parts.backThumbnail ? await openBlob(parts.backThumbnail) : undefined,
+});
+
+//* -------------------------------------------------------------------------- */
+//*                              addHistoryEntry                               */
+//* -------------------------------------------------------------------------- */
+// Throws VaultLockedError while the vault is locked or not set up. The
+// anonymized outcome is written in the same transaction. Pass the
+// verification id used for the audit log to link both.
+export const addHistoryEntry = async (
+  result: VerificationResult,
+  idImage: Blob,
+  backImage?: Blob | null,
+  id: string = crypto.randomUUID()
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id,
+    createdAt: new Date().toISOString(),
+    thumbnail: await createThumbnail(idImage),
+    backThumbnail: backImage ? await createThumbnail(backImage) : undefined,
+    result,
+    summary: summarize(result),
+  };
+  await withVaultWrite(async () => {
+    const record = await sealEntry(entry);
+    await withTransaction(['history', 'outcomes'], 'readwrite', (transaction) => {
+      transaction.objectStore('history').add(record);
+      transaction.objectStore('outcomes').add(toOutcome(entry));
+    });
+  });
+  return entry;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                listHistory                                 */
+//* -------------------------------------------------------------------------- */
+const compact = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const matchesFilter = ({ createdAt, summary }: HistoryEntry, filter: HistoryFilter) => {
+  const created = new Date(createdAt);
+  const query = filter.query ? compact(filter.query) : '';
+
+  return (
+    (!filter.decision || summary.decision === filter.decision) &&
+    (!filter.documentType || summary.documentType === filter.documentType) &&
+    (!filter.from || created >= new Date(`${filter.from}T00:00:00`)) &&
+    (!filter.to || created <= new Date(`${filter.to}T23:59:59.999`)) &&
+    (!query || [summary.name, summary.documentNumber].some((value) => value && compact(value).includes(query)))
+  );
+};
+
+// Newest first. Nothing the filter looks at is readable on disk, so
+// filtering happens after decryption.
+export const listHistory = async (filter: HistoryFilter = {}): Promise<HistoryEntry[]> => {
+  const records = await withStore<EncryptedRecord[]>('history', 'readonly', (store) => store.getAll());
+  const entries = await Promise.all(records.filter(isEncrypted).map(openEntry));
+  return entries
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .filter((entry) => matchesFilter(entry, filter));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              getHistoryEntry                               */
+//* -------------------------------------------------------------------------- */
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | null> => {
+  const record = await withStore<EncryptedRecord | undefined>('history', 'readonly', (store) => store.get(id));
+  return record && isEncrypted(record) ? openEntry(record) : null;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                          overrideHistoryDecision                           */
+//* -------------------------------------------------------------------------- */
+export const digestOverrideReason = ({ reason, reasonSalt }: DecisionOverride) =>
+  sha256Hex(new TextEncoder().encode(`${reasonSalt}:${reason}`));
+
+// The override is logged to the audit chain before the entry changes, so no
+// stored decision differs from the log without a trace. The log is not
+// encrypted, so it gets the reason digest and never the text.
+// Only the sealed entry part is replaced, in a transaction that re-reads the
+// record: thumbnails purged meanwhile stay purged, and an entry deleted or
+// changed meanwhile is not written back.
+export const overrideHistoryDecision = async (
+  id: string,
+  decision: PolicyDecision,
+  reason: string
+): Promise<HistoryEntry> => {
+  const read = await withStore<HistoryRecord | LegacyHistoryEntry | undefined>('history', 'readonly', (store) =>
+    store.get(id)
+  );
+  if (!read || !isEncrypted(read)) throw new Error('Verification not found');
+  if (!reason.trim()) throw new Error('An override needs a reason');
+  const entry = await openJson<Omit<HistoryEntry, 'id' | 'thumbnail' | 'backThumbnail'>>(read.parts.entry);
+
+  const override: DecisionOverride = {
+    decision,
+    previous: entry.summary.decision,
+    reason: reason.trim(),
+    reasonSalt: crypto.randomUUID(),
+    overriddenAt: new Date().toISOString(),
+  };
+  await appendAuditEvent('manualOverride', id, {
+    from: override.previous,
+    to: decision,
+    reasonDigest: await digestOverrideReason(override),
+  });
+
+  let written = null as HistoryRecord | null;
+  await withVaultWrite(async () => {
+    const sealed = await sealJson({ ...entry, override, summary: { ...entry.summary, decision } });
+    await withTransaction(['history'], 'readwrite', (transaction) => {
+      const store = transaction.objectStore('history');
+      store.get(id).onsuccess = (event) => {
+        const current = (event.target as IDBRequest<HistoryRecord | LegacyHistoryEntry | undefined>).result;
+        if (!current || !isEncrypted(current) || !isSameSeal(current.parts.entry, read.parts.entry)) {
+          return transaction.abort();
+        }
+        written = { ...current, parts: { ...current.parts, entry: sealed } };
+        store.put(written);
+      };
+    }).catch((error) => {
+      if (written) throw error;
+    });
+  });
+  if (!written) throw new Error('The verification was deleted or changed in the meantime');
+  return openEntry(written);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             deleteHistoryEntry                             */
+//* -------------------------------------------------------------------------- */
+// Every deletion leaves a tombstone, written atomically with it
+export const deleteHistoryEntry = async (id: string, reason: TombstoneReason = 'manual'): Promise<void> => {
+  await withTransaction(['history', 'tombstones'], 'readwrite', (transaction) => {
+    transaction.objectStore('history').delete(id);
+    transaction.objectStore('tombstones').add(createTombstone(id, 'entry', reason));
+  });
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             purgeHistoryImages                             */
+//* -------------------------------------------------------------------------- */
+// Drops the sealed thumbnails and keeps the rest of the entry. Works without
+// the vault key, since every part is sealed separately.
+export const purgeHistoryImages = async (id: string, reason: TombstoneReason = 'retention'): Promise<boolean> => {
+  let purged = false;
+  await withTransaction(['history', 'tombstones'], 'readwrite', (transaction) => {
+    const history = transaction.objectStore('history');
+    history.get(id).onsuccess = (event) => {
+      const record = (event.target as IDBRequest<HistoryRecord | LegacyHistoryEntry | undefined>).result;
+      if (!record || !isEncrypted(record) || !(record.parts.thumbnail || record.parts.backThumbnail)) return;
+
+      const { thumbnail, backThumbnail, ...parts } = record.parts;
+      history.put({ ...record, parts });
+      transaction.objectStore('tombstones').add(createTombstone(id, 'images', reason));
+      purged = true;
+    };
+  });
+  return purged;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                          listHistoryCreatedBefore                          */
+//* -------------------------------------------------------------------------- */
+// Ids of the entries created at or before `date`, read from the plaintext
+// dates without the vault key. Undated records are not included.
+export const listHistoryCreatedBefore = (date: Date): Promise<string[]> =>
+  withStore('history', 'readonly', (store) =>
+    store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(date.toISOString()))
+  ) as Promise<string[]>;
+
+//* -------------------------------------------------------------------------- */
+//*                             dateHistoryRecords                             */
+//* -------------------------------------------------------------------------- */
+// Copies the sealed creation date of records stored before it was kept in
+// plaintext. Needs the vault unlocked; returns how many records were dated.
+export const dateHistoryRecords = async (): Promise<number> => {
+  const records = await withStore<(HistoryRecord | LegacyHistoryEntry)[]>('history', 'readonly', (store) =>
+    store.getAll()
+  );
+  const undated = records.filter((record): record is HistoryRecord => isEncrypted(record) && !record.createdAt);
+  for (const { id, parts } of undated) {
+    const { createdAt } = await openJson<Pick<HistoryEntry, 'createdAt'>>(parts.entry);
+    await withTransaction(['history'], 'readwrite', (transaction) => {
+      const store = transaction.objectStore('history');
+      store.get(id).onsuccess = (event) => {
+        const current = (event.target as IDBRequest<HistoryRecord | undefined>).result;
+        if (current && isSameSeal(current.parts.entry, parts.entry)) store.put({ ...current, createdAt });
+      };
+    });
+  }
+  return undated.length;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                          listOutcomes / Tombstones                         */
+//* -------------------------------------------------------------------------- */
+export const listOutcomes = async (): Promise<OutcomeRecord[]> => {
+  const outcomes = await withStore<OutcomeRecord[]>('outcomes', 'readonly', (store) => store.getAll());
+  return outcomes.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// Newest first
+export const listTombstones = async (): Promise<Tombstone[]> => {
+  const tombstones = await withStore<Tombstone[]>('tombstones', 'readonly', (store) => store.getAll());
+  return tombstones.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                           encryptLegacyHistory                             */
+//* -------------------------------------------------------------------------- */
+// Entries saved before the vault existed were stored in plaintext; sealing
+// them right after the vault is created leaves no readable record behind
+export const encryptLegacyHistory = async (): Promise<number> => {
+  const records = await withStore<(HistoryRecord | LegacyHistoryEntry)[]>('history', 'readonly', (store) =>
+    store.getAll()
+  );
+  const legacy = records.filter((record): record is LegacyHistoryEntry => !isEncrypted(record));
+  for (const entry of legacy) {
+    await withVaultWrite(async () => {
+      const record = await sealEntry(entry);
+      await withTransaction(['history', 'outcomes'], 'readwrite', (transaction) => {
+        transaction.objectStore('history').put(record);
+        transaction.objectStore('outcomes').add(toOutcome(entry));
+      });
+    });
+  }
+  return legacy.length;
+};
@@ -0,0 +1,130 @@
+import { LabelDefinition, LABEL_DEFINITIONS, matchLabels } from './labelMatcher';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: CorpusEntry                               */
+//* -------------------------------------------------------------------------- */
+// One line of raw Tesseract output and the labels (by id) it really contains,
+// with the value expected after each. Lines without labels guard against
+// false positives.
+export interface CorpusEntry {
+  line: string;
+  expected: { [labelId: string]: string };
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                LABEL_CORPUS                                */
+//* -------------------------------------------------------------------------- */
+// Tesseract 5 (eng, LSTM) output on specimen US licenses and ID cards. The
+// first groups isolate one difficulty each; the noisy captures are whole
+// lines from phone photos, stray marks and all, and are not expected to
+// score perfectly. Expected values are what is printed on the card.
+export const LABEL_CORPUS: CorpusEntry[] = [
+  // Clean labels
+  { line: 'DL 11234568', expected: { documentNumber: '11234568' } },
+  { line: 'DOB 08/31/1977', expected: { dateOfBirth: '08/31/1977' } },
+  { line: 'EXP 08/31/2014', expected: { expirationDate: '08/31/2014' } },
+  { line: 'ISS 08/31/2009', expected: { issueDate: '08/31/2009' } },
+  { line: 'SEX F HGT 5-05" WGT 125 lb', expected: { sex: 'F', height: '5-05"', weight: '125 lb' } },
+  { line: 'CLASS C', expected: { vehicleClass: 'C' } },
+  { line: 'Date of Birth: 12 JAN 1980', expected: { dateOfBirth: '12 JAN 1980' } },
+  { line: 'Document Number: X4RTBPFW4', expected: { documentNumber: 'X4RTBPFW4' } },
+  { line: 'Expires: 2031-03-14', expected: { expirationDate: '2031-03-14' } },
+
+  // OCR confusions in the label
+  { line: 'D0B 01/07/1973', expected: { dateOfBirth: '01/07/1973' } },
+  { line: 'DOB: O3/15/1985', expected: { dateOfBirth: 'O3/15/1985' } },
+  { line: '1SS 06/12/2019', expected: { issueDate: '06/12/2019' } },
+  { line: 'EXP: 02/2O/2027', expected: { expirationDate: '02/2O/2027' } },
+  { line: '5EX M', expected: { sex: 'M' } },
+  { line: 'Oate of Birth 05.11.1990', expected: { dateOfBirth: '05.11.1990' } },
+  { line: 'Expiratlon Date 10/01/2028', expected: { expirationDate: '10/01/2028' } },
+  { line: 'Licen5e Number: D1234567', expected: { documentNumber: 'D1234567' } },
+  { line: 'DL:I1234562', expected: { documentNumber: 'I1234562' } },
+  { line: 'DL99999999', expected: { documentNumber: '99999999' } },
+  { line: 'Adress 2570 24TH STREET', expected: { address: '2570 24TH STREET' } },
+
+  // Several labels on one line
+  { line: '4b EXP 08/31/2014 4a ISS 08/31/2009', expected: { expirationDate: '08/31/2014', issueDate: '08/31/2009' } },
+  { line: '15 SEX F 16 HGT 5-05" 17 WGT 125 lb', expected: { sex: 'F', height: '5-05"', weight: '125 lb' } },
+  { line: 'DOB 08/31/1977 SEX F', expected: { dateOfBirth: '08/31/1977', sex: 'F' } },
+
+  // Noisy captures
+  { line: '4d DL l1234568 |', expected: { documentNumber: 'l1234568' } },
+  { line: '| DL 11234568 |', expected: { documentNumber: '11234568' } },
+  { line: '3 DOB. 08/3l/1977 ‘', expected: { dateOfBirth: '08/3l/1977' } },
+  { line: '4b EXP 08/31/2014 ~ 4a ISS 08/31/2009', expected: { expirationDate: '08/31/2014', issueDate: '08/31/2009' } },
+  { line: 'D08 02/14/1985', expected: { dateOfBirth: '02/14/1985' } },
+  { line: 'D0B: 08/31/1977 ,', expected: { dateOfBirth: '08/31/1977' } },
+  { line: 'Sex:F Hgt:5\'-05" Wgt:125lb', expected: { sex: 'F', height: '5\'-05"', weight: '125lb' } },
+  { line: 'IS5 O6/12/2019 EXPlRES O6/12/2O27', expected: { issueDate: 'O6/12/2019', expirationDate: 'O6/12/2O27' } },
+  { line: 'DATE 0F BIRTH 12 JAN 1980', expected: { dateOfBirth: '12 JAN 1980' } },
+  { line: 'HGT 5\'-10" WGT 180 1b', expected: { height: '5\'-10"', weight: '180 1b' } },
+  { line: 'SEX F EYES BRN HAIR BRN', expected: { sex: 'F' } },
+  { line: '9 CLASS C 9a END NONE', expected: { vehicleClass: 'C' } },
+  { line: 'NAME: SAMPLE, JANE Q', expected: { fullName: 'SAMPLE, JANE Q' } },
+  { line: 'Na me SAMPLE JANE', expected: { fullName: 'SAMPLE JANE' } },
+  { line: '8 2570 24TH STREET', expected: {} },
+  { line: "— DL# X1234567 '", expected: { documentNumber: 'X1234567' } },
+
+  // Short patterns inside ordinary words must not match
+  { line: 'SACRAMENTO, CA 95818', expected: {} },
+  { line: 'ANYTOWN STATEMENT OF RESIDENCY', expected: {} },
+  { line: 'DLN DEPARTMENT OF MOTOR VEHICLES', expected: {} },
+  { line: 'WHITEHALL HTS BLVD', expected: {} },
+  { line: 'EXPRESSWAY 155', expected: {} },
+  { line: 'MISSISSIPPI', expected: {} },
+  { line: 'DONOR VETERAN', expected: {} },
+  { line: '1551 WESTWOOD DR', expected: {} },
+  { line: 'IMA CARDHOLDER', expected: {} },
+  { line: 'RSTR NONE END NONE', expected: {} },
+];
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: CorpusEvaluation                            */
+//* -------------------------------------------------------------------------- */
+export interface CorpusEvaluation {
+  precision: number;
+  recall: number;
+  valueAccuracy: number;
+  failures: { line: string; expected: CorpusEntry['expected']; actual: CorpusEntry['expected'] }[];
+}
+
+//* -------------------------------------------------------------------------- */
+//*                            evaluateLabelMatcher                            */
+//* -------------------------------------------------------------------------- */
+// Runs the matcher over the corpus: precision/recall over label ids and the
+// share of correctly found labels whose value is also right
+export const evaluateLabelMatcher = (
+  corpus: CorpusEntry[] = LABEL_CORPUS,
+  definitions: LabelDefinition[] = LABEL_DEFINITIONS
+): CorpusEvaluation => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correctValues = 0;
+  const failures: CorpusEvaluation['failures'] = [];
+
+  for (const { line, expected } of corpus) {
+    const actual = Object.fromEntries(
+      matchLabels(line, definitions).map((candidate) => [candidate.id, candidate.value])
+    );
+
+    const found = Object.keys(actual);
+    const wanted = Object.keys(expected);
+    const hits = found.filter((id) => id in expected);
+    truePositives += hits.length;
+    falsePositives += found.length - hits.length;
+    falseNegatives += wanted.filter((id) => !(id in actual)).length;
+    correctValues += hits.filter((id) => actual[id] === expected[id]).length;
+
+    const exact = found.length === wanted.length && hits.every((id) => actual[id] === expected[id]);
+    if (!exact) failures.push({ line, expected, actual });
+  }
+
+  return {
+    precision: truePositives + falsePositives ? truePositives / (truePositives + falsePositives) : 1,
+    recall: truePositives + falseNegatives ? truePositives / (truePositives + falseNegatives) : 1,
+    valueAccuracy: truePositives ? correctValues / truePositives : 1,
+    failures,
+  };
+};
@@ -0,0 +1,175 @@
+import { levenshtein } from './normalize';
+
+//* -------------------------------------------------------------------------- */
+//*                             TS: LabelDefinition                            */
+//* -------------------------------------------------------------------------- */
+// `id` matches the template editor presets so full-page and zonal OCR key
+// their data the same way
+export interface LabelDefinition {
+  id: string;
+  label: string;
+  patterns: string[];
+}
+
+// `start`/`end` are character offsets of the label in the line; `value` is
+// whatever follows it on the same line (may be empty)
+export interface LabelCandidate {
+  id: string;
+  label: string;
+  pattern: string;
+  score: number;
+  start: number;
+  end: number;
+  value: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                 Settings                                   */
+//* -------------------------------------------------------------------------- */
+export const LABEL_DEFINITIONS: LabelDefinition[] = [
+  { id: 'fullName', label: 'Name', patterns: ['name', 'first name', 'last name', 'full name'] },
+  { id: 'dateOfBirth', label: 'Date of Birth', patterns: ['date of birth', 'dob', 'birth date', 'born'] },
+  { id: 'documentNumber', label: 'ID Number', patterns: ['id number', 'license number', 'document number', 'dl', 'lic no', 'id no'] },
+  { id: 'address', label: 'Address', patterns: ['address', 'street', 'residence'] },
+  { id: 'city', label: 'City', patterns: ['city'] },
+  { id: 'state', label: 'State', patterns: ['state', 'province'] },
+  { id: 'postalCode', label: 'ZIP Code', patterns: ['zip', 'postal code', 'zip code'] },
+  { id: 'sex', label: 'Sex', patterns: ['sex', 'gender'] },
+  { id: 'height', label: 'Height', patterns: ['height', 'hgt', 'ht'] },
+  { id: 'weight', label: 'Weight', patterns: ['weight', 'wgt', 'wt'] },
+  { id: 'issueDate', label: 'Issue Date', patterns: ['issue date', 'issued', 'iss', 'date of issue'] },
+  { id: 'expirationDate', label: 'Expiration', patterns: ['expiration date', 'expires', 'exp', 'date of expiry'] },
+  { id: 'vehicleClass', label: 'Class', patterns: ['class', 'license class'] },
+];
+
+export const MIN_LABEL_SCORE = 0.6;
+
+// AAMVA field numbers (1-18, 4a-4d, 9a) as they trail a value before the next label
+const FIELD_NUMBER = /\s+(?:1[0-8]|[1-9]|4[a-d]|9a)$/i;
+
+// Characters Tesseract confuses on ID fonts, folded to one representative
+const CONFUSIONS: { [char: string]: string } = {
+  '0': 'o', 'q': 'o',
+  '1': 'l', 'i': 'l', '|': 'l', '!': 'l',
+  '5': 's', '$': 's',
+  '8': 'b',
+  '2': 'z',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  tokenize                                  */
+//* -------------------------------------------------------------------------- */
+interface Token {
+  text: string;
+  folded: string;
+  start: number;
+  end: number;
+}
+
+const fold = (text: string) =>
+  text.toLowerCase().replace(/./g, (char) => CONFUSIONS[char] ?? char);
+
+// Runs of letters, digits and OCR look-alike symbols; everything else
+// (spaces, colons, slashes, dots) is a boundary. A label glued to its value
+// ("DL12345678") is split where the letters end and the digits begin.
+const tokenize = (line: string): Token[] =>
+  Array.from(line.matchAll(/[\p{L}\p{N}|!$]+/gu)).flatMap((match) => {
+    const start = match.index!;
+    const glued = /^(\p{L}{2,})(\d{3,})$/u.exec(match[0]);
+    const parts = glued ? [glued[1], glued[2]] : [match[0]];
+
+    let offset = start;
+    return parts.map((part) => {
+      const token = { text: part, folded: fold(part), start: offset, end: offset + part.length };
+      offset += part.length;
+      return token;
+    });
+  });
+
+//* -------------------------------------------------------------------------- */
+//*                                allowedEdits                                */
+//* -------------------------------------------------------------------------- */
+// Short abbreviations ("dl", "ht", "exp") must match exactly once folded,
+// otherwise they turn up inside ordinary words and numbers
+const allowedEdits = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+//* -------------------------------------------------------------------------- */
+//*                                scoreTokens                                 */
+//* -------------------------------------------------------------------------- */
+// Similarity of a run of line tokens to a pattern, 0 when beyond tolerance.
+// Longer patterns, labels at the start of the line and labels followed by a
+// colon are more likely to be real labels, and a misspelt label is only
+// accepted in one of those positions ("RESIDENCY" in running text is not
+// "residence"). Mostly-digit runs are values ("155" folds to "lss"), never labels.
+const scoreTokens = (tokens: Token[], pattern: string, line: string, isFirst: boolean) => {
+  const original = tokens.map((token) => token.text).join('');
+  if ((original.match(/\p{L}/gu)?.length ?? 0) * 2 < original.length) return 0;
+
+  const folded = fold(pattern.replace(/\s+/g, ''));
+  const text = tokens.map((token) => token.folded).join('');
+  const edits = levenshtein(text, folded);
+  if (edits > allowedEdits(folded.length)) return 0;
+
+  const after = line.slice(tokens[tokens.length - 1].end).trimStart();
+  const separated = /^[:.#-]/.test(after) ? 1 : 0;
+  if (edits > 0 && !separated && !isFirst) return 0;
+
+  const similarity = 1 - edits / Math.max(text.length, folded.length);
+  const specificity = Math.min(1, folded.length / 6);
+
+  return similarity * (0.7 + 0.15 * specificity + 0.1 * separated + 0.05 * (isFirst ? 1 : 0));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 matchLabels                                */
+//* -------------------------------------------------------------------------- */
+// Every label candidate found in one OCR line, best first. A candidate must
+// start and end on token boundaries and match a pattern within the allowed
+// number of edits. One candidate is kept per label: the earliest, since a
+// later occurrence is usually part of a value ("2570 24TH STREET").
+export const matchLabels = (
+  line: string,
+  definitions: LabelDefinition[] = LABEL_DEFINITIONS
+): LabelCandidate[] => {
+  const tokens = tokenize(line);
+  const best = new Map<string, LabelCandidate>();
+
+  for (const { id, label, patterns } of definitions) {
+    for (const pattern of patterns) {
+      const length = pattern.split(/\s+/).length;
+
+      for (let i = 0; i + length <= tokens.length; i++) {
+        const run = tokens.slice(i, i + length);
+        const score = scoreTokens(run, pattern, line, i === 0);
+        if (score < MIN_LABEL_SCORE) continue;
+
+        const current = best.get(id);
+        const start = run[0].start;
+        if (current && (current.start < start || (current.start === start && current.score >= score))) continue;
+
+        best.set(id, { id, label, pattern, score, start, end: run[run.length - 1].end, value: '' });
+      }
+    }
+  }
+
+  // Overlapping candidates ("license class" vs "class") keep the best one
+  const ranked = [...best.values()].sort((a, b) => b.score - a.score);
+  const candidates = ranked.filter((candidate, index) =>
+    ranked
+      .slice(0, index)
+      .every((other) => candidate.end <= other.start || candidate.start >= other.end)
+  );
+
+  // A value runs up to the next label on the same line ("DOB 01/02/1980 SEX M"),
+  // minus the AAMVA field number printed in front of that label ("4a ISS")
+  for (const candidate of candidates) {
+    const next = Math.min(
+      line.length,
+      ...candidates.filter((other) => other.start >= candidate.end).map((other) => other.start)
+    );
+    const value = line.slice(candidate.end, next).replace(/^[\s:.#-]+/, '').trim();
+    candidate.value = next < line.length ? value.replace(FIELD_NUMBER, '').trim() : value;
+  }
+
+  return candidates;
+};
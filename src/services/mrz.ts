@@ -0,0 +1,222 @@
+//* -------------------------------------------------------------------------- */
+//*                                  TS: Mrz                                   */
+//* -------------------------------------------------------------------------- */
+// ICAO 9303 machine-readable zone formats: TD1 (ID cards, 3x30), TD2 (2x36)
+// and TD3 (passports, 2x44).
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+// `valid` is the check digit result for fields that carry one, otherwise a
+// format check of the field contents.
+export interface MrzField {
+  value: string;
+  valid: boolean;
+}
+
+export interface MrzResult {
+  format: MrzFormat;
+  lines: string[];
+  fields: {
+    documentType: MrzField;
+    issuingCountry: MrzField;
+    documentNumber: MrzField;
+    nationality: MrzField;
+    dateOfBirth: MrzField;      // ISO yyyy-mm-dd
+    sex: MrzField;              // M, F or X
+    expirationDate: MrzField;   // ISO yyyy-mm-dd
+    surname: MrzField;
+    givenNames: MrzField;
+    optionalData: MrzField;
+  };
+  compositeValid: boolean;
+  valid: boolean;
+}
+
+export const MRZ_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789<';
+
+const LINE_LENGTHS: { [format in MrzFormat]: number } = { TD1: 30, TD2: 36, TD3: 44 };
+
+//* -------------------------------------------------------------------------- */
+//*                                 checkDigit                                 */
+//* -------------------------------------------------------------------------- */
+// 7-3-1 weighted sum mod 10; digits count as-is, A-Z as 10-35 and '<' as 0
+export const checkDigit = (input: string): number => {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    let value = 0;
+    if (char >= '0' && char <= '9') value = char.charCodeAt(0) - 48;
+    else if (char >= 'A' && char <= 'Z') value = char.charCodeAt(0) - 55;
+    sum += value * weights[i % 3];
+  }
+  return sum % 10;
+};
+
+const isCheckValid = (input: string, digit: string) =>
+  /^[0-9]$/.test(digit) && checkDigit(input) === Number(digit);
+
+//* -------------------------------------------------------------------------- */
+//*                              OCR corrections                               */
+//* -------------------------------------------------------------------------- */
+// OCR-B look-alikes, applied only where the field type is known
+const TO_DIGIT: { [char: string]: string } = { O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8' };
+const TO_LETTER: { [char: string]: string } = { '0': 'O', '1': 'I', '2': 'Z', '5': 'S', '6': 'G', '8': 'B' };
+
+const asDigits = (value: string) => value.replace(/[A-Z]/g, (c) => TO_DIGIT[c] ?? c);
+const asLetters = (value: string) => value.replace(/[0-9]/g, (c) => TO_LETTER[c] ?? c);
+
+//* -------------------------------------------------------------------------- */
+//*                              normalizeMrzLines                             */
+//* -------------------------------------------------------------------------- */
+// Cleans raw OCR lines and pads/trims them to the closest ICAO line length.
+// Returns null when the lines cannot be an MRZ.
+export const normalizeMrzLines = (text: string): { format: MrzFormat; lines: string[] } | null => {
+  const candidates = text
+    .toUpperCase()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, '').replace(/[«‹]/g, '<').replace(/[^A-Z0-9<]/g, ''))
+    .filter((line) => line.length >= 25 && line.includes('<'));
+
+  let format: MrzFormat | null = null;
+  let lines: string[] = [];
+
+  if (candidates.length >= 3) {
+    format = 'TD1';
+    lines = candidates.slice(-3);
+  } else if (candidates.length === 2) {
+    const length = Math.max(...candidates.map((line) => line.length));
+    format = length > 40 ? 'TD3' : 'TD2';
+    lines = candidates;
+  }
+  if (!format) return null;
+
+  const length = LINE_LENGTHS[format];
+  return {
+    format,
+    lines: lines.map((line) => line.slice(0, length).padEnd(length, '<')),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 field helpers                              */
+//* -------------------------------------------------------------------------- */
+const clean = (value: string) => value.replace(/<+$/, '').replace(/</g, ' ').trim();
+
+const countryField = (value: string): MrzField => {
+  const code = asLetters(value);
+  return { value: clean(code), valid: /^[A-Z<]{3}$/.test(code) && code[0] !== '<' };
+};
+
+const dateField = (raw: string, digit: string, kind: 'birth' | 'expiry'): MrzField => {
+  const value = asDigits(raw);
+  const valid = isCheckValid(value, asDigits(digit));
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return { value: '', valid: false };
+
+  const [, yy, mm, dd] = match;
+  const currentYear = new Date().getFullYear() % 100;
+  // Birth dates are never in the future; expiry dates are at most a few
+  // decades ahead, so anything past +50 years belongs to the previous century
+  const century = kind === 'birth'
+    ? (Number(yy) > currentYear ? 1900 : 2000)
+    : (Number(yy) > currentYear + 50 ? 1900 : 2000);
+
+  const month = Number(mm);
+  const day = Number(dd);
+  const plausible = month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+  return { value: `${century + Number(yy)}-${mm}-${dd}`, valid: valid && plausible };
+};
+
+const documentNumberField = (number: string, digit: string, overflow: string): MrzField => {
+  // Numbers longer than 9 characters put '<' in the check digit position and
+  // continue in the optional data, ending with the real check digit
+  if (digit === '<' && overflow.length > 0) {
+    const rest = overflow.split('<')[0];
+    const full = number + rest.slice(0, -1);
+    return { value: clean(full), valid: isCheckValid(full, rest.slice(-1)) };
+  }
+  return { value: clean(number), valid: isCheckValid(number, asDigits(digit)) };
+};
+
+const namesFields = (raw: string) => {
+  const [surname, ...rest] = asLetters(raw).split('<<');
+  const givenNames = rest.join('<<');
+  return {
+    surname: { value: clean(surname), valid: /^[A-Z<]+$/.test(surname) && surname.length > 0 },
+    givenNames: { value: clean(givenNames), valid: /^[A-Z<]*$/.test(givenNames) },
+  };
+};
+
+const sexField = (raw: string): MrzField => {
+  const value = raw === '<' ? 'X' : raw;
+  return { value, valid: ['M', 'F', 'X'].includes(value) };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  parseMrz                                  */
+//* -------------------------------------------------------------------------- */
+export const parseMrz = (format: MrzFormat, lines: string[]): MrzResult => {
+  let fields: MrzResult['fields'];
+  let compositeValid: boolean;
+
+  if (format === 'TD1') {
+    const [line1, line2, line3] = lines;
+    fields = {
+      documentType: { value: clean(line1.slice(0, 2)), valid: /^[A-Z]/.test(line1) },
+      issuingCountry: countryField(line1.slice(2, 5)),
+      documentNumber: documentNumberField(line1.slice(5, 14), line1[14], line1.slice(15, 30)),
+      optionalData: { value: clean(line1.slice(15, 30)), valid: true },
+      dateOfBirth: dateField(line2.slice(0, 6), line2[6], 'birth'),
+      sex: sexField(line2[7]),
+      expirationDate: dateField(line2.slice(8, 14), line2[14], 'expiry'),
+      nationality: countryField(line2.slice(15, 18)),
+      ...namesFields(line3),
+    };
+    const composite = line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29);
+    compositeValid = isCheckValid(composite, asDigits(line2[29]));
+  } else {
+    const [line1, line2] = lines;
+    const isTD3 = format === 'TD3';
+    const optionalEnd = isTD3 ? 42 : 35;
+
+    fields = {
+      documentType: { value: clean(line1.slice(0, 2)), valid: /^[A-Z]/.test(line1) },
+      issuingCountry: countryField(line1.slice(2, 5)),
+      ...namesFields(line1.slice(5)),
+      documentNumber: documentNumberField(line2.slice(0, 9), line2[9], isTD3 ? '' : line2.slice(28, 35)),
+      nationality: countryField(line2.slice(10, 13)),
+      dateOfBirth: dateField(line2.slice(13, 19), line2[19], 'birth'),
+      sex: sexField(line2[20]),
+      expirationDate: dateField(line2.slice(21, 27), line2[27], 'expiry'),
+      // TD3 optional data is the personal number with its own check digit
+      optionalData: isTD3
+        ? {
+            value: clean(line2.slice(28, 42)),
+            valid: line2[42] === '<'
+              ? /^<+$/.test(line2.slice(28, 42))
+              : isCheckValid(line2.slice(28, 42), asDigits(line2[42])),
+          }
+        : { value: clean(line2.slice(28, optionalEnd)), valid: true },
+    };
+    const lastIndex = isTD3 ? 43 : 35;
+    const composite = line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, lastIndex);
+    compositeValid = isCheckValid(composite, asDigits(line2[lastIndex]));
+  }
+
+  return {
+    format,
+    lines,
+    fields,
+    compositeValid,
+    valid: compositeValid && Object.values(fields).every((field) => field.valid),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  readMrz                                   */
+//* -------------------------------------------------------------------------- */
+export const readMrz = (text: string): MrzResult | null => {
+  const normalized = normalizeMrzLines(text);
+  return normalized ? parseMrz(normalized.format, normalized.lines) : null;
+};
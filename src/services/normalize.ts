@@ -0,0 +1,118 @@
+//* -------------------------------------------------------------------------- */
+//*                                levenshtein                                 */
+//* -------------------------------------------------------------------------- */
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for completely different ones
+export const similarity = (a: string, b: string) =>
+  a.length || b.length ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 1;
+
+//* -------------------------------------------------------------------------- */
+//*                               normalizeName                                */
+//* -------------------------------------------------------------------------- */
+// Uppercase ASCII tokens: diacritics stripped, punctuation and MRZ fillers
+// turned into spaces ("O'Brien-Smith, José" -> ["O", "BRIEN", "SMITH", "JOSE"])
+export const normalizeName = (value: string): string[] =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+//* -------------------------------------------------------------------------- */
+//*                              normalizeIdNumber                             */
+//* -------------------------------------------------------------------------- */
+// Letters and marks Tesseract reads in place of digits (uppercase input)
+const foldDigitLookalikes = (value: string): string =>
+  value
+    .replace(/[OQD]/g, '0')
+    .replace(/[IL|]/g, '1')
+    .replace(/S/g, '5')
+    .replace(/B/g, '8')
+    .replace(/Z/g, '2');
+
+// Alphanumerics only, with OCR look-alikes folded together so "O1234S" and
+// "01234S" compare equal
+export const normalizeIdNumber = (value: string): string =>
+  foldDigitLookalikes(value.toUpperCase().replace(/[^A-Z0-9]/g, ''));
+
+//* -------------------------------------------------------------------------- */
+//*                                 normalizeSex                               */
+//* -------------------------------------------------------------------------- */
+export const normalizeSex = (value: string): string | null => {
+  const code = value.trim().toUpperCase();
+  if (/^(M|MALE|1)$/.test(code)) return 'M';
+  if (/^(F|FEMALE|2)$/.test(code)) return 'F';
+  if (/^(X|<|9)$/.test(code)) return 'X';
+  return null;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                normalizeDate                               */
+//* -------------------------------------------------------------------------- */
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Parses the date styles printed on IDs into ISO yyyy-mm-dd:
+// YYYY-MM-DD, MM/DD/YYYY (US), DD.MM.YYYY (EU), DD/MM/YYYY when the first
+// part cannot be a month, and month names ("12 JAN 1980", "JAN 12, 1980").
+// Look-alikes are folded in numeric parts only ("O3/15/1985", "08/3l/1977"),
+// so month names are left intact.
+export const normalizeDate = (value: string): string | null => {
+  const text = value
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[^\s,]+/g, (part) =>
+      /\d/.test(part) && /^[\dOQDILSBZ|./-]+$/.test(part) ? foldDigitLookalikes(part) : part
+    );
+
+  let match = /(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(text);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = /(\d{1,2})([-/.])(\d{1,2})\2(\d{4})/.exec(text);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const year = Number(match[4]);
+    const dayFirst = match[2] === '.' || first > 12;
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  const monthPattern = MONTHS.join('|');
+  match = new RegExp(`(\\d{1,2}) ?(${monthPattern})[A-Z]* ?,? ?(\\d{4})`).exec(text);
+  if (match) return toIsoDate(Number(match[3]), MONTHS.indexOf(match[2]) + 1, Number(match[1]));
+
+  match = new RegExp(`(${monthPattern})[A-Z]* ?(\\d{1,2}),? ?(\\d{4})`).exec(text);
+  if (match) return toIsoDate(Number(match[3]), MONTHS.indexOf(match[1]) + 1, Number(match[2]));
+
+  return null;
+};
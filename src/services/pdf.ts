@@ -0,0 +1,219 @@
+//* -------------------------------------------------------------------------- */
+//*                                  TS: Pdf                                   */
+//* -------------------------------------------------------------------------- */
+// Baseline JPEG bytes with their pixel size; embedded as-is (DCTDecode)
+export interface PdfImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+// Average Helvetica glyph width in em, slightly generous so wrapped lines
+// never overflow
+const AVERAGE_GLYPH_WIDTH = 0.53;
+
+// Typographic characters outside Latin-1 that WinAnsi still covers
+const WIN_ANSI_EXTRAS: { [char: string]: number } = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+const format = (value: number) => Number(value.toFixed(2)).toString();
+
+// PDF literal string in WinAnsi; anything the standard fonts cannot show
+// becomes "?"
+const toPdfString = (text: string) => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const isLatin1 = (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff);
+    const ch = String.fromCharCode(WIN_ANSI_EXTRAS[char] ?? (isLatin1 ? code : 0x3f));
+    encoded += ch === '(' || ch === ')' || ch === '\\' ? `\\${ch}` : ch;
+  }
+  return `(${encoded})`;
+};
+
+// Every string written is already one byte per character
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+export const measureText = (text: string, size: number) => text.length * size * AVERAGE_GLYPH_WIDTH;
+
+// Greedy word wrap to `width` points; words longer than a line are split
+export const wrapText = (text: string, size: number, width: number): string[] => {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_GLYPH_WIDTH)));
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    let rest = word;
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 PdfWriter                                  */
+//* -------------------------------------------------------------------------- */
+// Just enough PDF 1.4 for reports: A4 pages, Helvetica text, JPEG images
+// and lines. Coordinates are in points from the top-left.
+export class PdfWriter {
+
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+  private current = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  addPage                                   */
+  /* -------------------------------------------------------------------------- */
+  // New pages are appended and become the current page
+  addPage() {
+    this.current = this.pages.push([]) - 1;
+  }
+
+  // Back to an earlier page, e.g. for "page x of n" footers
+  goToPage(index: number) {
+    this.current = index;
+  }
+
+  private draw(operators: string) {
+    this.pages[this.current].push(operators);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    text                                    */
+  /* -------------------------------------------------------------------------- */
+  // `y` is the baseline
+  text(text: string, x: number, y: number, { size = 10, bold = false, color = [0, 0, 0] }: PdfTextOptions = {}) {
+    this.draw(
+      `BT /${bold ? 'F2' : 'F1'} ${format(size)} Tf ${color.map(format).join(' ')} rg ` +
+      `${format(x)} ${format(PDF_PAGE_HEIGHT - y)} Td ${toPdfString(text)} Tj ET`
+    );
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   image                                    */
+  /* -------------------------------------------------------------------------- */
+  image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    let index = this.images.indexOf(image);
+    if (index < 0) index = this.images.push(image) - 1;
+    this.draw(
+      `q ${format(width)} 0 0 ${format(height)} ${format(x)} ${format(PDF_PAGE_HEIGHT - y - height)} cm /Im${index} Do Q`
+    );
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                    line                                    */
+  /* -------------------------------------------------------------------------- */
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0.8, 0.8, 0.8]) {
+    this.draw(
+      `${color.map(format).join(' ')} RG 0.5 w ${format(x1)} ${format(PDF_PAGE_HEIGHT - y1)} m ` +
+      `${format(x2)} ${format(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   toBlob                                   */
+  /* -------------------------------------------------------------------------- */
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then the images, then a page
+  // and its content stream per page
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? latin1(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPage + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.images.forEach((image, index) => {
+      object(
+        firstImage + index,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`,
+        image.bytes
+      );
+    });
+
+    const xObjects = this.images.map((_, index) => `/Im${index} ${firstImage + index} 0 R`).join(' ');
+    this.pages.forEach((operators, index) => {
+      const content = latin1(operators.join('\n'));
+      object(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> ` +
+        `/Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      object(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const xref = length;
+    const size = firstPage + this.pages.length * 2;
+    write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+    for (let id = 1; id < size; id++) {
+      write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+
+}
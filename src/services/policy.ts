@@ -0,0 +1,349 @@
+import { VerificationResult } from '@/components/VerificationResults';
+
+//* -------------------------------------------------------------------------- */
+//*                                TS: Policy                                  */
+//* -------------------------------------------------------------------------- */
+export type PolicyDecision = 'accept' | 'review' | 'reject';
+
+export type PolicyOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'between' | 'in' | 'includes' | 'exists';
+
+export type PolicyValue = string | number | boolean | null | (string | number)[];
+
+// Conditions nest with all/any/not; leaves compare one fact. `between` takes
+// [min, max] and matches min <= fact < max; `in` matches a fact found in the
+// value list; `includes` matches a list fact containing the value.
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { fact: PolicyFactName; op: PolicyOperator; value?: PolicyValue };
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  when: PolicyCondition;
+  decision: PolicyDecision;
+}
+
+// Rules run in order and the first match decides; `fallback` applies when
+// none matches. Saved versions are immutable, so a recorded (id, version)
+// always identifies the exact rules that produced a decision.
+export interface PolicySet {
+  id: string;
+  version: number;
+  name: string;
+  description?: string;
+  fallback: PolicyDecision;
+  rules: PolicyRule[];
+}
+
+// `ruleId` is null when the fallback decided
+export interface PolicyOutcome {
+  decision: PolicyDecision;
+  policyId: string;
+  policyVersion: number;
+  ruleId: string | null;
+  explanation: string;
+  evaluatedAt: string;
+}
+
+export const DECISION_LABELS: { [decision in PolicyDecision]: string } = {
+  accept: 'Accept',
+  review: 'Manual Review',
+  reject: 'Reject',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                PolicyError                                 */
+//* -------------------------------------------------------------------------- */
+// `path` points at the offending part of the policy JSON ("rules[2].when.op")
+export class PolicyError extends Error {
+  readonly path: string;
+
+  constructor(message: string, path = '') {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'PolicyError';
+    this.path = path;
+  }
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                   Facts                                    */
+//* -------------------------------------------------------------------------- */
+// Flat view of a result that rules are written against; keeping rules off the
+// raw result shape lets the result evolve without breaking saved policies
+export const POLICY_FACTS = {
+  riskScore: 'Weighted trust score, 0-1',
+  riskLevel: 'Risk level: low, medium or high',
+  reasonCodes: 'Codes of every risk reason raised (list)',
+  criticalReasons: 'Number of critical risk reasons',
+  templateScore: 'Lowest layout match confidence of the captured sides against the best template, 0-1',
+  templateMatched: 'Whether every captured side matched the best template',
+  missingSides: 'Sides the template requires that were not captured (list)',
+  documentType: 'Document type of the identified template',
+  jurisdiction: 'Jurisdiction of the identified template',
+  qualityScore: 'Lowest image quality score of the captured sides, 0-1',
+  qualityWarnings: 'Ids of the quality checks that warned on any side (list)',
+  ocrConfidence: 'OCR confidence, 0-1',
+  fieldsRead: 'Number of fields read from the printed text',
+  missingRequired: 'Number of required template fields not read',
+  validationErrors: 'Codes of failed field validations (list)',
+  expired: 'Whether the document is expired (null when unknown)',
+  age: 'Holder age in years (null when unknown)',
+  consistencyMismatches: 'Fields that differ between sources (list)',
+  mrzValid: 'Whether every MRZ check digit passed (null without MRZ)',
+  barcodeDecoded: 'Whether the back-side barcode was parsed (null without back image)',
+} as const;
+
+export type PolicyFactName = keyof typeof POLICY_FACTS;
+
+export type PolicyFacts = { [fact in PolicyFactName]: PolicyValue };
+
+// Side-level checks roll up to the document: the weakest side counts
+export const policyFacts = (result: Omit<VerificationResult, 'decision'>): PolicyFacts => {
+  const metadata = result.identification.selected?.metadata;
+  const sides = result.sides ?? [];
+  const captured = [
+    { templateMatch: result.templateMatch, quality: result.quality },
+    ...sides.flatMap((side) => (side.provided && side.side !== 'front' ? [side] : [])),
+  ];
+  return {
+    riskScore: result.risk.score,
+    riskLevel: result.risk.level,
+    reasonCodes: result.risk.reasons.map((reason) => reason.code),
+    criticalReasons: result.risk.reasons.filter((reason) => reason.severity === 'critical').length,
+    templateScore: Math.min(...captured.map((side) => side.templateMatch.confidence)),
+    templateMatched: captured.every((side) => side.templateMatch.isMatch),
+    missingSides: sides.filter((side) => !side.provided).map((side) => side.side),
+    documentType: metadata?.documentType ?? null,
+    jurisdiction: metadata?.jurisdiction ?? null,
+    qualityScore: Math.min(...captured.map((side) => side.quality.score)),
+    qualityWarnings: [...new Set(captured.flatMap((side) => side.quality.warnings))],
+    ocrConfidence: result.textExtraction.confidence,
+    fieldsRead: result.textExtraction.extractedLabels.length,
+    missingRequired: result.textExtraction.missingRequired.length,
+    validationErrors: result.validation.issues
+      .filter((issue) => issue.severity === 'error')
+      .map((issue) => issue.code),
+    expired: result.validation.expired,
+    age: result.validation.age,
+    consistencyMismatches: result.consistency.mismatched,
+    mrzValid: result.mrz ? result.mrz.valid : null,
+    barcodeDecoded: result.barcode ? Boolean(result.barcode.aamva) : null,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             DEFAULT_POLICY_SET                             */
+//* -------------------------------------------------------------------------- */
+export const DEFAULT_POLICY_SET: PolicySet = {
+  id: 'default',
+  version: 1,
+  name: 'Default policy',
+  description: 'Built-in policy used until another one is activated.',
+  fallback: 'review',
+  rules: [
+    {
+      id: 'expired',
+      description: 'Expired documents are rejected',
+      when: { fact: 'expired', op: 'eq', value: true },
+      decision: 'reject',
+    },
+    {
+      id: 'source-mismatch',
+      description: 'Printed text, MRZ or barcode disagree',
+      when: { fact: 'consistencyMismatches', op: 'exists' },
+      decision: 'reject',
+    },
+    {
+      id: 'no-layout-match',
+      description: 'Layout does not resemble any template',
+      when: { fact: 'templateScore', op: 'lt', value: 0.4 },
+      decision: 'reject',
+    },
+    {
+      id: 'weak-layout-match',
+      description: 'Layout match is inconclusive',
+      when: { fact: 'templateScore', op: 'between', value: [0.4, 0.6] },
+      decision: 'review',
+    },
+    {
+      id: 'critical-reason',
+      description: 'Any other critical risk reason',
+      when: { fact: 'criticalReasons', op: 'gt', value: 0 },
+      decision: 'review',
+    },
+    {
+      id: 'low-risk',
+      description: 'Low-risk results are accepted',
+      when: { all: [{ fact: 'riskLevel', op: 'eq', value: 'low' }, { fact: 'riskScore', op: 'gte', value: 0.7 }] },
+      decision: 'accept',
+    },
+  ],
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               parsePolicySet                               */
+//* -------------------------------------------------------------------------- */
+const DECISIONS: PolicyDecision[] = ['accept', 'review', 'reject'];
+const OPERATORS: PolicyOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'between', 'in', 'includes', 'exists'];
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkCondition = (condition: unknown, path: string): PolicyCondition => {
+  if (!isObject(condition)) throw new PolicyError('condition must be an object', path);
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    const list = condition[key];
+    if (!Array.isArray(list) || !list.length) throw new PolicyError(`"${key}" must be a non-empty list`, path);
+    return { [key]: list.map((child, i) => checkCondition(child, `${path}.${key}[${i}]`)) } as PolicyCondition;
+  }
+  if ('not' in condition) return { not: checkCondition(condition.not, `${path}.not`) };
+
+  const { fact, op, value } = condition;
+  if (typeof fact !== 'string' || !(fact in POLICY_FACTS)) throw new PolicyError(`unknown fact "${fact}"`, `${path}.fact`);
+  if (!OPERATORS.includes(op as PolicyOperator)) throw new PolicyError(`unknown operator "${op}"`, `${path}.op`);
+  if (op === 'between' && !(Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'number'))) {
+    throw new PolicyError('"between" needs [min, max]', `${path}.value`);
+  }
+  if (op === 'in' && !Array.isArray(value)) throw new PolicyError('"in" needs a list', `${path}.value`);
+  if (op !== 'exists' && value === undefined) throw new PolicyError('value is required', `${path}.value`);
+
+  return { fact: fact as PolicyFactName, op: op as PolicyOperator, value: value as PolicyValue };
+};
+
+// Validates untrusted JSON (editor input, imported files) into a policy set.
+// `version` may be omitted for drafts; it is assigned when the set is saved.
+export const parsePolicySet = (json: string | unknown): PolicySet => {
+  let data: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new PolicyError(`invalid JSON (${error instanceof Error ? error.message : 'parse error'})`);
+    }
+  }
+  if (!isObject(data)) throw new PolicyError('policy must be an object');
+
+  const { id, version = 0, name, description, fallback, rules } = data;
+  if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) throw new PolicyError('id must be lowercase letters, digits and dashes', 'id');
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) throw new PolicyError('version must be a whole number', 'version');
+  if (typeof name !== 'string' || !name.trim()) throw new PolicyError('name is required', 'name');
+  if (description !== undefined && typeof description !== 'string') throw new PolicyError('description must be text', 'description');
+  if (!DECISIONS.includes(fallback as PolicyDecision)) throw new PolicyError(`fallback must be one of ${DECISIONS.join(', ')}`, 'fallback');
+  if (!Array.isArray(rules)) throw new PolicyError('rules must be a list', 'rules');
+
+  const ruleIds = new Set<string>();
+  const checkedRules = rules.map((rule, i): PolicyRule => {
+    const path = `rules[${i}]`;
+    if (!isObject(rule)) throw new PolicyError('rule must be an object', path);
+    if (typeof rule.id !== 'string' || !rule.id) throw new PolicyError('id is required', `${path}.id`);
+    if (ruleIds.has(rule.id)) throw new PolicyError(`duplicate rule id "${rule.id}"`, `${path}.id`);
+    if (!DECISIONS.includes(rule.decision as PolicyDecision)) throw new PolicyError(`decision must be one of ${DECISIONS.join(', ')}`, `${path}.decision`);
+    ruleIds.add(rule.id);
+
+    return {
+      id: rule.id,
+      description: typeof rule.description === 'string' ? rule.description : '',
+      when: checkCondition(rule.when, `${path}.when`),
+      decision: rule.decision as PolicyDecision,
+    };
+  });
+
+  return {
+    id,
+    version,
+    name: name.trim(),
+    description: description as string | undefined,
+    fallback: fallback as PolicyDecision,
+    rules: checkedRules,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              matchesCondition                              */
+//* -------------------------------------------------------------------------- */
+const matchesCondition = (condition: PolicyCondition, facts: PolicyFacts): boolean => {
+  if ('all' in condition) return condition.all.every((child) => matchesCondition(child, facts));
+  if ('any' in condition) return condition.any.some((child) => matchesCondition(child, facts));
+  if ('not' in condition) return !matchesCondition(condition.not, facts);
+
+  const fact = facts[condition.fact];
+  const { value } = condition;
+
+  switch (condition.op) {
+    case 'exists':
+      return Array.isArray(fact) ? fact.length > 0 : fact !== null && fact !== undefined;
+    case 'eq':
+      return fact === value;
+    case 'neq':
+      return fact !== value;
+    case 'in':
+      return Array.isArray(value) && (typeof fact === 'string' || typeof fact === 'number') && value.includes(fact);
+    case 'includes':
+      return Array.isArray(fact) && (typeof value === 'string' || typeof value === 'number') && fact.includes(value);
+    case 'between': {
+      const [min, max] = value as [number, number];
+      return typeof fact === 'number' && fact >= min && fact < max;
+    }
+    default: {
+      if (typeof fact !== 'number' || typeof value !== 'number') return false;
+      const comparisons = { lt: fact < value, lte: fact <= value, gt: fact > value, gte: fact >= value };
+      return comparisons[condition.op];
+    }
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               evaluatePolicy                               */
+//* -------------------------------------------------------------------------- */
+export const evaluatePolicy = (
+  policy: PolicySet,
+  result: Omit<VerificationResult, 'decision'>,
+  now = new Date()
+): PolicyOutcome => {
+  const facts = policyFacts(result);
+  const rule = policy.rules.find((candidate) => matchesCondition(candidate.when, facts));
+
+  return {
+    decision: rule?.decision ?? policy.fallback,
+    policyId: policy.id,
+    policyVersion: policy.version,
+    ruleId: rule?.id ?? null,
+    explanation: rule ? rule.description || `Rule ${rule.id}` : 'No rule matched; the policy fallback applies.',
+    evaluatedAt: now.toISOString(),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                dryRunPolicy                                */
+//* -------------------------------------------------------------------------- */
+export interface PolicyDryRun {
+  total: number;
+  counts: { [decision in PolicyDecision]: number };
+  rules: { [ruleId: string]: number };      // '' counts fallback decisions
+  changed: { index: number; previous: PolicyOutcome | null; next: PolicyOutcome }[];
+}
+
+// Re-evaluates past results under a candidate policy without touching them;
+// `changed` lists results whose decision would differ from the recorded one
+export const dryRunPolicy = (policy: PolicySet, results: VerificationResult[]): PolicyDryRun => {
+  const dryRun: PolicyDryRun = {
+    total: results.length,
+    counts: { accept: 0, review: 0, reject: 0 },
+    rules: {},
+    changed: [],
+  };
+
+  results.forEach((result, index) => {
+    const next = evaluatePolicy(policy, result);
+    const previous = result.decision ?? null;
+    dryRun.counts[next.decision]++;
+    dryRun.rules[next.ruleId ?? ''] = (dryRun.rules[next.ruleId ?? ''] ?? 0) + 1;
+    if (previous?.decision !== next.decision) dryRun.changed.push({ index, previous, next });
+  });
+
+  return dryRun;
+};
@@ -0,0 +1,71 @@
+import { withStore } from './database';
+import { DEFAULT_POLICY_SET, PolicySet } from './policy';
+
+//* -------------------------------------------------------------------------- */
+//*                           TS: PolicyLibraryEntry                           */
+//* -------------------------------------------------------------------------- */
+export interface PolicyLibraryEntry extends PolicySet {
+  savedAt: string;
+}
+
+interface ActivePolicySetting {
+  key: 'activePolicy';
+  id: string;
+  version: number;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                listPolicies                                */
+//* -------------------------------------------------------------------------- */
+// Every saved version, grouped by policy id with the newest version first
+export const listPolicies = async (): Promise<PolicyLibraryEntry[]> => {
+  const entries = await withStore<PolicyLibraryEntry[]>('policies', 'readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.id.localeCompare(b.id) || b.version - a.version);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 getPolicy                                  */
+//* -------------------------------------------------------------------------- */
+export const getPolicy = async (id: string, version: number): Promise<PolicyLibraryEntry | null> =>
+  (await withStore<PolicyLibraryEntry | undefined>('policies', 'readonly', (store) => store.get([id, version]))) ?? null;
+
+//* -------------------------------------------------------------------------- */
+//*                             savePolicyVersion                              */
+//* -------------------------------------------------------------------------- */
+// Versions are never overwritten: saving always appends the next version of
+// the policy id, so past decisions keep pointing at the rules that made them.
+// Edits of the built-in policy continue after its version.
+export const savePolicyVersion = async (policy: PolicySet): Promise<PolicyLibraryEntry> => {
+  const versions = (await listPolicies()).filter((entry) => entry.id === policy.id);
+  const builtIn = policy.id === DEFAULT_POLICY_SET.id ? DEFAULT_POLICY_SET.version : 0;
+  const entry: PolicyLibraryEntry = {
+    ...policy,
+    version: Math.max(builtIn, ...versions.map((entry) => entry.version)) + 1,
+    savedAt: new Date().toISOString(),
+  };
+  await withStore('policies', 'readwrite', (store) => store.add(entry));
+  return entry;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              getActivePolicy                               */
+//* -------------------------------------------------------------------------- */
+// Falls back to the built-in policy until one is activated
+export const getActivePolicy = async (): Promise<PolicySet> => {
+  const setting = await withStore<ActivePolicySetting | undefined>('settings', 'readonly', (store) =>
+    store.get('activePolicy')
+  );
+  return (setting && (await getPolicy(setting.id, setting.version))) || DEFAULT_POLICY_SET;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              setActivePolicy                               */
+//* -------------------------------------------------------------------------- */
+// `null` goes back to the built-in policy
+export const setActivePolicy = async (policy: { id: string; version: number } | null): Promise<void> => {
+  await withStore('settings', 'readwrite', (store) =>
+    policy
+      ? store.put({ key: 'activePolicy', id: policy.id, version: policy.version } satisfies ActivePolicySetting)
+      : store.delete('activePolicy')
+  );
+};
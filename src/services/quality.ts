@@ -0,0 +1,195 @@
+import { DocumentSide } from './templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                TS: Quality                                 */
+//* -------------------------------------------------------------------------- */
+export type QualityCheckId =
+  | 'focus'
+  | 'glare'
+  | 'underExposure'
+  | 'overExposure'
+  | 'resolution'
+  | 'noise'
+  | 'framing';
+
+// Raw measurements taken on the photo and the normalized card
+export interface QualityMeasurements {
+  focus: number;          // Variance of the Laplacian
+  glare: number;          // Share of near-saturated pixels (0-1)
+  brightness: number;     // Mean luminance (0-255)
+  dpi: number;            // Estimated scan resolution of the card
+  noise: number;          // Estimated noise sigma (0-255 scale)
+  framing: number;        // Card area over photo area (0-1), 0 when no card was found
+}
+
+// `block` stops verification, `warn` only reports, `ignore` skips the check
+export type QualityAction = 'block' | 'warn' | 'ignore';
+
+export interface QualityRule {
+  threshold: number;
+  action: QualityAction;
+}
+
+export type QualityPolicy = { [check in QualityCheckId]: QualityRule };
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  label: string;
+  value: number;
+  threshold: number;
+  action: QualityAction;
+  passed: boolean;
+  score: number;
+  details: string;
+}
+
+// `score` averages the per-check scores (0-1) of every check not ignored
+export interface QualityReport {
+  score: number;
+  checks: QualityCheck[];
+  blocked: boolean;
+  blocking: QualityCheckId[];
+  warnings: QualityCheckId[];
+}
+
+//* -------------------------------------------------------------------------- */
+//*                            defaultQualityPolicy                            */
+//* -------------------------------------------------------------------------- */
+// Only an out-of-focus card blocks by default: OCR and template matching are
+// meaningless on it, while the other issues merely lower confidence.
+export const defaultQualityPolicy: QualityPolicy = {
+  focus: { threshold: 100, action: 'block' },
+  glare: { threshold: 0.03, action: 'warn' },
+  underExposure: { threshold: 60, action: 'warn' },
+  overExposure: { threshold: 210, action: 'warn' },
+  resolution: { threshold: 150, action: 'warn' },
+  noise: { threshold: 10, action: 'warn' },
+  framing: { threshold: 0.2, action: 'warn' },
+};
+
+export const resolveQualityPolicy = (overrides: Partial<QualityPolicy> = {}): QualityPolicy => ({
+  ...defaultQualityPolicy,
+  ...overrides,
+});
+
+//* -------------------------------------------------------------------------- */
+//*                               Check definitions                            */
+//* -------------------------------------------------------------------------- */
+// `minimum` checks fail below the threshold, the others above it
+interface CheckDefinition {
+  label: string;
+  measure: (measurements: QualityMeasurements) => number;
+  minimum: boolean;
+  describe: (value: number, passed: boolean) => string;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const checkDefinitions: { [check in QualityCheckId]: CheckDefinition } = {
+  focus: {
+    label: 'Focus',
+    measure: (m) => m.focus,
+    minimum: true,
+    describe: (value, passed) =>
+      `Laplacian variance ${value.toFixed(0)}${passed ? '' : '; the card is out of focus or motion-blurred'}.`,
+  },
+  glare: {
+    label: 'Glare',
+    measure: (m) => m.glare,
+    minimum: false,
+    describe: (value, passed) =>
+      `${percent(value)} of the card is washed out by reflections${passed ? '' : '; tilt the card away from the light'}.`,
+  },
+  underExposure: {
+    label: 'Under-exposure',
+    measure: (m) => m.brightness,
+    minimum: true,
+    describe: (value, passed) => `Mean brightness ${value.toFixed(0)}/255${passed ? '' : '; the photo is too dark'}.`,
+  },
+  overExposure: {
+    label: 'Over-exposure',
+    measure: (m) => m.brightness,
+    minimum: false,
+    describe: (value, passed) => `Mean brightness ${value.toFixed(0)}/255${passed ? '' : '; the photo is too bright'}.`,
+  },
+  resolution: {
+    label: 'Resolution',
+    measure: (m) => m.dpi,
+    minimum: true,
+    describe: (value, passed) =>
+      `About ${value.toFixed(0)} DPI across the card${passed ? '' : '; move closer or use a higher resolution'}.`,
+  },
+  noise: {
+    label: 'Noise',
+    measure: (m) => m.noise,
+    minimum: false,
+    describe: (value, passed) => `Estimated noise sigma ${value.toFixed(1)}${passed ? '' : '; add light to reduce sensor noise'}.`,
+  },
+  framing: {
+    label: 'Card in Frame',
+    measure: (m) => m.framing,
+    minimum: true,
+    describe: (value, passed) =>
+      value === 0
+        ? 'No card outline was found in the photo.'
+        : `The card fills ${percent(value)} of the photo${passed ? '' : '; fill more of the frame with the card'}.`,
+  },
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             evaluateQuality                                */
+//* -------------------------------------------------------------------------- */
+export const evaluateQuality = (
+  measurements: QualityMeasurements,
+  policy: QualityPolicy = defaultQualityPolicy
+): QualityReport => {
+  const checks = (Object.keys(checkDefinitions) as QualityCheckId[]).map((id): QualityCheck => {
+    const { label, measure, minimum, describe } = checkDefinitions[id];
+    const { threshold, action } = policy[id];
+    const value = measure(measurements);
+    const passed = minimum ? value >= threshold : value <= threshold;
+
+    // 1 at or beyond the threshold on the good side, falling off linearly
+    const ratio = minimum ? value / threshold : value > 0 ? threshold / value : 1;
+    const score = Math.max(0, Math.min(1, Number.isFinite(ratio) ? ratio : 1));
+
+    return { id, label, value, threshold, action, passed, score, details: describe(value, passed) };
+  });
+
+  const active = checks.filter((check) => check.action !== 'ignore');
+  const failing = (action: QualityAction) =>
+    active.filter((check) => !check.passed && check.action === action).map(({ id }) => id);
+  const blocking = failing('block');
+
+  return {
+    score: active.length ? active.reduce((sum, check) => sum + check.score, 0) / active.length : 1,
+    checks,
+    blocked: blocking.length > 0,
+    blocking,
+    warnings: failing('warn'),
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             ImageQualityError                              */
+//* -------------------------------------------------------------------------- */
+// Raised when a blocking check fails; carries the full report and the side
+// it was measured on so the UI can show what to fix instead of a generic
+// message
+export class ImageQualityError extends Error {
+  readonly report: QualityReport;
+  readonly side: DocumentSide;
+
+  constructor(report: QualityReport, side: DocumentSide = 'front') {
+    const labels = report.checks
+      .filter((check) => report.blocking.includes(check.id))
+      .map((check) => check.label.toLowerCase());
+    super(
+      `Image quality${side === 'back' ? ' of the back side' : ''} too low: ${labels.join(', ')} check failed. ` +
+      'Please retake the photo.'
+    );
+    this.name = 'ImageQualityError';
+    this.report = report;
+    this.side = side;
+  }
+}
@@ -0,0 +1,409 @@
+import { VerificationResult } from '@/components/VerificationResults';
+import { sortKeys } from '@/lib/canonical';
+import { CsvValue, toCsv } from '@/lib/csv';
+import { DecisionOverride, HistoryEntry, createThumbnail } from './history';
+import { DECISION_LABELS, PolicyDecision } from './policy';
+import { SIDE_LABELS } from './templates';
+import {
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  PdfColor,
+  PdfImage,
+  PdfTextOptions,
+  PdfWriter,
+  measureText,
+  wrapText,
+} from './pdf';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: ReportSource                              */
+//* -------------------------------------------------------------------------- */
+// Everything a report is built from. `verifiedAt` defaults to the time the
+// policy decided; `override` is an operator decision from the history.
+export interface ReportSource {
+  result: VerificationResult;
+  verificationId?: string | null;
+  verifiedAt?: string | null;
+  override?: DecisionOverride | null;
+  images?: { front?: Blob | null; back?: Blob | null };
+}
+
+// The canonical JSON export. `schemaVersion` changes whenever a field of the
+// envelope or of `result` is removed or changes meaning.
+export interface VerificationReport {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  verificationId: string | null;
+  verifiedAt: string;
+  override: DecisionOverride | null;
+  result: VerificationResult;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const REPORT_SCHEMA = 'id-verification-report';
+export const REPORT_SCHEMA_VERSION = 1;
+
+// JSON Schema of the export, for archives that validate what they ingest.
+// `result` lists the sections every result carries and allows additions.
+export const REPORT_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `${REPORT_SCHEMA}/v${REPORT_SCHEMA_VERSION}`,
+  title: 'Identity verification report',
+  type: 'object',
+  required: ['schema', 'schemaVersion', 'generatedAt', 'verificationId', 'verifiedAt', 'override', 'result'],
+  properties: {
+    schema: { const: REPORT_SCHEMA },
+    schemaVersion: { const: REPORT_SCHEMA_VERSION },
+    generatedAt: { type: 'string', format: 'date-time' },
+    verificationId: { type: ['string', 'null'] },
+    verifiedAt: { type: 'string', format: 'date-time' },
+    override: {
+      oneOf: [
+        { type: 'null' },
+        {
+          type: 'object',
+          required: ['decision', 'previous', 'reason', 'overriddenAt'],
+          properties: {
+            decision: { enum: ['accept', 'review', 'reject'] },
+            previous: { enum: ['accept', 'review', 'reject'] },
+            reason: { type: 'string' },
+            reasonSalt: { type: 'string' },
+            overriddenAt: { type: 'string', format: 'date-time' },
+          },
+        },
+      ],
+    },
+    result: {
+      type: 'object',
+      required: [
+        'documentDetection', 'quality', 'identification', 'templateMatch', 'textExtraction',
+        'consistency', 'validation', 'risk', 'overall', 'decision',
+      ],
+      properties: {
+        decision: {
+          type: 'object',
+          required: ['decision', 'policyId', 'policyVersion', 'ruleId', 'explanation', 'evaluatedAt'],
+          properties: {
+            decision: { enum: ['accept', 'review', 'reject'] },
+            policyId: { type: 'string' },
+            policyVersion: { type: 'integer' },
+            ruleId: { type: ['string', 'null'] },
+            explanation: { type: 'string' },
+            evaluatedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        overall: {
+          type: 'object',
+          required: ['isValid', 'confidence'],
+          properties: { isValid: { type: 'boolean' }, confidence: { type: 'number', minimum: 0, maximum: 1 } },
+        },
+        engine: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+  },
+} as const;
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 40;
+const IMAGE_HEIGHT = 150;
+
+const MUTED: PdfColor = [0.42, 0.45, 0.5];
+const decisionColors: { [decision in PolicyDecision]: PdfColor } = {
+  accept: [0.09, 0.55, 0.27],
+  review: [0.8, 0.52, 0.05],
+  reject: [0.8, 0.15, 0.15],
+};
+
+const ENGINE_LABELS: { [name: string]: string } = {
+  app: 'Application',
+  opencv: 'OpenCV.js',
+  tesseract: 'Tesseract.js',
+  tesseractCore: 'Tesseract core',
+  languageData: 'OCR language data',
+  zxing: 'ZXing',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  Helpers                                   */
+//* -------------------------------------------------------------------------- */
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const timestamp = (iso: string) => new Date(iso).toLocaleString();
+
+// Most reports come from one screen or history entry; this keeps them apart
+export const reportFileName = ({ result, verificationId }: ReportSource, extension: string) =>
+  `verification-${(verificationId ?? result.decision.evaluatedAt).slice(0, 8).replace(/[^\w-]/g, '')}` +
+  `-${result.decision.evaluatedAt.slice(0, 10)}.${extension}`;
+
+//* -------------------------------------------------------------------------- */
+//*                             createJsonReport                               */
+//* -------------------------------------------------------------------------- */
+export const createJsonReport = ({ result, verificationId, verifiedAt, override }: ReportSource): VerificationReport => ({
+  schema: REPORT_SCHEMA,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: new Date().toISOString(),
+  verificationId: verificationId ?? null,
+  verifiedAt: verifiedAt ?? result.decision.evaluatedAt,
+  override: override ?? null,
+  result,
+});
+
+// Keys sorted at every level, so equal reports serialize byte for byte alike
+export const serializeReport = (report: VerificationReport | VerificationReport[]) =>
+  JSON.stringify(sortKeys(report), null, 2);
+
+//* -------------------------------------------------------------------------- */
+//*                          readVerificationResults                           */
+//* -------------------------------------------------------------------------- */
+// Results from an exported file: one report, a list of reports, or bare
+// results as written before the report schema existed
+export const readVerificationResults = (data: unknown): VerificationResult[] => {
+  const items = Array.isArray(data) ? data : [data];
+  return items.map((item) => {
+    if (item && typeof item === 'object' && (item as VerificationReport).schema === REPORT_SCHEMA) {
+      const report = item as VerificationReport;
+      if (report.schemaVersion > REPORT_SCHEMA_VERSION) {
+        throw new Error(`Report schema version ${report.schemaVersion} is newer than this app supports`);
+      }
+      return report.result;
+    }
+    return item as VerificationResult;
+  });
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              createHistoryCsv                              */
+//* -------------------------------------------------------------------------- */
+const CSV_COLUMNS: [string, (entry: HistoryEntry) => CsvValue][] = [
+  ['verification_id', (entry) => entry.id],
+  ['verified_at', (entry) => entry.createdAt],
+  ['decision', (entry) => entry.summary.decision],
+  ['policy_decision', (entry) => entry.result.decision.decision],
+  ['override_reason', (entry) => entry.override?.reason],
+  ['policy', (entry) => `${entry.result.decision.policyId}@${entry.result.decision.policyVersion}`],
+  ['rule', (entry) => entry.result.decision.ruleId ?? 'fallback'],
+  ['trust_score', (entry) => entry.result.overall.confidence.toFixed(3)],
+  ['risk_level', (entry) => entry.result.risk.level],
+  ['reason_codes', (entry) => entry.result.risk.reasons.map((reason) => reason.code).join(' ')],
+  ['template', (entry) => entry.summary.templateLabel],
+  ['document_type', (entry) => entry.summary.documentType],
+  ['jurisdiction', (entry) => entry.summary.jurisdiction],
+  ['name', (entry) => entry.summary.name],
+  ['document_number', (entry) => entry.summary.documentNumber],
+  ['date_of_birth', (entry) => entry.result.validation.dateOfBirth],
+  ['expiration_date', (entry) => entry.result.validation.expirationDate],
+  ['quality_score', (entry) => entry.result.quality.score.toFixed(3)],
+];
+
+// One row per entry
+export const createHistoryCsv = (entries: HistoryEntry[]): string => toCsv(CSV_COLUMNS, entries);
+
+//* -------------------------------------------------------------------------- */
+//*                                 toPdfImage                                 */
+//* -------------------------------------------------------------------------- */
+// Any image becomes a downscaled JPEG, the one format PDF embeds as-is
+const toPdfImage = async (image: Blob): Promise<PdfImage> => {
+  const jpeg = await createThumbnail(image);
+  const bitmap = await createImageBitmap(jpeg);
+  const { width, height } = bitmap;
+  bitmap.close();
+  return { bytes: new Uint8Array(await jpeg.arrayBuffer()), width, height };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              createPdfReport                               */
+//* -------------------------------------------------------------------------- */
+// Thumbnails, decision, reason codes, extracted fields, quality metrics and
+// engine versions on A4 pages
+export const createPdfReport = async (source: ReportSource): Promise<Blob> => {
+  const { result, override } = source;
+  const report = createJsonReport(source);
+  const pdf = new PdfWriter();
+  let y = MARGIN;
+
+  /* -------------------------------------------------------------------------- */
+  /*                               Layout helpers                               */
+  /* -------------------------------------------------------------------------- */
+  const ensureSpace = (height: number) => {
+    if (y + height > PDF_PAGE_HEIGHT - FOOTER_SPACE) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, options: PdfTextOptions & { indent?: number } = {}) => {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    for (const line of wrapText(text, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(size * 1.4);
+      y += size * 1.4;
+      pdf.text(line, MARGIN + indent, y, options);
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 22;
+    pdf.text(text, MARGIN, y, { size: 12, bold: true });
+    y += 5;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    y += 2;
+  };
+
+  // Columns at fractions of the content width; cells are cut to fit
+  const row = (cells: string[], columns: number[], options: PdfTextOptions = {}) => {
+    const size = options.size ?? 9;
+    ensureSpace(size * 1.5);
+    y += size * 1.5;
+    cells.forEach((cell, index) => {
+      const width = CONTENT_WIDTH * ((columns[index + 1] ?? 1) - columns[index]) - 6;
+      const [first, ...rest] = wrapText(cell, size, width);
+      pdf.text(rest.length ? `${first.slice(0, -1)}…` : first, MARGIN + CONTENT_WIDTH * columns[index], y, { ...options, size });
+    });
+  };
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   Header                                   */
+  /* -------------------------------------------------------------------------- */
+  y += 18;
+  pdf.text('Identity Verification Report', MARGIN, y, { size: 18, bold: true });
+  paragraph(
+    `Verification ${report.verificationId ?? 'not recorded'} · verified ${timestamp(report.verifiedAt)} · ` +
+    `generated ${timestamp(report.generatedAt)}`,
+    { size: 9, color: MUTED }
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /*                                  Decision                                  */
+  /* -------------------------------------------------------------------------- */
+  const decision = override?.decision ?? result.decision.decision;
+  heading('Decision');
+  ensureSpace(24);
+  y += 20;
+  pdf.text(DECISION_LABELS[decision], MARGIN, y, { size: 16, bold: true, color: decisionColors[decision] });
+  pdf.text(
+    `Trust score ${percent(result.overall.confidence)} · ${result.risk.level} risk`,
+    MARGIN + measureText(DECISION_LABELS[decision], 16) + 16,
+    y,
+    { size: 10, color: MUTED }
+  );
+  paragraph(
+    `Policy ${result.decision.policyId} v${result.decision.policyVersion}, ` +
+    `rule ${result.decision.ruleId ?? 'fallback'}: ${result.decision.explanation}`
+  );
+  if (override) {
+    paragraph(
+      `Manual override from ${DECISION_LABELS[override.previous]} to ${DECISION_LABELS[override.decision]} ` +
+      `on ${timestamp(override.overriddenAt)}: ${override.reason}`,
+      { bold: true }
+    );
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   Images                                   */
+  /* -------------------------------------------------------------------------- */
+  const images = [source.images?.front, source.images?.back].filter((image): image is Blob => Boolean(image));
+  if (images.length > 0) {
+    heading('Document Images');
+    const slot = (CONTENT_WIDTH - 12) / 2;
+    const embedded = await Promise.all(images.map(toPdfImage));
+    ensureSpace(IMAGE_HEIGHT + 10);
+    y += 8;
+    embedded.forEach((image, index) => {
+      const scale = Math.min(slot / image.width, IMAGE_HEIGHT / image.height);
+      pdf.image(image, MARGIN + index * (slot + 12), y, image.width * scale, image.height * scale);
+    });
+    y += IMAGE_HEIGHT;
+  }
+  if (result.sides && result.sides.length > 1) {
+    paragraph(
+      result.sides
+        .map((side) => side.provided
+          ? `${SIDE_LABELS[side.side]}: layout ${percent(side.templateMatch.confidence)}, quality ${percent(side.quality.score)}`
+          : `${SIDE_LABELS[side.side]}: not captured`)
+        .join(' · ')
+    );
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                Reason Codes                                */
+  /* -------------------------------------------------------------------------- */
+  heading('Reason Codes');
+  const { reasons } = result.risk;
+  const issues = result.validation.issues;
+  if (reasons.length === 0 && issues.length === 0) paragraph('None', { color: MUTED });
+  reasons.forEach((reason) => paragraph(`[${reason.severity}] ${reason.code}: ${reason.explanation}`));
+  issues.forEach((issue) =>
+    paragraph(`[${issue.severity}] ${issue.code}${issue.field ? ` (${issue.field})` : ''}: ${issue.message}`)
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /*                              Extracted Fields                              */
+  /* -------------------------------------------------------------------------- */
+  heading('Extracted Fields');
+  const fields = Object.entries(result.textExtraction.extractedData);
+  if (fields.length === 0) {
+    paragraph('No fields were read.', { color: MUTED });
+  } else {
+    const columns = [0, 0.3, 0.85];
+    row(['Field', 'Value', 'Confidence'], columns, { bold: true, color: MUTED });
+    fields.forEach(([, field]) => row([field.label, field.value, percent(field.confidence)], columns));
+  }
+  if (result.textExtraction.missingRequired.length > 0) {
+    paragraph(`Missing required: ${result.textExtraction.missingRequired.join(', ')}`, { color: MUTED });
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              Quality Metrics                               */
+  /* -------------------------------------------------------------------------- */
+  heading('Image Quality');
+  paragraph(`Quality score ${percent(result.quality.score)}`);
+  const qualityColumns = [0, 0.35, 0.55, 0.75];
+  row(['Check', 'Value', 'Threshold', 'Result'], qualityColumns, { bold: true, color: MUTED });
+  result.quality.checks.forEach((check) =>
+    row(
+      [check.label, check.value.toFixed(2), check.threshold.toFixed(2), check.passed ? 'Passed' : `Failed (${check.action})`],
+      qualityColumns
+    )
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /*                                Risk Signals                                */
+  /* -------------------------------------------------------------------------- */
+  heading('Risk Signals');
+  const signalColumns = [0, 0.25, 0.38, 0.5];
+  row(['Signal', 'Weight', 'Score', 'Details'], signalColumns, { bold: true, color: MUTED });
+  result.risk.signals.forEach((signal) =>
+    row(
+      [signal.label, percent(signal.weight), signal.score === null ? 'n/a' : percent(signal.score), signal.details],
+      signalColumns
+    )
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /*                              Engine Versions                               */
+  /* -------------------------------------------------------------------------- */
+  heading('Engine Versions');
+  if (!result.engine) {
+    paragraph('Not recorded for this verification.', { color: MUTED });
+  } else {
+    Object.entries(result.engine).forEach(([name, version]) =>
+      row([ENGINE_LABELS[name] ?? name, version], [0, 0.35])
+    );
+  }
+  paragraph(`Report schema ${REPORT_SCHEMA} v${REPORT_SCHEMA_VERSION}`, { size: 8, color: MUTED });
+
+  /* -------------------------------------------------------------------------- */
+  /*                                   Footer                                   */
+  /* -------------------------------------------------------------------------- */
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.goToPage(page);
+    pdf.text(`Page ${page + 1} of ${pdf.pageCount}`, MARGIN, PDF_PAGE_HEIGHT - 24, { size: 8, color: MUTED });
+  }
+
+  return pdf.toBlob();
+};
@@ -0,0 +1,156 @@
+import { withStore } from './database';
+import {
+  dateHistoryRecords,
+  deleteHistoryEntry,
+  listHistory,
+  listHistoryCreatedBefore,
+  purgeHistoryImages,
+} from './history';
+import { getVaultStatus, onVaultChange } from './vault';
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: RetentionPolicy                             */
+//* -------------------------------------------------------------------------- */
+// Days after which the ID images, and later the whole entry with every
+// extracted field, are deleted. `null` keeps them indefinitely.
+export interface RetentionPolicy {
+  imageDays: number | null;
+  fieldDays: number | null;
+}
+
+interface RetentionSetting extends RetentionPolicy {
+  key: 'retention';
+}
+
+export interface PurgeReport {
+  images: number;
+  entries: number;
+}
+
+// Whoever the operator was asked to forget; either value identifies them
+export interface RetentionSubject {
+  name?: string | null;
+  documentNumber?: string | null;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  imageDays: 30,
+  fieldDays: 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+//* -------------------------------------------------------------------------- */
+//*                        get / setRetentionPolicy                            */
+//* -------------------------------------------------------------------------- */
+export const getRetentionPolicy = async (): Promise<RetentionPolicy> => {
+  const setting = await withStore<RetentionSetting | undefined>('settings', 'readonly', (store) =>
+    store.get('retention')
+  );
+  return setting ? { imageDays: setting.imageDays, fieldDays: setting.fieldDays } : DEFAULT_RETENTION_POLICY;
+};
+
+export const setRetentionPolicy = async (policy: RetentionPolicy): Promise<void> => {
+  for (const days of [policy.imageDays, policy.fieldDays]) {
+    if (days !== null && (!Number.isInteger(days) || days < 1)) {
+      throw new Error('Retention periods must be whole numbers of days, at least 1');
+    }
+  }
+  const setting: RetentionSetting = { key: 'retention', ...policy };
+  await withStore('settings', 'readwrite', (store) => store.put(setting));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                purgeExpired                                */
+//* -------------------------------------------------------------------------- */
+const daysBefore = (now: Date, days: number) => new Date(now.getTime() - days * DAY_MS);
+
+// Applies the retention policy to the whole history, by the plaintext
+// creation dates, so it also runs while the vault is locked. Entries stored
+// before those dates existed are dated first whenever the vault is unlocked.
+export const purgeExpired = async (
+  policy?: RetentionPolicy,
+  now: Date = new Date()
+): Promise<PurgeReport> => {
+  const { imageDays, fieldDays } = policy ?? (await getRetentionPolicy());
+  const report: PurgeReport = { images: 0, entries: 0 };
+  if ((await getVaultStatus()) === 'unlocked') await dateHistoryRecords();
+
+  const expired = new Set(fieldDays === null ? [] : await listHistoryCreatedBefore(daysBefore(now, fieldDays)));
+  for (const id of expired) {
+    await deleteHistoryEntry(id, 'retention');
+    report.entries++;
+  }
+  const imageExpired = imageDays === null ? [] : await listHistoryCreatedBefore(daysBefore(now, imageDays));
+  for (const id of imageExpired.filter((candidate) => !expired.has(candidate))) {
+    if (await purgeHistoryImages(id, 'retention')) report.images++;
+  }
+  return report;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               forgetSubject                                */
+//* -------------------------------------------------------------------------- */
+const compact = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const isSame = (a: string | null | undefined, b: string | null | undefined) =>
+  Boolean(a && b && compact(a) && compact(a) === compact(b));
+
+// Deletes every entry of the subject, matched on the exact holder name or
+// document number. Tombstones only keep entry ids; outcomes are anonymous.
+export const forgetSubject = async (subject: RetentionSubject): Promise<number> => {
+  const matches = (await listHistory()).filter(
+    ({ summary }) => isSame(summary.name, subject.name) || isSame(summary.documentNumber, subject.documentNumber)
+  );
+  for (const entry of matches) {
+    await deleteHistoryEntry(entry.id, 'subject');
+  }
+  return matches.length;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             startRetentionJob                              */
+//* -------------------------------------------------------------------------- */
+// Purges right away, whenever the vault is locked or unlocked (an unlock dates
+// older entries) and hourly. Returns the stop function.
+export const startRetentionJob = (onPurge?: (report: PurgeReport) => void) => {
+  let running = false;
+  let rerun = false;
+
+  // Claimed before the first await so overlapping triggers (start, unlock,
+  // interval) cannot purge side by side and tombstone entries twice; a
+  // trigger during a run (an unlock mid status check) runs once more after it
+  const run = async () => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    try {
+      const report = await purgeExpired();
+      if (report.images || report.entries) onPurge?.(report);
+    } catch (error) {
+      // Locked while dating older entries: the next run picks up where this
+      // one stopped
+      console.warn('Retention purge did not finish:', error);
+    } finally {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        run();
+      }
+    }
+  };
+
+  run();
+  const interval = setInterval(run, PURGE_INTERVAL_MS);
+  const unsubscribe = onVaultChange(run);
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,357 @@
+import { VerificationResult } from '@/components/VerificationResults';
+import { ValidationCode, ValidationIssue } from './validation';
+import { DocumentSide, SIDE_LABELS } from './templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                 TS: Risk                                   */
+//* -------------------------------------------------------------------------- */
+export type RiskSignal = 'layout' | 'quality' | 'ocr' | 'validators' | 'consistency' | 'tamper';
+
+// Relative weights; signals that could not be measured (no second source to
+// compare, no MRZ or barcode) drop out and the others are renormalized
+export type RiskWeights = { [signal in RiskSignal]: number };
+
+// `critical` reasons fail the verification whatever the score
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskReasonCode =
+  | ValidationCode
+  | 'layoutMismatch'
+  | 'ambiguousTemplate'
+  | 'sideMissing'
+  | 'qualityWarning'
+  | 'requiredFieldMissing'
+  | 'fewFieldsRead'
+  | 'lowOcrConfidence'
+  | 'fieldMismatch'
+  | 'mrzCheckDigit'
+  | 'mrzComposite'
+  | 'barcodeUnreadable';
+
+export interface RiskReason {
+  code: RiskReasonCode;
+  signal: RiskSignal;
+  severity: RiskSeverity;
+  explanation: string;
+}
+
+// `score` is how trustworthy the signal looks (0-1), null when unavailable
+export interface SignalScore {
+  signal: RiskSignal;
+  label: string;
+  weight: number;
+  score: number | null;
+  details: string;
+}
+
+// `score` is the weighted trust score (0-1); the risk level is its inverse
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  signals: SignalScore[];
+  reasons: RiskReason[];
+  isValid: boolean;
+}
+
+export type RiskInput = Omit<VerificationResult, 'overall' | 'risk' | 'decision'>;
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const defaultRiskWeights: RiskWeights = {
+  layout: 0.25,
+  quality: 0.1,
+  ocr: 0.15,
+  validators: 0.2,
+  consistency: 0.2,
+  tamper: 0.1,
+};
+
+export const PASS_SCORE = 0.7;          // Minimum trust score for a valid result
+const HIGH_RISK_SCORE = 0.5;            // Below this the risk level is high
+const AMBIGUOUS_MARGIN = 0.05;          // Runner-up template this close is ambiguous
+const MIN_OCR_CONFIDENCE = 0.6;
+const EXPECTED_FIELDS = 4;              // Full-page OCR reading fewer is suspicious
+
+const SIGNAL_LABELS: { [signal in RiskSignal]: string } = {
+  layout: 'Layout Match',
+  quality: 'Image Quality',
+  ocr: 'Text Extraction',
+  validators: 'Field Validation',
+  consistency: 'Cross-Source Consistency',
+  tamper: 'Integrity Checks',
+};
+
+// Dates, ages and ID numbers that cannot be right are disqualifying; names
+// and sex markers are more often OCR misreads and only lower the score
+const VALIDATION_SEVERITY: { [code in ValidationCode]: RiskSeverity } = {
+  expired: 'critical',
+  birthDateInFuture: 'critical',
+  issueDateInFuture: 'critical',
+  dateOrder: 'critical',
+  invalidIdChecksum: 'critical',
+  implausibleAge: 'critical',
+  invalidIdFormat: 'critical',
+  invalidDate: 'critical',
+  invalidName: 'medium',
+  invalidSex: 'medium',
+  outsideTemplateValidity: 'low',
+  unknownIdFormat: 'low',
+};
+
+// Trust lost per validation error, by severity
+const SEVERITY_PENALTY: { [severity in RiskSeverity]: number } = {
+  low: 0.05,
+  medium: 0.2,
+  high: 0.4,
+  critical: 1,
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+//* -------------------------------------------------------------------------- */
+//*                             resolveRiskWeights                             */
+//* -------------------------------------------------------------------------- */
+export const resolveRiskWeights = (overrides: Partial<RiskWeights> = {}): RiskWeights => ({
+  ...defaultRiskWeights,
+  ...overrides,
+});
+
+//* -------------------------------------------------------------------------- */
+//*                                  Signals                                   */
+//* -------------------------------------------------------------------------- */
+// Each signal scores one part of the result and explains what lowered it
+type SignalResult = { score: number | null; details: string; reasons: Omit<RiskReason, 'signal'>[] };
+
+// The document layout is as trustworthy as its weakest captured side; a side
+// the template requires but that was not captured cannot be trusted at all
+const scoreLayout = ({ templateMatch, identification, sides = [] }: RiskInput): SignalResult => {
+  const reasons: SignalResult['reasons'] = [];
+  const scores = [templateMatch.confidence];
+  const details = [templateMatch.details];
+  if (!templateMatch.isMatch) {
+    reasons.push({
+      code: 'layoutMismatch',
+      severity: 'critical',
+      explanation: `The card layout matches the best template at only ${percent(templateMatch.confidence)}.`,
+    });
+  }
+
+  const [first, second] = identification.candidates;
+  if (first && second && second.isMatch && first.confidence - second.confidence < AMBIGUOUS_MARGIN) {
+    reasons.push({
+      code: 'ambiguousTemplate',
+      severity: 'medium',
+      explanation: `${first.label} and ${second.label} match almost equally well, so the document type is uncertain.`,
+    });
+  }
+
+  for (const side of sides.filter(({ side }) => side !== 'front')) {
+    const label = SIDE_LABELS[side.side].toLowerCase();
+    if (!side.provided) {
+      reasons.push({
+        code: 'sideMissing',
+        severity: 'critical',
+        explanation: `The template requires the ${label} side, but it was not captured.`,
+      });
+      scores.push(0);
+      continue;
+    }
+    if (!side.templateMatch.isMatch) {
+      reasons.push({
+        code: 'layoutMismatch',
+        severity: 'critical',
+        explanation: `The ${label} side matches its reference at only ${percent(side.templateMatch.confidence)}.`,
+      });
+    }
+    scores.push(side.templateMatch.confidence);
+    details.push(`${SIDE_LABELS[side.side]}: ${side.templateMatch.details}`);
+  }
+
+  return { score: Math.min(...scores), details: details.join(' '), reasons };
+};
+
+// Worst image of the captured sides; warnings name their side when there
+// is more than one
+const scoreQuality = ({ quality, sides = [] }: RiskInput): SignalResult => {
+  const captured = sides.flatMap((side) => (side.provided && side.side !== 'front' ? [side] : []));
+  const reports = [{ side: 'front' as DocumentSide, quality }, ...captured];
+  const suffix = (side: DocumentSide) => (reports.length > 1 ? ` (${SIDE_LABELS[side].toLowerCase()} side)` : '');
+
+  return {
+    score: Math.min(...reports.map((report) => report.quality.score)),
+    details: `${reports.reduce((sum, report) => sum + report.quality.warnings.length, 0)} quality warnings.`,
+    reasons: reports.flatMap((report) =>
+      report.quality.checks.filter((check) => report.quality.warnings.includes(check.id)).map((check) => ({
+        code: 'qualityWarning' as const,
+        severity: 'low' as const,
+        explanation: `${check.label}${suffix(report.side)}: ${check.details}`,
+      }))
+    ),
+  };
+};
+
+// Confidence scaled by how much of the expected data was read
+const scoreOcr = ({ textExtraction }: RiskInput): SignalResult => {
+  const { method, extractedLabels, missingRequired, confidence } = textExtraction;
+  const reasons: SignalResult['reasons'] = [];
+  const found = extractedLabels.length;
+
+  const coverage = method === 'zonal'
+    ? found / Math.max(1, found + missingRequired.length)
+    : Math.min(1, found / EXPECTED_FIELDS);
+
+  if (missingRequired.length) {
+    reasons.push({
+      code: 'requiredFieldMissing',
+      severity: 'critical',
+      explanation: `Required fields could not be read: ${missingRequired.join(', ')}.`,
+    });
+  }
+  if (method === 'fullPage' && found < EXPECTED_FIELDS) {
+    reasons.push({
+      code: 'fewFieldsRead',
+      severity: found === 0 ? 'critical' : 'medium',
+      explanation: `Only ${found} of the usual ${EXPECTED_FIELDS}+ ID fields were recognized in the printed text.`,
+    });
+  }
+  if (found && confidence < MIN_OCR_CONFIDENCE) {
+    reasons.push({
+      code: 'lowOcrConfidence',
+      severity: 'medium',
+      explanation: `OCR confidence is ${percent(confidence)}, so the extracted values may be misread.`,
+    });
+  }
+
+  return { score: confidence * coverage, details: `${found} fields at ${percent(confidence)} OCR confidence.`, reasons };
+};
+
+const scoreValidators = ({ validation }: RiskInput): SignalResult => {
+  const toReason = ({ code, message }: ValidationIssue) => ({
+    code,
+    severity: VALIDATION_SEVERITY[code],
+    explanation: message,
+  });
+  const reasons = validation.issues.map(toReason);
+
+  if (!validation.fields.length) {
+    return { score: null, details: 'No fields to validate.', reasons };
+  }
+
+  const penalty = validation.issues
+    .filter((issue) => issue.severity === 'error')
+    .reduce((sum, issue) => sum + SEVERITY_PENALTY[VALIDATION_SEVERITY[issue.code]], 0);
+
+  return {
+    score: clamp(1 - penalty),
+    details: `${validation.fields.filter((field) => field.valid).length} of ${validation.fields.length} fields valid.`,
+    reasons,
+  };
+};
+
+const scoreConsistency = ({ consistency }: RiskInput): SignalResult => {
+  const compared = consistency.matched.length + consistency.mismatched.length;
+  const reasons = consistency.fields
+    .filter((field) => field.status === 'mismatched')
+    .map((field) => ({
+      code: 'fieldMismatch' as const,
+      severity: 'critical' as const,
+      explanation: `${field.label} differs between ${field.values.map((value) => `${value.source} "${value.raw}"`).join(' and ')}.`,
+    }));
+
+  return compared
+    ? { score: consistency.matched.length / compared, details: `${consistency.matched.length} of ${compared} fields agree.`, reasons }
+    : { score: null, details: 'Only one source was read.', reasons };
+};
+
+// Check digits and barcode structure catch edits that leave the print intact
+const scoreTamper = ({ mrz, barcode }: RiskInput): SignalResult => {
+  const reasons: SignalResult['reasons'] = [];
+  const scores: number[] = [];
+
+  if (mrz) {
+    const fields = Object.entries(mrz.fields);
+    const failed = fields.filter(([, field]) => field.value && !field.valid).map(([name]) => name);
+    scores.push((fields.length - failed.length) / fields.length * (mrz.compositeValid ? 1 : 0.5));
+
+    if (failed.length) {
+      reasons.push({
+        code: 'mrzCheckDigit',
+        severity: 'high',
+        explanation: `MRZ fields fail their check digit or format: ${failed.join(', ')}.`,
+      });
+    }
+    if (!mrz.compositeValid) {
+      reasons.push({
+        code: 'mrzComposite',
+        severity: 'high',
+        explanation: 'The MRZ composite check digit does not match its contents.',
+      });
+    }
+  }
+
+  if (barcode) {
+    scores.push(barcode.aamva ? 1 : 0);
+    if (!barcode.aamva) {
+      reasons.push({
+        code: 'barcodeUnreadable',
+        severity: 'medium',
+        explanation: barcode.details,
+      });
+    }
+  }
+
+  return scores.length
+    ? { score: Math.min(...scores), details: `${scores.length} integrity checks run.`, reasons }
+    : { score: null, details: 'No MRZ or barcode to check.', reasons };
+};
+
+const signalScorers: { [signal in RiskSignal]: (input: RiskInput) => SignalResult } = {
+  layout: scoreLayout,
+  quality: scoreQuality,
+  ocr: scoreOcr,
+  validators: scoreValidators,
+  consistency: scoreConsistency,
+  tamper: scoreTamper,
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 assessRisk                                 */
+//* -------------------------------------------------------------------------- */
+// Combines every signal into one weighted trust score with the reasons that
+// lowered it, most severe first. A result is valid when the score reaches
+// PASS_SCORE, no reason is critical and no field fails validation.
+export const assessRisk = (
+  input: RiskInput,
+  weights: RiskWeights = defaultRiskWeights
+): RiskAssessment => {
+  const severityOrder: RiskSeverity[] = ['critical', 'high', 'medium', 'low'];
+  const signals: SignalScore[] = [];
+  const reasons: RiskReason[] = [];
+
+  for (const signal of Object.keys(signalScorers) as RiskSignal[]) {
+    const { score, details, reasons: signalReasons } = signalScorers[signal](input);
+    signals.push({ signal, label: SIGNAL_LABELS[signal], weight: weights[signal], score, details });
+    reasons.push(...signalReasons.map((reason) => ({ ...reason, signal })));
+  }
+
+  const measured = signals.filter((signal) => signal.score !== null && signal.weight > 0);
+  const totalWeight = measured.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = totalWeight
+    ? measured.reduce((sum, signal) => sum + signal.weight * signal.score!, 0) / totalWeight
+    : 0;
+
+  reasons.sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+  const critical = reasons.some((reason) => reason.severity === 'critical');
+
+  return {
+    score,
+    level: critical || score < HIGH_RISK_SCORE ? 'high' : score < PASS_SCORE ? 'medium' : 'low',
+    signals,
+    reasons,
+    isValid: !critical && input.validation.isValid && score >= PASS_SCORE,
+  };
+};
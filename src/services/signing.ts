@@ -0,0 +1,244 @@
+import { sortKeys } from '@/lib/canonical';
+import { withStore } from './database';
+import { listAuditLog } from './audit';
+import {
+  REPORT_SCHEMA,
+  REPORT_SCHEMA_VERSION,
+  ReportSource,
+  VerificationReport,
+  createJsonReport,
+} from './reports';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: SignedReport                              */
+//* -------------------------------------------------------------------------- */
+// SHA-256 (hex) of the original uploads, as recorded in the audit log
+export interface ImageHashes {
+  front: string | null;
+  back: string | null;
+}
+
+// The signed JWS payload: the report fields that matter downstream plus the
+// image hashes, so a result cannot be moved onto other images either
+export interface SignedReportPayload {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: number;
+  signedAt: string;
+  verificationId: string | null;
+  verifiedAt: string;
+  override: VerificationReport['override'];
+  result: VerificationReport['result'];
+  imageHashes: ImageHashes;
+}
+
+// The protected header carries the public key; `kid` is its RFC 7638
+// thumbprint, which is what a receiver pins
+export interface SignedReportHeader {
+  alg: 'ES256';
+  typ: string;
+  kid: string;
+  jwk: JsonWebKey;
+}
+
+// `isValid` is only set when the report is verified and readable: a sound
+// signature over a newer schema version is `isUnsupported` instead.
+// `isKnownKey`: signed by this browser's own key.
+export interface SignatureCheck {
+  isValid: boolean;
+  isUnsupported: boolean;
+  fingerprint: string | null;
+  isKnownKey: boolean;
+  header: SignedReportHeader | null;
+  payload: SignedReportPayload | null;
+  error: string | null;
+}
+
+interface SigningKeySetting {
+  key: 'signingKey';
+  privateKey: CryptoKey;
+  publicJwk: JsonWebKey;
+  fingerprint: string;
+  createdAt: string;
+}
+
+export interface SigningKeyInfo {
+  publicJwk: JsonWebKey;
+  fingerprint: string;
+  createdAt: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+export const SIGNED_REPORT_TYPE = `${REPORT_SCHEMA}+jws`;
+
+//* -------------------------------------------------------------------------- */
+//*                                  base64url                                 */
+//* -------------------------------------------------------------------------- */
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error('Not base64url');
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), (char) => char.charCodeAt(0));
+};
+
+const encodeJson = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(sortKeys(value))));
+
+const decodeJson = <T>(text: string): T => JSON.parse(new TextDecoder().decode(fromBase64Url(text)));
+
+//* -------------------------------------------------------------------------- */
+//*                               jwkThumbprint                                */
+//* -------------------------------------------------------------------------- */
+// RFC 7638: SHA-256 over the required EC members in lexicographic order
+export const jwkThumbprint = async ({ crv, kty, x, y }: JsonWebKey): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify({ crv, kty, x, y }))
+  );
+  return toBase64Url(new Uint8Array(digest));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               getSigningKey                                */
+//* -------------------------------------------------------------------------- */
+// Created on first use. The private key is stored as a non-extractable
+// CryptoKey, so its material never leaves WebCrypto.
+const loadSigningKey = async (): Promise<SigningKeySetting> => {
+  const stored = await withStore<SigningKeySetting | undefined>('settings', 'readonly', (store) =>
+    store.get('signingKey')
+  );
+  if (stored) return stored;
+
+  const pair = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+  const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const setting: SigningKeySetting = {
+    key: 'signingKey',
+    privateKey: pair.privateKey,
+    publicJwk: { kty: publicJwk.kty, crv: publicJwk.crv, x: publicJwk.x, y: publicJwk.y },
+    fingerprint: await jwkThumbprint(publicJwk),
+    createdAt: new Date().toISOString(),
+  };
+  // `add` fails if another tab created a key meanwhile; use that one then
+  try {
+    await withStore('settings', 'readwrite', (store) => store.add(setting));
+    return setting;
+  } catch (error) {
+    return loadSigningKey();
+  }
+};
+
+export const getSigningKey = async (): Promise<SigningKeyInfo> => {
+  const { publicJwk, fingerprint, createdAt } = await loadSigningKey();
+  return { publicJwk, fingerprint, createdAt };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               imageHashesFor                               */
+//* -------------------------------------------------------------------------- */
+// Hashes of the original uploads from the audit log, since stored history
+// only keeps thumbnails
+export const imageHashesFor = async (verificationId: string | null | undefined): Promise<ImageHashes> => {
+  const uploaded = verificationId
+    ? (await listAuditLog(verificationId)).find((entry) => entry.type === 'imagesUploaded')
+    : undefined;
+  return {
+    front: (uploaded?.data.front as string | undefined) ?? null,
+    back: (uploaded?.data.back as string | undefined) ?? null,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 signReport                                 */
+//* -------------------------------------------------------------------------- */
+// Compact JWS (ES256) over the canonical JSON of the payload
+export const signReport = async (source: ReportSource): Promise<string> => {
+  const { privateKey, publicJwk, fingerprint } = await loadSigningKey();
+  const report = createJsonReport(source);
+
+  const header: SignedReportHeader = { alg: 'ES256', typ: SIGNED_REPORT_TYPE, kid: fingerprint, jwk: publicJwk };
+  const payload: SignedReportPayload = {
+    schema: report.schema,
+    schemaVersion: report.schemaVersion,
+    signedAt: report.generatedAt,
+    verificationId: report.verificationId,
+    verifiedAt: report.verifiedAt,
+    override: report.override,
+    result: report.result,
+    imageHashes: await imageHashesFor(source.verificationId),
+  };
+
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  // WebCrypto returns r || s, exactly the JWS ES256 signature format
+  const signature = await crypto.subtle.sign(SIGNATURE, privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             verifySignedReport                             */
+//* -------------------------------------------------------------------------- */
+// Accepts the compact JWS as is, or a JSON document with a `jws` property.
+// Never throws: any problem is reported in `error`.
+export const verifySignedReport = async (input: string): Promise<SignatureCheck> => {
+  const check: SignatureCheck = {
+    isValid: false,
+    isUnsupported: false,
+    fingerprint: null,
+    isKnownKey: false,
+    header: null,
+    payload: null,
+    error: null,
+  };
+
+  try {
+    let jws = input.trim();
+    if (jws.startsWith('{')) jws = String(JSON.parse(jws).jws ?? '');
+
+    const parts = jws.split('.');
+    if (parts.length !== 3) throw new Error('Not a compact JWS (expected three dot-separated parts)');
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeJson<SignedReportHeader>(encodedHeader);
+    check.header = header;
+    if (header.alg !== 'ES256') throw new Error(`Unsupported algorithm ${header.alg}`);
+    if (!header.jwk || header.jwk.kty !== 'EC' || header.jwk.crv !== 'P-256') {
+      throw new Error('The header carries no P-256 public key');
+    }
+
+    check.fingerprint = await jwkThumbprint(header.jwk);
+    if (header.kid && header.kid !== check.fingerprint) throw new Error('The key id does not match the embedded key');
+
+    const publicKey = await crypto.subtle.importKey('jwk', header.jwk, ALGORITHM, false, ['verify']);
+    check.isValid = await crypto.subtle.verify(
+      SIGNATURE,
+      publicKey,
+      fromBase64Url(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!check.isValid) check.error = 'The signature does not match the content: the report was altered';
+
+    check.payload = decodeJson<SignedReportPayload>(encodedPayload);
+    if (check.isValid && check.payload.schemaVersion > REPORT_SCHEMA_VERSION) {
+      check.isValid = false;
+      check.isUnsupported = true;
+      check.error = `Report schema version ${check.payload.schemaVersion} is newer than this app supports`;
+    }
+
+    const local = await withStore<SigningKeySetting | undefined>('settings', 'readonly', (store) =>
+      store.get('signingKey')
+    );
+    check.isKnownKey = local?.fingerprint === check.fingerprint;
+  } catch (error) {
+    check.isValid = false;
+    check.error = error instanceof Error ? error.message : 'The signed report could not be read';
+  }
+
+  return check;
+};
+
@@ -0,0 +1,64 @@
+import { withStore } from './database';
+import { DocumentTemplate, TemplateMetadata } from './templates';
+
+//* -------------------------------------------------------------------------- */
+//*                          TS: TemplateLibraryEntry                          */
+//* -------------------------------------------------------------------------- */
+export interface TemplateLibraryEntry extends DocumentTemplate {
+  metadata: TemplateMetadata;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewTemplate = Omit<DocumentTemplate, 'metadata'> & {
+  metadata: Omit<TemplateMetadata, 'id'> & { id?: string };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               listTemplates                                */
+//* -------------------------------------------------------------------------- */
+// Entries saved before field zones existed have no `fields`
+const withDefaults = (entry: TemplateLibraryEntry): TemplateLibraryEntry => ({ ...entry, fields: entry.fields ?? [] });
+
+export const listTemplates = async (): Promise<TemplateLibraryEntry[]> => {
+  const entries = await withStore<TemplateLibraryEntry[]>('templates', 'readonly', (store) => store.getAll());
+  return entries.map(withDefaults).sort((a, b) =>
+    `${a.metadata.jurisdiction} ${a.metadata.documentType}`.localeCompare(
+      `${b.metadata.jurisdiction} ${b.metadata.documentType}`
+    )
+  );
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                getTemplate                                 */
+//* -------------------------------------------------------------------------- */
+export const getTemplate = async (id: string): Promise<TemplateLibraryEntry | null> => {
+  const entry = await withStore<TemplateLibraryEntry | undefined>('templates', 'readonly', (store) => store.get(id));
+  return entry ? withDefaults(entry) : null;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                saveTemplate                                */
+//* -------------------------------------------------------------------------- */
+// Inserts a new template or replaces the one with the same id
+export const saveTemplate = async (template: NewTemplate): Promise<TemplateLibraryEntry> => {
+  const now = new Date().toISOString();
+  const id = template.metadata.id ?? crypto.randomUUID();
+  const existing = template.metadata.id ? await getTemplate(id) : null;
+
+  const entry: TemplateLibraryEntry = {
+    ...template,
+    metadata: { ...template.metadata, id },
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await withStore('templates', 'readwrite', (store) => store.put(entry));
+  return entry;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               deleteTemplate                               */
+//* -------------------------------------------------------------------------- */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await withStore('templates', 'readwrite', (store) => store.delete(id));
+};
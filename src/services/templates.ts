@@ -0,0 +1,131 @@
+//* -------------------------------------------------------------------------- */
+//*                             TS: TemplateRegion                             */
+//* -------------------------------------------------------------------------- */
+// Rectangle on the reference image, in fractions (0-1) of its width and height
+// so it survives any resizing of the reference.
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TemplateRegionKind = 'portrait' | 'data' | 'signature' | 'mrz' | 'other';
+
+export interface TemplateRegion extends RegionRect {
+  kind: TemplateRegionKind;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             TS: TemplateField                              */
+//* -------------------------------------------------------------------------- */
+// A named zone drawn in the template editor. `validator` names the rule the
+// extracted value must satisfy; `required` fields must be present on the card.
+export type TemplateFieldType = 'text' | 'date' | 'portrait' | 'signature' | 'mrz';
+
+export type FieldValidator = 'none' | 'name' | 'date' | 'documentNumber' | 'sex' | 'mrz';
+
+export interface TemplateField extends RegionRect {
+  id: string;
+  label: string;
+  type: TemplateFieldType;
+  validator: FieldValidator;
+  required: boolean;
+}
+
+// Starting points offered by the editor; ids double as the keys of the
+// extracted data, so they follow the names used by the MRZ and barcode
+export const FIELD_PRESETS: Omit<TemplateField, keyof RegionRect>[] = [
+  { id: 'fullName', label: 'Name', type: 'text', validator: 'name', required: true },
+  { id: 'dateOfBirth', label: 'Date of Birth', type: 'date', validator: 'date', required: true },
+  { id: 'documentNumber', label: 'ID Number', type: 'text', validator: 'documentNumber', required: true },
+  { id: 'issueDate', label: 'Issue Date', type: 'date', validator: 'date', required: false },
+  { id: 'expirationDate', label: 'Expiration', type: 'date', validator: 'date', required: false },
+  { id: 'sex', label: 'Sex', type: 'text', validator: 'sex', required: false },
+  { id: 'address', label: 'Address', type: 'text', validator: 'none', required: false },
+  { id: 'portrait', label: 'Portrait', type: 'portrait', validator: 'none', required: true },
+  { id: 'signature', label: 'Signature', type: 'signature', validator: 'none', required: false },
+  { id: 'mrz', label: 'MRZ', type: 'mrz', validator: 'mrz', required: false },
+];
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: TemplateMetadata                            */
+//* -------------------------------------------------------------------------- */
+// Identifies a card design in the template library. Validity dates are the
+// ISO yyyy-mm-dd period in which the design was issued.
+export interface TemplateMetadata {
+  id: string;
+  jurisdiction: string;
+  documentType: string;
+  version: string;
+  validFrom?: string;
+  validTo?: string;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: DocumentTemplate                            */
+//* -------------------------------------------------------------------------- */
+export type DocumentSide = 'front' | 'back';
+
+export const SIDE_LABELS: { [side in DocumentSide]: string } = {
+  front: 'Front',
+  back: 'Back',
+};
+
+// One face of a card design. `variableRegions` are holder-specific zones
+// (portrait, personal data) that are masked out so layout matching only
+// scores the fixed card design. `fields` are the zones defined in the
+// template editor; they are variable too.
+export interface TemplateSide {
+  image: Blob;
+  variableRegions: TemplateRegion[];
+  fields: TemplateField[];
+}
+
+// The template itself is the front. `back` declares a second side that must
+// be captured and verified against its own reference. `metadata` is absent
+// for ad-hoc reference uploads.
+export interface DocumentTemplate extends TemplateSide {
+  metadata?: TemplateMetadata;
+  back?: TemplateSide;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                             toDocumentTemplate                             */
+//* -------------------------------------------------------------------------- */
+export const toDocumentTemplate = (reference: Blob | DocumentTemplate): DocumentTemplate =>
+  reference instanceof Blob
+    ? { image: reference, variableRegions: [], fields: [] }
+    : reference;
+
+//* -------------------------------------------------------------------------- */
+//*                               templateSides                                */
+//* -------------------------------------------------------------------------- */
+// The sides a document of this design must be captured on
+export const templateSides = (template: DocumentTemplate): DocumentSide[] =>
+  template.back ? ['front', 'back'] : ['front'];
+
+//* -------------------------------------------------------------------------- */
+//*                                maskRegions                                 */
+//* -------------------------------------------------------------------------- */
+const fieldKinds: { [type in TemplateFieldType]: TemplateRegionKind } = {
+  text: 'data',
+  date: 'data',
+  portrait: 'portrait',
+  signature: 'signature',
+  mrz: 'mrz',
+};
+
+// Every zone whose content differs between genuine cards of this design
+export const maskRegions = (template: TemplateSide): TemplateRegion[] => [
+  ...template.variableRegions,
+  ...template.fields.map(({ x, y, width, height, type }) => ({ kind: fieldKinds[type], x, y, width, height })),
+];
+
+//* -------------------------------------------------------------------------- */
+//*                               templateLabel                                */
+//* -------------------------------------------------------------------------- */
+export const templateLabel = ({ metadata }: DocumentTemplate): string =>
+  metadata
+    ? `${metadata.jurisdiction} ${metadata.documentType} (v${metadata.version})`
+    : 'Uploaded reference';
@@ -0,0 +1,267 @@
+import { normalizeDate, normalizeName, normalizeSex } from './normalize';
+import { FieldValidator, TemplateField, TemplateMetadata } from './templates';
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: Validation                                */
+//* -------------------------------------------------------------------------- */
+export type ValidationCode =
+  | 'invalidDate'
+  | 'invalidName'
+  | 'invalidSex'
+  | 'invalidIdFormat'
+  | 'invalidIdChecksum'
+  | 'unknownIdFormat'
+  | 'birthDateInFuture'
+  | 'implausibleAge'
+  | 'issueDateInFuture'
+  | 'expired'
+  | 'dateOrder'
+  | 'outsideTemplateValidity';
+
+// Errors fail the verification; warnings are shown but do not
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  field?: string;
+  message: string;
+}
+
+// `normalized` is the ISO date, canonical ID number, name or sex code, null
+// when the raw value could not be parsed
+export interface FieldValidation {
+  field: string;
+  label: string;
+  validator: FieldValidator;
+  raw: string;
+  normalized: string | null;
+  valid: boolean;
+}
+
+// `age` is in whole years and `expired` null when the date was not read;
+// `idRule` names the jurisdiction format the document number was checked against
+export interface ValidationReport {
+  fields: FieldValidation[];
+  dateOfBirth: string | null;
+  issueDate: string | null;
+  expirationDate: string | null;
+  age: number | null;
+  expired: boolean | null;
+  idRule: string | null;
+  issues: ValidationIssue[];
+  isValid: boolean;
+}
+
+export interface ValidationInput {
+  extractedData: { [fieldId: string]: { label: string; value: string } };
+  fields?: TemplateField[];
+  metadata?: TemplateMetadata;
+  now?: Date;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const MAX_AGE = 130;
+
+// Validators for full-page OCR, where there are no template fields to ask
+const DEFAULT_VALIDATORS: { [fieldId: string]: FieldValidator } = {
+  fullName: 'name',
+  dateOfBirth: 'date',
+  issueDate: 'date',
+  expirationDate: 'date',
+  documentNumber: 'documentNumber',
+  sex: 'sex',
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              TS: IdNumberRule                              */
+//* -------------------------------------------------------------------------- */
+// `names` are the spellings accepted in template metadata (code and full
+// name); `checksum` runs only once one of the `formats` matched
+interface IdNumberRule {
+  name: string;
+  names: string[];
+  formats: RegExp[];
+  checksum?: (value: string) => boolean;
+}
+
+// Spanish DNI/NIE control letter: number mod 23, NIE prefix X/Y/Z -> 0/1/2
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+const dniChecksum = (value: string) => {
+  const digits = value.slice(0, -1).replace(/^[XYZ]/, (prefix) => String('XYZ'.indexOf(prefix)));
+  return DNI_LETTERS[Number(digits) % 23] === value.slice(-1);
+};
+
+// Driver license formats follow the AAMVA DL/ID card design standard
+const ID_NUMBER_RULES: IdNumberRule[] = [
+  { name: 'California', names: ['CA', 'CALIFORNIA', 'US-CA'], formats: [/^[A-Z]\d{7}$/] },
+  { name: 'New York', names: ['NY', 'NEW YORK', 'US-NY'], formats: [/^\d{9}$/, /^[A-Z]\d{7}$/] },
+  { name: 'Texas', names: ['TX', 'TEXAS', 'US-TX'], formats: [/^\d{7,8}$/] },
+  { name: 'Florida', names: ['FL', 'FLORIDA', 'US-FL'], formats: [/^[A-Z]\d{12}$/] },
+  { name: 'Illinois', names: ['IL', 'ILLINOIS', 'US-IL'], formats: [/^[A-Z]\d{11,12}$/] },
+  { name: 'Pennsylvania', names: ['PA', 'PENNSYLVANIA', 'US-PA'], formats: [/^\d{8}$/] },
+  {
+    name: 'Washington',
+    names: ['WA', 'WASHINGTON', 'US-WA'],
+    formats: [/^WDL[A-Z0-9]{9}$/, /^[A-Z*]{7}\d{3}[A-Z0-9]{2}$/],
+  },
+  {
+    name: 'Spain',
+    names: ['ES', 'ESP', 'SPAIN', 'ESPAÑA', 'ESPANA'],
+    formats: [/^\d{8}[A-Z]$/, /^[XYZ]\d{7}[A-Z]$/],
+    checksum: dniChecksum,
+  },
+  {
+    name: 'Germany',
+    names: ['DE', 'D', 'DEU', 'GERMANY', 'DEUTSCHLAND'],
+    formats: [/^[CFGHJKLMNPRTVWXYZ][CFGHJKLMNPRTVWXYZ0-9]{8}$/],
+  },
+  { name: 'Netherlands', names: ['NL', 'NLD', 'NETHERLANDS', 'NEDERLAND'], formats: [/^[A-NP-Z]{2}[A-NP-Z0-9]{6}\d$/] },
+];
+
+const findIdRule = (jurisdiction?: string) => {
+  const key = jurisdiction?.trim().toUpperCase();
+  return key ? ID_NUMBER_RULES.find((rule) => rule.names.includes(key)) : undefined;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 Date helpers                               */
+//* -------------------------------------------------------------------------- */
+// The local calendar date: a card expires at the end of its day where it is used
+const todayIso = (now: Date) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+// Whole years between two ISO dates
+const yearsBetween = (from: string, to: string) => {
+  const [fromYear, fromMonthDay] = [Number(from.slice(0, 4)), from.slice(5)];
+  const [toYear, toMonthDay] = [Number(to.slice(0, 4)), to.slice(5)];
+  return toYear - fromYear - (toMonthDay < fromMonthDay ? 1 : 0);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                validateFields                              */
+//* -------------------------------------------------------------------------- */
+// Parses every extracted value with its field's validator, then checks the
+// document as a whole: ID number format for the template's jurisdiction,
+// expiry, holder age and DOB < issue < expiration. Any error-severity issue
+// makes the report invalid.
+export const validateFields = ({
+  extractedData,
+  fields = [],
+  metadata,
+  now = new Date(),
+}: ValidationInput): ValidationReport => {
+  const today = todayIso(now);
+  const issues: ValidationIssue[] = [];
+  const results: FieldValidation[] = [];
+  const idRule = findIdRule(metadata?.jurisdiction);
+
+  const fail = (code: ValidationCode, message: string, field?: string, severity: ValidationSeverity = 'error') =>
+    issues.push({ code, severity, field, message });
+
+  for (const [id, { label, value }] of Object.entries(extractedData)) {
+    const validator = fields.find((field) => field.id === id)?.validator ?? DEFAULT_VALIDATORS[id] ?? 'none';
+    let normalized: string | null = value;
+
+    switch (validator) {
+      case 'date':
+        normalized = normalizeDate(value);
+        if (!normalized) fail('invalidDate', `"${value}" is not a recognizable date.`, id);
+        break;
+
+      case 'name': {
+        const tokens = normalizeName(value);
+        normalized = tokens.join(' ').length >= 2 ? tokens.join(' ') : null;
+        if (!normalized) fail('invalidName', `"${value}" does not look like a name.`, id);
+        break;
+      }
+
+      case 'sex':
+        normalized = normalizeSex(value);
+        if (!normalized) fail('invalidSex', `"${value}" is not a sex marker (M, F or X).`, id);
+        break;
+
+      case 'documentNumber':
+        normalized = value.toUpperCase().replace(/[^A-Z0-9*]/g, '') || null;
+        if (!normalized) {
+          fail('invalidIdFormat', `"${value}" contains no ID number.`, id);
+        } else if (!idRule) {
+          const jurisdiction = metadata?.jurisdiction ? `"${metadata.jurisdiction}"` : 'this document';
+          fail('unknownIdFormat', `No ID number format is known for ${jurisdiction}.`, id, 'warning');
+        } else if (!idRule.formats.some((format) => format.test(normalized!))) {
+          fail('invalidIdFormat', `${normalized} does not follow the ${idRule.name} ID number format.`, id);
+        } else if (idRule.checksum && !idRule.checksum(normalized)) {
+          fail('invalidIdChecksum', `${normalized} fails the ${idRule.name} check character.`, id);
+        }
+        break;
+    }
+
+    if (validator === 'none' || validator === 'mrz') continue;
+    results.push({
+      field: id,
+      label,
+      validator,
+      raw: value,
+      normalized,
+      valid: true,
+    });
+  }
+
+  const dateOf = (id: string) =>
+    results.find((result) => result.field === id && result.validator === 'date')?.normalized ?? null;
+  const dateOfBirth = dateOf('dateOfBirth');
+  const issueDate = dateOf('issueDate');
+  const expirationDate = dateOf('expirationDate');
+
+  // Holder age and plausibility
+  const age = dateOfBirth && dateOfBirth <= today ? yearsBetween(dateOfBirth, today) : null;
+  if (dateOfBirth && dateOfBirth > today) {
+    fail('birthDateInFuture', `Date of birth ${dateOfBirth} is in the future.`, 'dateOfBirth');
+  } else if (age !== null && age > MAX_AGE) {
+    fail('implausibleAge', `Date of birth ${dateOfBirth} gives an implausible age of ${age}.`, 'dateOfBirth');
+  }
+
+  // Issue and expiry against today
+  if (issueDate && issueDate > today) {
+    fail('issueDateInFuture', `Issue date ${issueDate} is in the future.`, 'issueDate');
+  }
+  const expired = expirationDate ? expirationDate < today : null;
+  if (expired) fail('expired', `The document expired on ${expirationDate}.`, 'expirationDate');
+
+  // DOB < issue < expiration, for whichever pairs were read
+  const ordered = [
+    ['Date of birth', dateOfBirth],
+    ['issue date', issueDate],
+    ['expiration date', expirationDate],
+  ].filter((entry): entry is [string, string] => Boolean(entry[1]));
+  for (let i = 1; i < ordered.length; i++) {
+    const [earlierLabel, earlier] = ordered[i - 1];
+    const [laterLabel, later] = ordered[i];
+    if (earlier >= later) fail('dateOrder', `${earlierLabel} ${earlier} is not before ${laterLabel} ${later}.`);
+  }
+
+  // Cards issued outside the template's design period are a weak signal only
+  if (issueDate && metadata && (
+    (metadata.validFrom && issueDate < metadata.validFrom) ||
+    (metadata.validTo && issueDate > metadata.validTo)
+  )) {
+    fail('outsideTemplateValidity', `Issue date ${issueDate} is outside the period this card design was issued.`, 'issueDate', 'warning');
+  }
+
+  return {
+    fields: results.map((result) => ({
+      ...result,
+      valid: !issues.some((issue) => issue.field === result.field && issue.severity === 'error'),
+    })),
+    dateOfBirth,
+    issueDate,
+    expirationDate,
+    age,
+    expired,
+    idRule: idRule?.name ?? null,
+    issues,
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+  };
+};
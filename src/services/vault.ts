@@ -0,0 +1,325 @@
+import { StoreName, promisify, withStore, withTransaction, openDatabase } from './database';
+
+//* -------------------------------------------------------------------------- */
+//*                                 TS: Vault                                  */
+//* -------------------------------------------------------------------------- */
+// `uninitialized`: no passphrase set yet; `locked`: the data key is not in
+// memory; `unlocked`: records can be read and written
+export type VaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+// One AES-GCM ciphertext. `type` keeps the MIME type of sealed Blobs.
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  type?: string;
+}
+
+// Shape of every record in an encrypted store: every part of the payload is
+// sealed separately. Besides the random id, a store may keep the few plaintext
+// fields it needs without the key (history keeps its creation date).
+export interface EncryptedRecord {
+  id: string;
+  parts: { [name: string]: SealedData };
+}
+
+// The data key wrapped with the passphrase-derived key. Unwrapping is
+// authenticated, so a wrong passphrase fails instead of yielding garbage.
+interface VaultSetting {
+  key: 'vault';
+  salt: Uint8Array;
+  iterations: number;
+  iv: Uint8Array;
+  wrappedKey: ArrayBuffer;
+  createdAt: string;
+  rotatedAt: string | null;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                   Errors                                   */
+//* -------------------------------------------------------------------------- */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The encrypted store is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+export const ENCRYPTED_STORES: StoreName[] = ['history'];
+
+const PBKDF2_ITERATIONS = 600_000;      // OWASP 2023 recommendation for SHA-256
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+// The unwrapped data key only ever lives here, non-extractable
+let dataKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+//* -------------------------------------------------------------------------- */
+//*                                onVaultChange                               */
+//* -------------------------------------------------------------------------- */
+// Called on lock, unlock, creation and rotation; returns the unsubscribe
+export const onVaultChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 Key helpers                                */
+//* -------------------------------------------------------------------------- */
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const readSetting = () =>
+  withStore<VaultSetting | undefined>('settings', 'readonly', (store) => store.get('vault'));
+
+const unwrapDataKey = async (passphrase: string, setting: VaultSetting) => {
+  const wrappingKey = await deriveWrappingKey(passphrase, setting.salt, setting.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      setting.wrappedKey,
+      wrappingKey,
+      { name: 'AES-GCM', iv: setting.iv },
+      { name: 'AES-GCM' },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch (error) {
+    throw new VaultPassphraseError();
+  }
+};
+
+// A fresh random data key, wrapped under a fresh salt. The extractable copy
+// is only used for wrapping; the returned key is the non-extractable unwrap.
+const createDataKey = async (passphrase: string, createdAt: string, rotatedAt: string | null) => {
+  const extractable = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const setting: VaultSetting = {
+    key: 'vault',
+    salt: randomBytes(SALT_BYTES),
+    iterations: PBKDF2_ITERATIONS,
+    iv: randomBytes(IV_BYTES),
+    wrappedKey: new ArrayBuffer(0),
+    createdAt,
+    rotatedAt,
+  };
+  const wrappingKey = await deriveWrappingKey(passphrase, setting.salt, setting.iterations);
+  setting.wrappedKey = await crypto.subtle.wrapKey('raw', extractable, wrappingKey, { name: 'AES-GCM', iv: setting.iv });
+
+  return { setting, key: await unwrapDataKey(passphrase, setting) };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               getVaultStatus                               */
+//* -------------------------------------------------------------------------- */
+export const getVaultStatus = async (): Promise<VaultStatus> => {
+  if (dataKey) return 'unlocked';
+  return (await readSetting()) ? 'locked' : 'uninitialized';
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                createVault                                 */
+//* -------------------------------------------------------------------------- */
+// Sets the operator passphrase and leaves the vault unlocked
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  if (await readSetting()) throw new Error('The encrypted store already exists');
+
+  const { setting, key } = await createDataKey(passphrase, new Date().toISOString(), null);
+  await withStore('settings', 'readwrite', (store) => store.add(setting));
+  dataKey = key;
+  notify();
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             unlockVault / lock                             */
+//* -------------------------------------------------------------------------- */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const setting = await readSetting();
+  if (!setting) throw new Error('No encrypted store has been set up');
+  dataKey = await unwrapDataKey(passphrase, setting);
+  notify();
+};
+
+export const lockVault = () => {
+  dataKey = null;
+  notify();
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                seal / open                                 */
+//* -------------------------------------------------------------------------- */
+// Set for the whole of rotateVaultKey; no new vault write starts meanwhile.
+// Writes already running keep the outgoing key until the last one finishes,
+// after that sealing and opening wait for the new key.
+let rotation: Promise<void> | null = null;
+let writers = 0;
+let drained = () => {};
+
+const requireKey = async () => {
+  while (rotation && !writers) await rotation;
+  if (!dataKey) throw new VaultLockedError();
+  return dataKey;
+};
+
+const sealBytes = async (bytes: BufferSource, key?: CryptoKey): Promise<SealedData> => {
+  const iv = randomBytes(IV_BYTES);
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key ?? (await requireKey()), bytes) };
+};
+
+const openBytes = async (sealed: SealedData, key?: CryptoKey): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key ?? (await requireKey()), sealed.data);
+
+export const sealJson = (value: unknown) => sealBytes(new TextEncoder().encode(JSON.stringify(value)));
+
+export const openJson = async <T>(sealed: SealedData): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await openBytes(sealed)));
+
+export const sealBlob = async (blob: Blob): Promise<SealedData> => ({
+  ...(await sealBytes(await blob.arrayBuffer())),
+  type: blob.type,
+});
+
+export const openBlob = async (sealed: SealedData): Promise<Blob> =>
+  new Blob([await openBytes(sealed)], { type: sealed.type });
+
+// Every seal draws a fresh IV, so equal IVs mean the same ciphertext
+export const isSameSeal = (a: SealedData, b: SealedData) =>
+  a.iv.length === b.iv.length && a.iv.every((byte, index) => byte === b.iv[index]);
+
+//* -------------------------------------------------------------------------- */
+//*                               withVaultWrite                               */
+//* -------------------------------------------------------------------------- */
+// Wraps sealing a record and storing it, so all of its parts are sealed and
+// written under one key even when a rotation starts in between
+export const withVaultWrite = async <T>(action: () => Promise<T>): Promise<T> => {
+  while (rotation) await rotation;
+  writers++;
+  try {
+    return await action();
+  } finally {
+    if (!--writers) drained();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                               rotateVaultKey                               */
+//* -------------------------------------------------------------------------- */
+
+// Re-seals every part read under `oldKey`, then writes the records back in
+// the same transaction as the new wrapped key. Each record is re-read there:
+// deleted records stay deleted, dropped parts stay dropped, and a part that
+// is not the one re-sealed aborts the write. Resolves false in that case.
+const resealStores = async (oldKey: CryptoKey, key: CryptoKey, setting: VaultSetting): Promise<boolean> => {
+  const db = await openDatabase();
+  const resealed = new Map<StoreName, Map<string, { read: EncryptedRecord; parts: EncryptedRecord['parts'] }>>();
+  for (const storeName of ENCRYPTED_STORES) {
+    const records = await promisify<EncryptedRecord[]>(
+      db.transaction(storeName, 'readonly').objectStore(storeName).getAll()
+    );
+    const byId = new Map<string, { read: EncryptedRecord; parts: EncryptedRecord['parts'] }>();
+    // Records written before the vault existed are not EncryptedRecords
+    for (const record of records.filter((candidate) => 'parts' in candidate)) {
+      const parts: EncryptedRecord['parts'] = {};
+      for (const [name, sealed] of Object.entries(record.parts)) {
+        parts[name] = { ...(await sealBytes(await openBytes(sealed, oldKey), key)), type: sealed.type };
+      }
+      byId.set(record.id, { read: record, parts });
+    }
+    resealed.set(storeName, byId);
+  }
+
+  let stale = false;
+  const write = withTransaction([...ENCRYPTED_STORES, 'settings'], 'readwrite', (transaction) => {
+    for (const [storeName, byId] of resealed) {
+      const store = transaction.objectStore(storeName);
+      store.getAll().onsuccess = (event) => {
+        const current = (event.target as IDBRequest<EncryptedRecord[]>).result;
+        const records = current.filter((candidate) => 'parts' in candidate);
+        stale ||= records.some(({ id, parts }) =>
+          Object.entries(parts).some(([name, sealed]) => {
+            const read = byId.get(id)?.read.parts[name];
+            return !read || !isSameSeal(read, sealed);
+          })
+        );
+        if (stale) return transaction.abort();
+        records.forEach((record) => {
+          const resealedParts = byId.get(record.id)!.parts;
+          const parts = Object.fromEntries(Object.keys(record.parts).map((name) => [name, resealedParts[name]]));
+          store.put({ ...record, parts });
+        });
+      };
+    }
+    transaction.objectStore('settings').put(setting);
+  });
+
+  try {
+    await write;
+    return true;
+  } catch (error) {
+    if (stale) return false;
+    throw error;
+  }
+};
+
+// Replaces the data key (and optionally the passphrase). Vault writes are held
+// while the stores are re-sealed and the records and the new wrapped key are
+// committed together, so an interrupted rotation leaves the old key and data
+// intact and no record is left under a key that no longer exists.
+export const rotateVaultKey = async (passphrase: string, newPassphrase = passphrase): Promise<void> => {
+  if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  if (rotation) throw new Error('The key is already being rotated');
+
+  let release = () => {};
+  rotation = new Promise((resolve) => (release = resolve));
+  try {
+    if (writers) await new Promise<void>((resolve) => (drained = resolve));
+    const current = await readSetting();
+    if (!current) throw new Error('No encrypted store has been set up');
+
+    const oldKey = await unwrapDataKey(passphrase, current);
+    const { setting, key } = await createDataKey(newPassphrase, current.createdAt, new Date().toISOString());
+
+    // Only a write made without withVaultWrite can make a pass stale
+    while (!(await resealStores(oldKey, key, setting)));
+    dataKey = key;
+  } finally {
+    rotation = null;
+    release();
+  }
+  notify();
+};
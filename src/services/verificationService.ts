@@ -1,363 +1,259 @@
-import { createWorker } from 'tesseract.js';
-import { VerificationResult } from '@/components/VerificationResults';
+import { DocumentIdentification, VerificationResult } from '@/components/VerificationResults';
+import { WorkerRequest, WorkerResponse } from '@/workers/messages';
+import { AssetConfig } from '@/workers/assets';
+import { DocumentTemplate, toDocumentTemplate } from '@/services/templates';
+import { ImageQualityError, QualityPolicy } from '@/services/quality';
+import { FrameAnalysis } from '@/services/capture';
+import { RiskWeights } from '@/services/riskScoring';
+import { DEFAULT_POLICY_SET, PolicySet } from '@/services/policy';
+import { AuditEntry, AuditEventType, appendAuditEvent, sha256Hex } from '@/services/audit';
 
 //* -------------------------------------------------------------------------- */
-//*                       OpenCV will be loaded globally                       */
+//*                             TS: PendingRequest                             */
 //* -------------------------------------------------------------------------- */
-declare global {
-  interface Window {
-    cv: any;
-  }
+type DoneResponse = Extract<WorkerResponse, { type: 'done' }>;
+
+interface PendingRequest {
+  resolve: (response: DoneResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: string, progress: number) => void;
 }
 
 //* -------------------------------------------------------------------------- */
-//*                             VerificationService                            */
+//*                           TS: VerificationOptions                          */
 //* -------------------------------------------------------------------------- */
-class VerificationService {
-
-  private tesseractWorker: any = null;
-  private isOpenCVReady = false;
+// `backImage` enables the PDF417 barcode stage (US/Canadian licenses);
+// `qualityPolicy` overrides which image quality issues block or only warn;
+// `candidateCount` is how many template candidates the result lists;
+// `riskWeights` changes how much each signal counts in the risk score;
+// `policy` is the decision policy set (the built-in one when omitted);
+// `verificationId` ties the audit log events to the caller's record of the
+// run (a random id when omitted)
+export interface VerificationOptions {
+  backImage?: File | null;
+  qualityPolicy?: Partial<QualityPolicy>;
+  candidateCount?: number;
+  riskWeights?: Partial<RiskWeights>;
+  policy?: PolicySet;
+  verificationId?: string;
+}
 
-  /* -------------------------------------------------------------------------- */
-  /*                                 initialize                                 */
-  /* -------------------------------------------------------------------------- */
-  async initialize(): Promise<void> {
-    await this.initializeOpenCV();
-    await this.initializeTesseract();
-  }
+// Omit distributed over the union so each request variant keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
 
-  /* -------------------------------------------------------------------------- */
-  /*                              initializeOpenCV                              */
-  /* -------------------------------------------------------------------------- */
-  private async initializeOpenCV(): Promise<void> {
-    return new Promise((resolve) => {
-      if (window.cv && window.cv.Mat) {
-        this.isOpenCVReady = true;
-        resolve();
-        return;
-      }
+//* -------------------------------------------------------------------------- */
+//*                             VerificationService                            */
+//* -------------------------------------------------------------------------- */
+// Main-thread facade: OpenCV and Tesseract run in the verification worker so
+// the page stays responsive while large photos are processed. Batches run
+// several instances side by side, each with its own worker.
+export class VerificationService {
 
-      const script = document.createElement('script');
-      script.src = 'https://docs.opencv.org/4.8.0/opencv.js';
-      script.onload = () => {
-        if (window.cv) {
-          window.cv.onRuntimeInitialized = () => {
-            this.isOpenCVReady = true;
-            resolve();
-          };
-        }
-      };
-      document.head.appendChild(script);
-    });
-  }
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
 
   /* -------------------------------------------------------------------------- */
-  /*                             initializeTesseract                            */
+  /*                                 initialize                                 */
   /* -------------------------------------------------------------------------- */
-  private async initializeTesseract(): Promise<void> {
-    if (!this.tesseractWorker) {
-      this.tesseractWorker = await createWorker('eng');
+  // `assets` overrides the env-derived asset mode, paths and integrity hashes
+  async initialize(assets?: Partial<AssetConfig>): Promise<void> {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL('../workers/verification.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.worker.onmessage = this.handleMessage;
+      this.worker.onerror = this.handleError;
     }
+
+    await this.send({ type: 'initialize', assets });
   }
 
   /* -------------------------------------------------------------------------- */
   /*                               verifyDocument                               */
   /* -------------------------------------------------------------------------- */
+  // `reference` is a plain reference image, a template with masks, or a set of
+  // library templates to identify the document type from. Every run is
+  // recorded in the audit log: start, image hashes, each completed stage and
+  // the decision (or the failure).
   async verifyDocument(
     idImageFile: File,
-    referenceImageFile: File,
-    onProgress?: (stage: string, progress: number) => void
+    reference: File | DocumentTemplate | DocumentTemplate[],
+    onProgress?: (stage: string, progress: number) => void,
+    options: VerificationOptions = {}
   ): Promise<VerificationResult> {
 
-    if (!this.isOpenCVReady || !this.tesseractWorker) {
+    if (!this.worker) {
       throw new Error('Verification service not initialized');
     }
 
-    try {
-
-      onProgress?.('Validating image quality...', 5);
-      
-      // Validate image quality
-      await this.validateImageQuality(idImageFile);
-      
-      onProgress?.('Loading images...', 10);
-
-      // Load images
-      const idImage = await this.loadImageFromFile(idImageFile);
-      const referenceImage = await this.loadImageFromFile(referenceImageFile);
-
-      onProgress?.('Performing template matching...', 30);
-      
-      // Template matching
-      const templateResult = await this.performTemplateMatching(idImage, referenceImage);
-
-      onProgress?.('Extracting text labels...', 60);
-      
-      // Text extraction
-      const textResult = await this.extractTextLabels(idImageFile);
-
-      onProgress?.('Finalizing verification...', 90);
-
-      // Calculate overall result
-      const overall = {
-        isValid: templateResult.isMatch && textResult.extractedLabels.length > 0,
-        confidence: (templateResult.confidence + textResult.confidence) / 2,
-      };
+    const templates = Array.isArray(reference) ? reference : [toDocumentTemplate(reference)];
+    const policy = options.policy ?? DEFAULT_POLICY_SET;
+    const audit = this.auditTrail(options.verificationId ?? crypto.randomUUID());
 
-      onProgress?.('Verification complete', 100);
+    audit('initialized', {
+      templates: templates.map((template) => template.metadata?.id ?? null),
+      policyId: policy.id,
+      policyVersion: policy.version,
+    });
+    audit('imagesUploaded', {
+      front: await sha256Hex(idImageFile),
+      back: options.backImage ? await sha256Hex(options.backImage) : null,
+      reference: reference instanceof Blob ? await sha256Hex(reference) : null,
+    });
 
-      return {
-        templateMatch: templateResult,
-        textExtraction: textResult,
-        overall,
-      };
+    // A stage is complete once the pipeline reports the next one
+    let stage: string | null = null;
+    const trackProgress = (next: string, progress: number) => {
+      if (stage && next !== stage) audit('stageCompleted', { stage: stage.replace(/\.+$/, '') });
+      stage = next;
+      onProgress?.(next, progress);
+    };
 
+    try {
+      const result = (await this.send(
+        {
+          type: 'verify',
+          idImage: idImageFile,
+          templates,
+          options: {
+            backImage: options.backImage ?? undefined,
+            qualityPolicy: options.qualityPolicy,
+            candidateCount: options.candidateCount,
+            riskWeights: options.riskWeights,
+            policy: options.policy,
+          },
+        },
+        trackProgress
+      )).result as VerificationResult;
+
+      audit('decision', {
+        decision: result.decision.decision,
+        policyId: result.decision.policyId,
+        policyVersion: result.decision.policyVersion,
+        ruleId: result.decision.ruleId,
+        trustScore: result.overall.confidence,
+        riskLevel: result.risk.level,
+      });
+      return result;
     } catch (error) {
-      console.error('Verification error:', error);
-      throw new Error(`Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      audit('failed', { stage, message: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                              loadImageFromFile                             */
+  /*                              identifyDocument                              */
   /* -------------------------------------------------------------------------- */
-  private async loadImageFromFile(file: File): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = URL.createObjectURL(file);
-    });
+  // Which library template the front shows, so the sides it needs can be
+  // asked for before verifying; not audited, the verification is
+  async identifyDocument(idImageFile: File, templates: DocumentTemplate[]): Promise<DocumentIdentification> {
+    if (!this.worker) {
+      throw new Error('Verification service not initialized');
+    }
+
+    const { identification } = await this.send({ type: 'identify', idImage: idImageFile, templates });
+    return identification!;
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                           performTemplateMatching                          */
+  /*                                analyzeFrame                                */
   /* -------------------------------------------------------------------------- */
-  private async performTemplateMatching(
-    sourceImg: HTMLImageElement,
-    templateImg: HTMLImageElement
-  ): Promise<{ isMatch: boolean; confidence: number; details: string }> {
-    try {
-      const cv = window.cv;
-      
-      // Create canvases for processing
-      const sourceCanvas = document.createElement('canvas');
-      const templateCanvas = document.createElement('canvas');
-      const sourceCtx = sourceCanvas.getContext('2d')!;
-      const templateCtx = templateCanvas.getContext('2d')!;
-
-      // Resize images to manageable size for processing
-      const maxSize = 800;
-      const sourceAspect = sourceImg.width / sourceImg.height;
-      const templateAspect = templateImg.width / templateImg.height;
-
-      let sourceWidth = Math.min(sourceImg.width, maxSize);
-      let sourceHeight = sourceWidth / sourceAspect;
-      if (sourceHeight > maxSize) {
-        sourceHeight = maxSize;
-        sourceWidth = sourceHeight * sourceAspect;
-      }
-
-      let templateWidth = Math.min(templateImg.width, maxSize);
-      let templateHeight = templateWidth / templateAspect;
-      if (templateHeight > maxSize) {
-        templateHeight = maxSize;
-        templateWidth = templateHeight * templateAspect;
-      }
-
-      sourceCanvas.width = sourceWidth;
-      sourceCanvas.height = sourceHeight;
-      templateCanvas.width = templateWidth;
-      templateCanvas.height = templateHeight;
-
-      sourceCtx.drawImage(sourceImg, 0, 0, sourceWidth, sourceHeight);
-      templateCtx.drawImage(templateImg, 0, 0, templateWidth, templateHeight);
-
-      // Convert to OpenCV mats
-      const srcMat = cv.imread(sourceCanvas);
-      const templateMat = cv.imread(templateCanvas);
-      
-      // Convert to grayscale
-      const srcGray = new cv.Mat();
-      const templateGray = new cv.Mat();
-      cv.cvtColor(srcMat, srcGray, cv.COLOR_RGBA2GRAY);
-      cv.cvtColor(templateMat, templateGray, cv.COLOR_RGBA2GRAY);
-
-      // Perform template matching
-      const result = new cv.Mat();
-      cv.matchTemplate(srcGray, templateGray, result, cv.TM_CCOEFF_NORMED);
-
-      // Find the best match
-      const minMaxLoc = cv.minMaxLoc(result);
-      const confidence = minMaxLoc.maxVal;
-
-      // Clean up
-      srcMat.delete();
-      templateMat.delete();
-      srcGray.delete();
-      templateGray.delete();
-      result.delete();
-
-      const isMatch = confidence > 0.3; // Threshold for match
-      const details = `Template matching confidence: ${(confidence * 100).toFixed(1)}%. ${
-        isMatch ? 'Documents appear to match the expected layout.' : 'Documents do not match the expected layout pattern.'
-      }`;
-
-      return {
-        isMatch,
-        confidence,
-        details,
-      };
-    } catch (error) {
-      console.error('Template matching error:', error);
-      return {
-        isMatch: false,
-        confidence: 0,
-        details: 'Template matching failed due to processing error.',
-      };
+  // Detection and quality checks on one camera frame for live capture
+  // guidance; not audited, nothing is kept. The frame is transferred to the
+  // worker, which closes it, so it is unusable here afterwards.
+  async analyzeFrame(frame: ImageBitmap, qualityPolicy?: Partial<QualityPolicy>): Promise<FrameAnalysis> {
+    if (!this.worker) {
+      frame.close();
+      throw new Error('Verification service not initialized');
     }
+
+    const { analysis } = await this.send({ type: 'analyzeFrame', frame, qualityPolicy }, undefined, [frame]);
+    return analysis!;
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                              extractTextLabels                             */
+  /*                                 auditTrail                                 */
   /* -------------------------------------------------------------------------- */
-  private async extractTextLabels(imageFile: File): Promise<{
-    extractedLabels: string[];
-    extractedData: { [key: string]: string };
-    confidence: number;
-    details: string;
-  }> {
-    try {
-      const { data } = await this.tesseractWorker.recognize(imageFile);
-      
-      // Extract potential field labels (common ID document labels)
-      const labelPatterns = [
-        { label: 'Name', patterns: ['name', 'first name', 'last name', 'full name'] },
-        { label: 'Date of Birth', patterns: ['date of birth', 'dob', 'birth date', 'born'] },
-        { label: 'ID Number', patterns: ['id number', 'license number', 'document number', 'dl'] },
-        { label: 'Address', patterns: ['address', 'street', 'residence'] },
-        { label: 'City', patterns: ['city'] },
-        { label: 'State', patterns: ['state', 'province'] },
-        { label: 'ZIP Code', patterns: ['zip', 'postal code', 'zip code'] },
-        { label: 'Sex', patterns: ['sex', 'gender'] },
-        { label: 'Height', patterns: ['height', 'ht'] },
-        { label: 'Weight', patterns: ['weight', 'wt'] },
-        { label: 'Issue Date', patterns: ['issue date', 'issued', 'iss'] },
-        { label: 'Expiration', patterns: ['expiration date', 'expires', 'exp'] },
-        { label: 'Class', patterns: ['class', 'license class'] }
-      ];
-
-      const extractedText = data.text;
-      const lines = extractedText.split('\n').filter(line => line.trim().length > 0);
-      
-      const foundLabels: string[] = [];
-      const extractedData: { [key: string]: string } = {};
-
-      // Process each line to find label-value pairs
-      for (const line of lines) {
-        const lowerLine = line.toLowerCase().trim();
-        
-        for (const { label, patterns } of labelPatterns) {
-          for (const pattern of patterns) {
-            if (lowerLine.includes(pattern)) {
-              foundLabels.push(label);
-              
-              // Try to extract the value after the label
-              const regex = new RegExp(`${pattern}[:\\s]*(.+)`, 'i');
-              const match = line.match(regex);
-              if (match && match[1]) {
-                extractedData[label] = match[1].trim();
-              } else {
-                // If no value found on same line, check next line
-                const lineIndex = lines.indexOf(line);
-                if (lineIndex < lines.length - 1) {
-                  const nextLine = lines[lineIndex + 1].trim();
-                  if (nextLine && nextLine.length > 0) {
-                    extractedData[label] = nextLine;
-                  }
-                }
-              }
-              break;
-            }
-          }
-        }
-      }
-
-      // Remove duplicates and sort
-      const uniqueLabels = [...new Set(foundLabels)].sort();
+  // Audit writes never hold up or fail a verification; they are queued in order
+  private auditTrail(verificationId: string) {
+    return (type: AuditEventType, data: AuditEntry['data']) => {
+      appendAuditEvent(type, verificationId, data).catch((error) =>
+        console.error('Audit log write failed:', error)
+      );
+    };
+  }
 
-      const confidence = Math.min(data.confidence / 100, 1);
-      const details = `OCR extracted ${data.text.length} characters with ${data.confidence.toFixed(1)}% confidence. Found ${uniqueLabels.length} document field labels with values.`;
+  /* -------------------------------------------------------------------------- */
+  /*                                    send                                    */
+  /* -------------------------------------------------------------------------- */
+  private send(
+    payload: WithoutId<WorkerRequest>,
+    onProgress?: (stage: string, progress: number) => void,
+    transfer: Transferable[] = []
+  ): Promise<DoneResponse> {
+    const id = this.nextRequestId++;
 
-      return {
-        extractedLabels: uniqueLabels,
-        extractedData,
-        confidence,
-        details,
-      };
-    } catch (error) {
-      console.error('Text extraction error:', error);
-      return {
-        extractedLabels: [],
-        extractedData: {},
-        confidence: 0,
-        details: 'Text extraction failed due to OCR processing error.',
-      };
-    }
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.worker!.postMessage({ ...payload, id } as WorkerRequest, transfer);
+    });
   }
 
   /* -------------------------------------------------------------------------- */
-  /*                            validateImageQuality                            */
+  /*                                handleMessage                               */
   /* -------------------------------------------------------------------------- */
-  private async validateImageQuality(imageFile: File): Promise<void> {
+  private handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    switch (message.type) {
+      case 'progress':
+        request.onProgress?.(message.stage, message.progress);
+        break;
+
+      case 'done':
+        this.pending.delete(message.id);
+        request.resolve(message);
+        break;
+
+      case 'error':
+        this.pending.delete(message.id);
+        request.reject(message.quality ? new ImageQualityError(message.quality, message.side) : new Error(message.message));
+        break;
+    }
+  };
 
-    // Load image for quality analysis
-    const image = await this.loadImageFromFile(imageFile);
+  /* -------------------------------------------------------------------------- */
+  /*                                 handleError                                */
+  /* -------------------------------------------------------------------------- */
+  private handleError = (event: ErrorEvent) => {
+    console.error('Verification worker error:', event);
+    this.rejectAll(new Error(event.message || 'Verification worker crashed'));
+  };
 
-    // Check for potential blur using basic edge detection
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    
-    // Resize for analysis
-    const analysisSize = 400;
-    canvas.width = analysisSize;
-    canvas.height = analysisSize;
-    ctx.drawImage(image, 0, 0, analysisSize, analysisSize);
-    
-    const imageData = ctx.getImageData(0, 0, analysisSize, analysisSize);
-    const data = imageData.data;
-    
-    // Simple edge detection to check for blur
-    let edgeStrength = 0;
-    const threshold = 30;
-    
-    for (let i = 0; i < data.length - 4; i += 4) {
-      const current = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
-      const next = data[i + 4] * 0.299 + data[i + 5] * 0.587 + data[i + 6] * 0.114;
-      const diff = Math.abs(current - next);
-      
-      if (diff > threshold) {
-        edgeStrength++;
-      }
-    }
-    
-    const edgeRatio = edgeStrength / (data.length / 4);
-    
-    if (edgeRatio < 0.1) {
-      throw new Error('Image quality too low: Image appears to be blurry or lacks detail. Please upload a clearer image.');
-    }
+  /* -------------------------------------------------------------------------- */
+  /*                                  rejectAll                                 */
+  /* -------------------------------------------------------------------------- */
+  private rejectAll(error: Error) {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
   }
 
   /* -------------------------------------------------------------------------- */
   /*                                   cleanup                                  */
   /* -------------------------------------------------------------------------- */
   async cleanup(): Promise<void> {
-    if (this.tesseractWorker) {
-      await this.tesseractWorker.terminate();
-      this.tesseractWorker = null;
+    // Terminating the worker also ends the Tesseract workers it spawned
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+      this.rejectAll(new Error('Verification service was shut down'));
     }
   }
 
 }
 
-export const verificationService = new VerificationService();
\ No newline at end of file
+export const verificationService = new VerificationService();
@@ -1 +1,30 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ASSET_MODE?: 'local' | 'cdn';
+  readonly VITE_ASSET_BASE_URL?: string;
+  readonly VITE_ASSET_INTEGRITY?: 'on' | 'off';
+  readonly VITE_OPENCV_PATH?: string;
+  readonly VITE_TESSERACT_WORKER_PATH?: string;
+  readonly VITE_TESSERACT_CORE_PATH?: string;
+  readonly VITE_TESSERACT_SIMD_CORE_PATH?: string;
+  readonly VITE_TESSERACT_LANG_PATH?: string;
+  readonly VITE_OPENCV_INTEGRITY?: string;
+  readonly VITE_TESSERACT_WORKER_INTEGRITY?: string;
+  readonly VITE_TESSERACT_CORE_INTEGRITY?: string;
+  readonly VITE_TESSERACT_SIMD_CORE_INTEGRITY?: string;
+  readonly VITE_TESSERACT_LANG_INTEGRITY?: string;
+}
+
+// SHA-256 (SRI format) of each file the offline-assets plugin serves from /vendor
+declare const __OFFLINE_ASSET_INTEGRITY__: { [name: string]: string };
+
+// Package versions of the app and its OCR/vision engines at build time
+declare const __ENGINE_VERSIONS__: {
+  app: string;
+  opencv: string;
+  tesseract: string;
+  tesseractCore: string;
+  languageData: string;
+  zxing: string;
+};
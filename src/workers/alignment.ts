@@ -0,0 +1,230 @@
+import { TemplateAlignment } from '@/components/VerificationResults';
+import { Mat, matToArray, matToCanvas, readMat } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const ORB_FEATURES = 2000;
+const RATIO_TEST = 0.75;          // Lowe's ratio between best and second-best match
+const RANSAC_THRESHOLD = 5;       // Max reprojection distance (px) for an inlier
+const MIN_GOOD_MATCHES = 12;
+const MIN_INLIERS = 12;
+const MAX_WARP_SIZE = 2000;       // Cap on the reference-frame image used for zonal OCR
+
+type Detector = TemplateAlignment['detector'];
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: AlignmentOutcome                            */
+//* -------------------------------------------------------------------------- */
+// `warped` is the source image in the reference frame; the caller deletes it
+export interface AlignmentOutcome {
+  alignment: TemplateAlignment;
+  warped: Mat;
+}
+
+interface FeatureMatches {
+  sourceKeypoints: number;
+  referenceKeypoints: number;
+  sourcePoints: number[];
+  referencePoints: number[];
+}
+
+//* -------------------------------------------------------------------------- */
+//*                               matchFeatures                                */
+//* -------------------------------------------------------------------------- */
+const matchFeatures = (
+  detectorName: Detector,
+  source: Mat,
+  reference: Mat,
+  referenceMask: Mat | null
+): FeatureMatches => {
+  const cv = self.cv;
+  const detector = detectorName === 'orb' ? new cv.ORB(ORB_FEATURES) : new cv.AKAZE();
+  const matcher = new cv.BFMatcher(cv.NORM_HAMMING, false);
+  const noMask = new cv.Mat();
+  const sourceKeypoints = new cv.KeyPointVector();
+  const referenceKeypoints = new cv.KeyPointVector();
+  const sourceDescriptors = new cv.Mat();
+  const referenceDescriptors = new cv.Mat();
+  const knnMatches = new cv.DMatchVectorVector();
+
+  const sourcePoints: number[] = [];
+  const referencePoints: number[] = [];
+
+  try {
+    detector.detectAndCompute(source, noMask, sourceKeypoints, sourceDescriptors);
+    detector.detectAndCompute(reference, referenceMask ?? noMask, referenceKeypoints, referenceDescriptors);
+
+    if (sourceDescriptors.rows >= 2 && referenceDescriptors.rows >= 2) {
+      matcher.knnMatch(sourceDescriptors, referenceDescriptors, knnMatches, 2);
+
+      for (let i = 0; i < knnMatches.size(); i++) {
+        const pair = knnMatches.get(i);
+        if (pair.size() < 2) continue;
+
+        const best = pair.get(0);
+        const second = pair.get(1);
+        if (best.distance < RATIO_TEST * second.distance) {
+          const { pt: sourcePt } = sourceKeypoints.get(best.queryIdx);
+          const { pt: referencePt } = referenceKeypoints.get(best.trainIdx);
+          sourcePoints.push(sourcePt.x, sourcePt.y);
+          referencePoints.push(referencePt.x, referencePt.y);
+        }
+      }
+    }
+
+    return {
+      sourceKeypoints: sourceKeypoints.size(),
+      referenceKeypoints: referenceKeypoints.size(),
+      sourcePoints,
+      referencePoints,
+    };
+  } finally {
+    detector.delete();
+    matcher.delete();
+    noMask.delete();
+    sourceKeypoints.delete();
+    referenceKeypoints.delete();
+    sourceDescriptors.delete();
+    referenceDescriptors.delete();
+    knnMatches.delete();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  project                                   */
+//* -------------------------------------------------------------------------- */
+export const project = (h: number[][], x: number, y: number) => {
+  const w = h[2][0] * x + h[2][1] * y + h[2][2];
+  return {
+    x: (h[0][0] * x + h[0][1] * y + h[0][2]) / w,
+    y: (h[1][0] * x + h[1][1] * y + h[1][2]) / w,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              scaleHomography                               */
+//* -------------------------------------------------------------------------- */
+// Re-expresses a homography estimated on downscaled images in full-size pixel
+// coordinates: H' = diag(1/referenceScale) · H · diag(sourceScale).
+export const scaleHomography = (h: number[][], sourceScale: number, referenceScale: number) =>
+  h.map((row, r) =>
+    row.map((value, c) => {
+      const pre = c < 2 ? sourceScale : 1;
+      const post = r < 2 ? 1 / referenceScale : 1;
+      return value * pre * post;
+    })
+  );
+
+//* -------------------------------------------------------------------------- */
+//*                             alignToReference                               */
+//* -------------------------------------------------------------------------- */
+// Keypoint matching (ORB, then AKAZE if ORB finds too little) followed by a
+// RANSAC homography that warps the grayscale source onto the reference frame.
+// `referenceMask` keeps keypoints out of holder-specific zones of the reference.
+// Returns null when no detector yields a plausible transform.
+export const alignToReference = (
+  source: Mat,
+  reference: Mat,
+  referenceMask: Mat | null = null
+): AlignmentOutcome | null => {
+  const cv = self.cv;
+
+  for (const detector of ['orb', 'akaze'] as Detector[]) {
+    const features = matchFeatures(detector, source, reference, referenceMask);
+    const matches = features.sourcePoints.length / 2;
+    if (matches < MIN_GOOD_MATCHES) continue;
+
+    const sourceMat = cv.matFromArray(matches, 1, cv.CV_32FC2, features.sourcePoints);
+    const referenceMat = cv.matFromArray(matches, 1, cv.CV_32FC2, features.referencePoints);
+    const inlierMask = new cv.Mat();
+    const homographyMat = cv.findHomography(sourceMat, referenceMat, cv.RANSAC, RANSAC_THRESHOLD, inlierMask);
+
+    const homography = homographyMat.empty() ? null : matToArray(homographyMat);
+
+    let inliers = 0;
+    let errorSum = 0;
+    if (homography) {
+      for (let i = 0; i < matches; i++) {
+        if (!inlierMask.data[i]) continue;
+        const projected = project(homography, features.sourcePoints[i * 2], features.sourcePoints[i * 2 + 1]);
+        errorSum += Math.hypot(
+          projected.x - features.referencePoints[i * 2],
+          projected.y - features.referencePoints[i * 2 + 1]
+        );
+        inliers++;
+      }
+    }
+
+    sourceMat.delete();
+    referenceMat.delete();
+    inlierMask.delete();
+
+    // A mirrored or collapsed transform means RANSAC locked onto noise
+    const determinant = homography
+      ? homography[0][0] * homography[1][1] - homography[0][1] * homography[1][0]
+      : 0;
+
+    if (!homography || inliers < MIN_INLIERS || determinant <= 0) {
+      homographyMat.delete();
+      continue;
+    }
+
+    const warped = new cv.Mat();
+    cv.warpPerspective(source, warped, homographyMat, new cv.Size(reference.cols, reference.rows));
+    homographyMat.delete();
+
+    return {
+      warped,
+      alignment: {
+        detector,
+        keypoints: {
+          source: features.sourceKeypoints,
+          reference: features.referenceKeypoints,
+        },
+        matches,
+        inliers,
+        inlierRatio: inliers / matches,
+        reprojectionError: errorSum / inliers,
+        homography,
+      },
+    };
+  }
+
+  return null;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              warpToReference                               */
+//* -------------------------------------------------------------------------- */
+// Warps the full-size card into the reference frame with a full-size
+// homography, so template zones (fractions of the reference) land on the
+// same content. Very large references are scaled down to MAX_WARP_SIZE.
+export const warpToReference = (
+  card: OffscreenCanvas,
+  homography: number[][],
+  referenceSize: { width: number; height: number }
+): OffscreenCanvas => {
+  const cv = self.cv;
+  const scale = Math.min(1, MAX_WARP_SIZE / Math.max(referenceSize.width, referenceSize.height));
+  const scaled = scaleHomography(homography, 1, 1 / scale);
+
+  const source = readMat(card);
+  const warped = new cv.Mat();
+  const transform = cv.matFromArray(3, 3, cv.CV_64F, scaled.flat());
+  try {
+    cv.warpPerspective(
+      source,
+      warped,
+      transform,
+      new cv.Size(Math.round(referenceSize.width * scale), Math.round(referenceSize.height * scale)),
+      cv.INTER_LINEAR,
+      cv.BORDER_REPLICATE
+    );
+    return matToCanvas(warped);
+  } finally {
+    source.delete();
+    warped.delete();
+    transform.delete();
+  }
+};
@@ -0,0 +1,141 @@
+//* -------------------------------------------------------------------------- */
+//*                               TS: AssetConfig                              */
+//* -------------------------------------------------------------------------- */
+// `local` loads everything from the app's own /vendor directory (see the
+// offline-assets plugin in vite.config.ts); `cdn` keeps the upstream defaults.
+export type AssetMode = 'local' | 'cdn';
+
+// `integrity` is keyed by asset name (the /vendor file name), so it applies
+// wherever the path points
+export interface AssetConfig {
+  mode: AssetMode;
+  opencvPath: string;
+  tesseractWorkerPath: string;
+  tesseractCorePath: string;
+  tesseractSimdCorePath: string;
+  languagePath: string;
+  verifyIntegrity: boolean;
+  integrity: { [name: string]: string };
+}
+
+export type AssetPath =
+  | 'opencvPath'
+  | 'tesseractWorkerPath'
+  | 'tesseractCorePath'
+  | 'tesseractSimdCorePath'
+  | 'languagePath';
+
+const ASSET_NAMES: { [path in AssetPath]: string } = {
+  opencvPath: 'opencv.js',
+  tesseractWorkerPath: 'tesseract-worker.min.js',
+  tesseractCorePath: 'tesseract-core-lstm.wasm.js',
+  tesseractSimdCorePath: 'tesseract-core-simd-lstm.wasm.js',
+  languagePath: 'eng.traineddata.gz',
+};
+
+// Engine package versions at build time (see vite.config.ts)
+export type EngineVersions = typeof __ENGINE_VERSIONS__;
+
+export const ENGINE_VERSIONS: EngineVersions = __ENGINE_VERSIONS__;
+
+//* -------------------------------------------------------------------------- */
+//*                             defaultAssetConfig                             */
+//* -------------------------------------------------------------------------- */
+const env = import.meta.env;
+const vendorBase = env.VITE_ASSET_BASE_URL || `${env.BASE_URL}vendor/`;
+
+const vendorPath = (name: string) => `${vendorBase.replace(/\/?$/, '/')}${name}`;
+
+export const CDN_OPENCV_URL = 'https://docs.opencv.org/4.8.0/opencv.js';
+
+// A path override pointing at a different build of a file comes with its
+// own `VITE_*_INTEGRITY` digest (SRI format, sha256-…)
+const envIntegrity: { [path in AssetPath]: string | undefined } = {
+  opencvPath: env.VITE_OPENCV_INTEGRITY,
+  tesseractWorkerPath: env.VITE_TESSERACT_WORKER_INTEGRITY,
+  tesseractCorePath: env.VITE_TESSERACT_CORE_INTEGRITY,
+  tesseractSimdCorePath: env.VITE_TESSERACT_SIMD_CORE_INTEGRITY,
+  languagePath: env.VITE_TESSERACT_LANG_INTEGRITY,
+};
+
+export const defaultAssetConfig: AssetConfig = {
+  mode: env.VITE_ASSET_MODE === 'cdn' ? 'cdn' : 'local',
+  opencvPath: env.VITE_OPENCV_PATH || vendorPath(ASSET_NAMES.opencvPath),
+  tesseractWorkerPath: env.VITE_TESSERACT_WORKER_PATH || vendorPath(ASSET_NAMES.tesseractWorkerPath),
+  tesseractCorePath: env.VITE_TESSERACT_CORE_PATH || vendorPath(ASSET_NAMES.tesseractCorePath),
+  tesseractSimdCorePath: env.VITE_TESSERACT_SIMD_CORE_PATH || vendorPath(ASSET_NAMES.tesseractSimdCorePath),
+  languagePath: env.VITE_TESSERACT_LANG_PATH || vendorPath(ASSET_NAMES.languagePath),
+  verifyIntegrity: env.VITE_ASSET_INTEGRITY !== 'off',
+  integrity: {
+    ...__OFFLINE_ASSET_INTEGRITY__,
+    ...Object.fromEntries(
+      (Object.keys(envIntegrity) as AssetPath[])
+        .filter((path) => envIntegrity[path])
+        .map((path) => [ASSET_NAMES[path], envIntegrity[path]!])
+    ),
+  },
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              resolveAssetConfig                            */
+//* -------------------------------------------------------------------------- */
+export const resolveAssetConfig = (overrides?: Partial<AssetConfig>): AssetConfig => ({
+  ...defaultAssetConfig,
+  ...overrides,
+  integrity: { ...defaultAssetConfig.integrity, ...overrides?.integrity },
+});
+
+//* -------------------------------------------------------------------------- */
+//*                                  loadAsset                                 */
+//* -------------------------------------------------------------------------- */
+// Fetches a local asset and, when integrity checks are on, refuses to hand back
+// bytes whose SHA-256 does not match the digest recorded at build time (or
+// configured for an override).
+export const loadAsset = async (config: AssetConfig, asset: AssetPath): Promise<Uint8Array> => {
+  const path = config[asset];
+  const response = await fetch(path);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${path} (${response.status})`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  if (config.verifyIntegrity) {
+    const expected = config.integrity[ASSET_NAMES[asset]];
+    if (!expected) {
+      throw new Error(`No integrity hash configured for ${ASSET_NAMES[asset]} (${path})`);
+    }
+
+    const actual = `sha256-${toBase64(await crypto.subtle.digest('SHA-256', bytes))}`;
+    if (actual !== expected) {
+      throw new Error(`Integrity check failed for ${path}`);
+    }
+  }
+
+  return bytes;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 toBlobURL                                  */
+//* -------------------------------------------------------------------------- */
+export const toBlobURL = (bytes: Uint8Array, type = 'text/javascript') =>
+  URL.createObjectURL(new Blob([bytes], { type }));
+
+//* -------------------------------------------------------------------------- */
+//*                               supportsWasmSimd                             */
+//* -------------------------------------------------------------------------- */
+// Smallest module using a v128 instruction (same probe as wasm-feature-detect)
+export const supportsWasmSimd = () =>
+  WebAssembly.validate(new Uint8Array([
+    0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0,
+    65, 0, 253, 15, 253, 98, 11,
+  ]));
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
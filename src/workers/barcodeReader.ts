@@ -0,0 +1,70 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  PDF417Reader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+import { drawToCanvas, fitWithin } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+// PDF417 modules are tiny; keep enough resolution for the narrowest bars
+const MAX_DECODE_SIZE = 2400;
+
+const hints = new Map<DecodeHintType, unknown>([
+  [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417]],
+  [DecodeHintType.TRY_HARDER, true],
+]);
+
+//* -------------------------------------------------------------------------- */
+//*                               toLuminance                                  */
+//* -------------------------------------------------------------------------- */
+const toLuminance = (ctx: OffscreenCanvasRenderingContext2D) => {
+  const { width, height } = ctx.canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    luminance[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+  return new RGBLuminanceSource(luminance, width, height);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  rotate90                                  */
+//* -------------------------------------------------------------------------- */
+const rotate90 = (source: OffscreenCanvas) => {
+  const canvas = new OffscreenCanvas(source.height, source.width);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.translate(canvas.width, 0);
+  ctx.rotate(Math.PI / 2);
+  ctx.drawImage(source, 0, 0);
+  return ctx;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                decodePdf417                                */
+//* -------------------------------------------------------------------------- */
+// Decodes the PDF417 symbol on the back of a card entirely in the worker.
+// Tries the image as-is and rotated by 90° (cards photographed upright).
+// Returns the raw barcode text, or null when no symbol could be read.
+export const decodePdf417 = (image: ImageBitmap | OffscreenCanvas): string | null => {
+  const { width, height } = fitWithin(image.width, image.height, MAX_DECODE_SIZE);
+  const upright = drawToCanvas(image, width, height);
+  const reader = new PDF417Reader();
+
+  for (const ctx of [upright, rotate90(upright.canvas)]) {
+    try {
+      const bitmap = new BinaryBitmap(new HybridBinarizer(toLuminance(ctx)));
+      return reader.decode(bitmap, hints).getText();
+    } catch {
+      // NotFoundException / ChecksumException: try the next orientation
+    } finally {
+      reader.reset();
+    }
+  }
+
+  return null;
+};
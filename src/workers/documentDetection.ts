@@ -0,0 +1,174 @@
+import { DocumentDetection, Point } from '@/components/VerificationResults';
+import { Mat, drawToCanvas, fitWithin, matToCanvas, readMat, toGray } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const DETECTION_SIZE = 1000;      // Longest side used while searching for the outline
+const NORMALIZED_WIDTH = 1000;    // Width of the perspective-corrected card
+const WARP_SOURCE_SIZE = 3000;    // Cap on the photo resolution fed to the warp
+const MIN_AREA_RATIO = 0.15;      // Smaller quads are usually text blocks or photos
+const CANDIDATE_CONTOURS = 5;
+
+//* -------------------------------------------------------------------------- */
+//*                          TS: NormalizedDocument                            */
+//* -------------------------------------------------------------------------- */
+export interface NormalizedDocument {
+  detection: DocumentDetection;
+  card: OffscreenCanvas;
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                orderCorners                                */
+//* -------------------------------------------------------------------------- */
+// Orders four points as top-left, top-right, bottom-right, bottom-left
+const orderCorners = (points: Point[]): Point[] => {
+  const bySum = [...points].sort((a, b) => a.x + a.y - (b.x + b.y));
+  const byDiff = [...points].sort((a, b) => a.y - a.x - (b.y - b.x));
+  return [bySum[0], byDiff[0], bySum[3], byDiff[3]];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+//* -------------------------------------------------------------------------- */
+//*                                findOutline                                 */
+//* -------------------------------------------------------------------------- */
+// Largest convex quadrilateral among the biggest external contours, falling
+// back to the rotated bounding box of the biggest contour.
+const findOutline = (gray: Mat): Point[] | null => {
+  const cv = self.cv;
+  const blurred = new cv.Mat();
+  const edges = new cv.Mat();
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  const kernel = cv.Mat.ones(3, 3, cv.CV_8U);
+
+  try {
+    cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0);
+    cv.Canny(blurred, edges, 50, 150);
+    cv.dilate(edges, edges, kernel);
+    cv.findContours(edges, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    const imageArea = gray.rows * gray.cols;
+    const candidates: { index: number; area: number }[] = [];
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      candidates.push({ index: i, area: cv.contourArea(contour) });
+      contour.delete();
+    }
+    candidates.sort((a, b) => b.area - a.area);
+
+    for (const { index, area } of candidates.slice(0, CANDIDATE_CONTOURS)) {
+      if (area / imageArea < MIN_AREA_RATIO) break;
+
+      const contour = contours.get(index);
+      const approx = new cv.Mat();
+      cv.approxPolyDP(contour, approx, 0.02 * cv.arcLength(contour, true), true);
+
+      const isQuad = approx.rows === 4 && cv.isContourConvex(approx);
+      const points: Point[] = [];
+      if (isQuad) {
+        for (let i = 0; i < 4; i++) {
+          points.push({ x: approx.data32S[i * 2], y: approx.data32S[i * 2 + 1] });
+        }
+      }
+
+      approx.delete();
+      contour.delete();
+      if (isQuad) return orderCorners(points);
+    }
+
+    if (candidates.length > 0 && candidates[0].area / imageArea >= MIN_AREA_RATIO) {
+      const contour = contours.get(candidates[0].index);
+      const vertices = cv.RotatedRect.points(cv.minAreaRect(contour));
+      contour.delete();
+      return orderCorners(vertices.map(({ x, y }) => ({ x, y })));
+    }
+
+    return null;
+  } finally {
+    blurred.delete();
+    edges.delete();
+    contours.delete();
+    hierarchy.delete();
+    kernel.delete();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             normalizeDocument                              */
+//* -------------------------------------------------------------------------- */
+// Finds the card outline in a photo and warps it to a flat image with the
+// reference's aspect ratio. When no outline is found the whole photo is used.
+export const normalizeDocument = (image: ImageBitmap, targetAspect: number): NormalizedDocument => {
+  const cv = self.cv;
+  const imageSize = { width: image.width, height: image.height };
+
+  const rgba = readMat(image, DETECTION_SIZE);
+  const gray = toGray(rgba);
+  const scale = image.width / rgba.cols;
+  const outline = findOutline(gray);
+  gray.delete();
+  rgba.delete();
+
+  if (!outline) {
+    const { width, height } = fitWithin(image.width, image.height, NORMALIZED_WIDTH);
+    return {
+      card: drawToCanvas(image, width, height).canvas,
+      detection: {
+        detected: false,
+        corners: [
+          { x: 0, y: 0 },
+          { x: image.width, y: 0 },
+          { x: image.width, y: image.height },
+          { x: 0, y: image.height },
+        ],
+        imageSize,
+        areaRatio: 1,
+        normalizedSize: { width, height },
+      },
+    };
+  }
+
+  let corners = outline.map(({ x, y }) => ({ x: x * scale, y: y * scale }));
+
+  // A portrait-held landscape card (or vice versa): rotate so the long edge
+  // of the outline becomes the long edge of the output
+  const outlineAspect = distance(corners[0], corners[1]) / distance(corners[0], corners[3]);
+  if ((outlineAspect < 1) !== (targetAspect < 1)) {
+    corners = [corners[3], corners[0], corners[1], corners[2]];
+  }
+
+  const width = NORMALIZED_WIDTH;
+  const height = Math.round(NORMALIZED_WIDTH / targetAspect);
+
+  const source = readMat(image, WARP_SOURCE_SIZE);
+  const sourceScale = source.cols / image.width;
+  const warped = new cv.Mat();
+  const sourceCorners = cv.matFromArray(
+    4, 1, cv.CV_32FC2, corners.flatMap(({ x, y }) => [x * sourceScale, y * sourceScale])
+  );
+  const targetCorners = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, width, 0, width, height, 0, height]);
+  const transform = cv.getPerspectiveTransform(sourceCorners, targetCorners);
+  cv.warpPerspective(source, warped, transform, new cv.Size(width, height));
+
+  const card = matToCanvas(warped);
+  const areaRatio = cv.contourArea(sourceCorners) / (source.cols * source.rows);
+
+  source.delete();
+  warped.delete();
+  sourceCorners.delete();
+  targetCorners.delete();
+  transform.delete();
+
+  return {
+    card,
+    detection: {
+      detected: true,
+      corners,
+      imageSize,
+      areaRatio,
+      normalizedSize: { width, height },
+    },
+  };
+};
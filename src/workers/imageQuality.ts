@@ -0,0 +1,125 @@
+import { DocumentDetection } from '@/components/VerificationResults';
+import { QualityMeasurements } from '@/services/quality';
+import { Mat, readMat, toGray } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const ANALYSIS_SIZE = 1000;
+const GLARE_LEVEL = 250;              // Luminance treated as specular highlight
+const CARD_WIDTH_INCHES = 3.370;      // ISO/IEC 7810 ID-1 (85.60 mm)
+
+//* -------------------------------------------------------------------------- */
+//*                                 measureFocus                               */
+//* -------------------------------------------------------------------------- */
+// Variance of the Laplacian: sharp edges give a wide response distribution
+const measureFocus = (gray: Mat): number => {
+  const cv = self.cv;
+  const laplacian = new cv.Mat();
+  const mean = new cv.Mat();
+  const stddev = new cv.Mat();
+  try {
+    cv.Laplacian(gray, laplacian, cv.CV_64F);
+    cv.meanStdDev(laplacian, mean, stddev);
+    return stddev.data64F[0] ** 2;
+  } finally {
+    laplacian.delete();
+    mean.delete();
+    stddev.delete();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 measureGlare                               */
+//* -------------------------------------------------------------------------- */
+const measureGlare = (gray: Mat): number => {
+  const cv = self.cv;
+  const highlights = new cv.Mat();
+  try {
+    cv.threshold(gray, highlights, GLARE_LEVEL - 1, 255, cv.THRESH_BINARY);
+    return cv.countNonZero(highlights) / (gray.rows * gray.cols);
+  } finally {
+    highlights.delete();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 measureNoise                               */
+//* -------------------------------------------------------------------------- */
+// Immerkær's fast noise variance estimate, skipping pixels near edges so
+// printed text and guilloche are not mistaken for noise
+const measureNoise = (gray: Mat): number => {
+  const cv = self.cv;
+  const kernel = cv.matFromArray(3, 3, cv.CV_32F, [1, -2, 1, -2, 4, -2, 1, -2, 1]);
+  const response = new cv.Mat();
+  const edges = new cv.Mat();
+  const dilateKernel = cv.Mat.ones(5, 5, cv.CV_8U);
+
+  try {
+    cv.filter2D(gray, response, cv.CV_32F, kernel);
+    cv.Canny(gray, edges, 40, 120);
+    cv.dilate(edges, edges, dilateKernel);
+
+    let sum = 0;
+    let count = 0;
+    const { cols, rows } = gray;
+    for (let y = 1; y < rows - 1; y++) {
+      for (let x = 1; x < cols - 1; x++) {
+        const i = y * cols + x;
+        if (edges.data[i]) continue;
+        sum += Math.abs(response.data32F[i]);
+        count++;
+      }
+    }
+
+    return count ? (Math.sqrt(Math.PI / 2) * sum) / (6 * count) : 0;
+  } finally {
+    kernel.delete();
+    response.delete();
+    edges.delete();
+    dilateKernel.delete();
+  }
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 estimateDpi                                */
+//* -------------------------------------------------------------------------- */
+// Card width in photo pixels over the physical ID-1 width. Without an outline
+// the whole photo is assumed to be the card, which overestimates.
+const estimateDpi = ({ corners }: DocumentDetection): number => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const top = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y);
+  const bottom = Math.hypot(bottomRight.x - bottomLeft.x, bottomRight.y - bottomLeft.y);
+  const left = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y);
+  const right = Math.hypot(bottomRight.x - topRight.x, bottomRight.y - topRight.y);
+  // The long edge is the card width whichever way it was held
+  return Math.max((top + bottom) / 2, (left + right) / 2) / CARD_WIDTH_INCHES;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                             measureImageQuality                            */
+//* -------------------------------------------------------------------------- */
+// Measures the normalized card for focus, glare, exposure and noise; framing
+// and resolution come from where the card was found in the original photo.
+export const measureImageQuality = (
+  card: OffscreenCanvas,
+  detection: DocumentDetection
+): QualityMeasurements => {
+  const cv = self.cv;
+  const rgba = readMat(card, ANALYSIS_SIZE);
+  const gray = toGray(rgba);
+  rgba.delete();
+
+  try {
+    return {
+      focus: measureFocus(gray),
+      glare: measureGlare(gray),
+      brightness: cv.mean(gray)[0],
+      dpi: estimateDpi(detection),
+      noise: measureNoise(gray),
+      framing: detection.detected ? detection.areaRatio : 0,
+    };
+  } finally {
+    gray.delete();
+  }
+};
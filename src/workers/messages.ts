@@ -0,0 +1,29 @@
+import { DocumentIdentification, VerificationResult } from '@/components/VerificationResults';
+import { DocumentSide, DocumentTemplate } from '@/services/templates';
+import { QualityPolicy, QualityReport } from '@/services/quality';
+import { FrameAnalysis } from '@/services/capture';
+import { AssetConfig } from './assets';
+import { PipelineOptions } from './verificationPipeline';
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: WorkerRequest                               */
+//* -------------------------------------------------------------------------- */
+export type WorkerRequest =
+  | { id: number; type: 'initialize'; assets?: Partial<AssetConfig> }
+  | { id: number; type: 'verify'; idImage: Blob; templates: DocumentTemplate[]; options?: PipelineOptions }
+  | { id: number; type: 'identify'; idImage: Blob; templates: DocumentTemplate[] }
+  | { id: number; type: 'analyzeFrame'; frame: ImageBitmap; qualityPolicy?: Partial<QualityPolicy> };
+
+//* -------------------------------------------------------------------------- */
+//*                            TS: WorkerResponse                              */
+//* -------------------------------------------------------------------------- */
+export type WorkerResponse =
+  | { id: number; type: 'progress'; stage: string; progress: number }
+  | {
+      id: number;
+      type: 'done';
+      result?: VerificationResult;
+      identification?: DocumentIdentification;
+      analysis?: FrameAnalysis;
+    }
+  | { id: number; type: 'error'; message: string; quality?: QualityReport; side?: DocumentSide };
@@ -0,0 +1,86 @@
+import { Rectangle } from 'tesseract.js';
+import { readMat, toGray } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const ANALYSIS_WIDTH = 600;
+const MIN_LINE_WIDTH = 0.6;       // MRZ lines span most of the card width
+const MIN_LINE_ASPECT = 8;
+const FALLBACK_BAND = 0.4;        // Bottom share of the card searched without a hit
+
+//* -------------------------------------------------------------------------- */
+//*                               locateMrzBand                                */
+//* -------------------------------------------------------------------------- */
+// Finds the block of long, dense text lines near the bottom of a normalized
+// card (blackhat + horizontal gradient + closing). Falls back to the bottom
+// band of the card, where every ICAO layout places the MRZ.
+export const locateMrzBand = (card: OffscreenCanvas): Rectangle => {
+  const cv = self.cv;
+  const rgba = readMat(card, ANALYSIS_WIDTH);
+  const gray = toGray(rgba);
+  const scale = card.width / gray.cols;
+
+  const blackhat = new cv.Mat();
+  const gradient = new cv.Mat();
+  const binary = new cv.Mat();
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+  const rectKernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(13, 5));
+  const closeKernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(31, 3));
+
+  let band: { top: number; bottom: number; left: number; right: number } | null = null;
+
+  try {
+    cv.GaussianBlur(gray, gray, new cv.Size(3, 3), 0);
+    cv.morphologyEx(gray, blackhat, cv.MORPH_BLACKHAT, rectKernel);
+    cv.Sobel(blackhat, gradient, cv.CV_32F, 1, 0, -1);
+    cv.convertScaleAbs(gradient, gradient);
+    cv.morphologyEx(gradient, gradient, cv.MORPH_CLOSE, rectKernel);
+    cv.threshold(gradient, binary, 0, 255, cv.THRESH_BINARY | cv.THRESH_OTSU);
+    cv.morphologyEx(binary, binary, cv.MORPH_CLOSE, closeKernel);
+    cv.findContours(binary, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    for (let i = 0; i < contours.size(); i++) {
+      const contour = contours.get(i);
+      const rect = cv.boundingRect(contour);
+      contour.delete();
+
+      const isLine = rect.width >= gray.cols * MIN_LINE_WIDTH && rect.width / rect.height >= MIN_LINE_ASPECT;
+      const inLowerHalf = rect.y + rect.height / 2 > gray.rows / 2;
+      if (!isLine || !inLowerHalf) continue;
+
+      band = band
+        ? {
+            top: Math.min(band.top, rect.y),
+            bottom: Math.max(band.bottom, rect.y + rect.height),
+            left: Math.min(band.left, rect.x),
+            right: Math.max(band.right, rect.x + rect.width),
+          }
+        : { top: rect.y, bottom: rect.y + rect.height, left: rect.x, right: rect.x + rect.width };
+    }
+  } finally {
+    rgba.delete();
+    gray.delete();
+    blackhat.delete();
+    gradient.delete();
+    binary.delete();
+    contours.delete();
+    hierarchy.delete();
+    rectKernel.delete();
+    closeKernel.delete();
+  }
+
+  if (!band) {
+    const top = Math.round(card.height * (1 - FALLBACK_BAND));
+    return { left: 0, top, width: card.width, height: card.height - top };
+  }
+
+  // Pad so the outer characters and line ascenders are not clipped
+  const padding = 8;
+  const left = Math.max(0, Math.round(band.left * scale) - padding);
+  const top = Math.max(0, Math.round(band.top * scale) - padding);
+  const right = Math.min(card.width, Math.round(band.right * scale) + padding);
+  const bottom = Math.min(card.height, Math.round(band.bottom * scale) + padding);
+  return { left, top, width: right - left, height: bottom - top };
+};
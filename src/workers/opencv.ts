@@ -0,0 +1,224 @@
+//* -------------------------------------------------------------------------- */
+//*                                 TS: OpenCV                                 */
+//* -------------------------------------------------------------------------- */
+// OpenCV.js ships without typings; this covers the calls the pipeline makes.
+// Mats and vectors are handles into the WASM heap and must be released with
+// `.delete()` by whoever created them.
+export interface Mat {
+  rows: number;
+  cols: number;
+  data: Uint8Array;
+  data32S: Int32Array;
+  data32F: Float32Array;
+  data64F: Float64Array;
+  channels(): number;
+  empty(): boolean;
+  copyTo(dst: Mat): void;
+  doubleAt(row: number, col: number): number;
+  delete(): void;
+}
+
+interface Vector<T> {
+  size(): number;
+  get(index: number): T;
+  delete(): void;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Rect extends Point, Size {}
+
+interface RotatedRect {
+  center: Point;
+  size: Size;
+  angle: number;
+}
+
+interface KeyPoint {
+  pt: Point;
+}
+
+interface DMatch {
+  queryIdx: number;
+  trainIdx: number;
+  distance: number;
+}
+
+interface Feature2D {
+  detectAndCompute(image: Mat, mask: Mat, keypoints: Vector<KeyPoint>, descriptors: Mat): void;
+  delete(): void;
+}
+
+interface DescriptorMatcher {
+  knnMatch(query: Mat, train: Mat, matches: Vector<Vector<DMatch>>, k: number): void;
+  delete(): void;
+}
+
+type Scalar = number[];
+
+export interface OpenCV {
+  Mat: {
+    new (): Mat;
+    new (rows: number, cols: number, type: number, value: Scalar): Mat;
+    ones(rows: number, cols: number, type: number): Mat;
+  };
+  MatVector: new () => Vector<Mat>;
+  KeyPointVector: new () => Vector<KeyPoint>;
+  DMatchVectorVector: new () => Vector<Vector<DMatch>>;
+  Size: new (width: number, height: number) => Size;
+  Point: new (x: number, y: number) => Point;
+  Scalar: new (...values: number[]) => Scalar;
+  ORB: new (features?: number) => Feature2D;
+  AKAZE: new () => Feature2D;
+  BFMatcher: new (normType: number, crossCheck: boolean) => DescriptorMatcher;
+  RotatedRect: { points(rect: RotatedRect): Point[] };
+  onRuntimeInitialized?: () => void;
+
+  CV_8U: number;
+  CV_32F: number;
+  CV_64F: number;
+  CV_32FC2: number;
+  COLOR_RGBA2GRAY: number;
+  COLOR_GRAY2RGBA: number;
+  THRESH_BINARY: number;
+  THRESH_OTSU: number;
+  RETR_EXTERNAL: number;
+  CHAIN_APPROX_SIMPLE: number;
+  MORPH_RECT: number;
+  MORPH_CLOSE: number;
+  MORPH_BLACKHAT: number;
+  TM_CCOEFF_NORMED: number;
+  NORM_HAMMING: number;
+  RANSAC: number;
+  INTER_LINEAR: number;
+  BORDER_REPLICATE: number;
+  FILLED: number;
+
+  matFromArray(rows: number, cols: number, type: number, values: number[]): Mat;
+  matFromImageData(imageData: ImageData): Mat;
+  cvtColor(src: Mat, dst: Mat, code: number): void;
+  GaussianBlur(src: Mat, dst: Mat, size: Size, sigma: number): void;
+  Canny(src: Mat, dst: Mat, threshold1: number, threshold2: number): void;
+  dilate(src: Mat, dst: Mat, kernel: Mat): void;
+  morphologyEx(src: Mat, dst: Mat, op: number, kernel: Mat): void;
+  getStructuringElement(shape: number, size: Size): Mat;
+  Sobel(src: Mat, dst: Mat, depth: number, dx: number, dy: number, size: number): void;
+  Laplacian(src: Mat, dst: Mat, depth: number): void;
+  filter2D(src: Mat, dst: Mat, depth: number, kernel: Mat): void;
+  convertScaleAbs(src: Mat, dst: Mat): void;
+  threshold(src: Mat, dst: Mat, thresh: number, maxValue: number, type: number): number;
+  countNonZero(src: Mat): number;
+  mean(src: Mat): Scalar;
+  meanStdDev(src: Mat, mean: Mat, stddev: Mat): void;
+  findContours(image: Mat, contours: Vector<Mat>, hierarchy: Mat, mode: number, method: number): void;
+  contourArea(contour: Mat): number;
+  arcLength(curve: Mat, closed: boolean): number;
+  approxPolyDP(curve: Mat, approx: Mat, epsilon: number, closed: boolean): void;
+  isContourConvex(contour: Mat): boolean;
+  boundingRect(points: Mat): Rect;
+  minAreaRect(points: Mat): RotatedRect;
+  rectangle(image: Mat, from: Point, to: Point, color: Scalar, thickness: number): void;
+  getPerspectiveTransform(src: Mat, dst: Mat): Mat;
+  findHomography(src: Mat, dst: Mat, method: number, threshold: number, mask: Mat): Mat;
+  warpPerspective(
+    src: Mat, dst: Mat, transform: Mat, size: Size, flags?: number, borderMode?: number
+  ): void;
+  matchTemplate(image: Mat, template: Mat, result: Mat, method: number, mask?: Mat): void;
+  minMaxLoc(src: Mat): { minVal: number; maxVal: number; minLoc: Point; maxLoc: Point };
+}
+
+//* -------------------------------------------------------------------------- */
+//*                 OpenCV will be loaded into the worker scope                */
+//* -------------------------------------------------------------------------- */
+declare global {
+  interface Window {
+    cv: OpenCV;
+  }
+}
+
+//* -------------------------------------------------------------------------- */
+//*                                drawToCanvas                                */
+//* -------------------------------------------------------------------------- */
+export const drawToCanvas = (
+  image: ImageBitmap | OffscreenCanvas,
+  width: number,
+  height: number
+): OffscreenCanvasRenderingContext2D => {
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 fitWithin                                  */
+//* -------------------------------------------------------------------------- */
+// Scales (width, height) down so neither side exceeds maxSize, keeping aspect
+export const fitWithin = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 readMat                                    */
+//* -------------------------------------------------------------------------- */
+// cv.imread needs DOM elements, so go through ImageData (RGBA Mat)
+export const readMat = (image: ImageBitmap | OffscreenCanvas, maxSize = Infinity): Mat => {
+  const { width, height } = fitWithin(image.width, image.height, maxSize);
+  const ctx = drawToCanvas(image, width, height);
+  return self.cv.matFromImageData(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height));
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 toGray                                     */
+//* -------------------------------------------------------------------------- */
+export const toGray = (rgba: Mat): Mat => {
+  const cv = self.cv;
+  const gray = new cv.Mat();
+  cv.cvtColor(rgba, gray, cv.COLOR_RGBA2GRAY);
+  return gray;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                matToCanvas                                 */
+//* -------------------------------------------------------------------------- */
+export const matToCanvas = (mat: Mat): OffscreenCanvas => {
+  const cv = self.cv;
+  const rgba = new cv.Mat();
+  if (mat.channels() === 1) {
+    cv.cvtColor(mat, rgba, cv.COLOR_GRAY2RGBA);
+  } else {
+    mat.copyTo(rgba);
+  }
+
+  const canvas = new OffscreenCanvas(rgba.cols, rgba.rows);
+  canvas
+    .getContext('2d')!
+    .putImageData(new ImageData(new Uint8ClampedArray(rgba.data), rgba.cols, rgba.rows), 0, 0);
+  rgba.delete();
+  return canvas;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                 matToArray                                 */
+//* -------------------------------------------------------------------------- */
+// Reads a small CV_64F matrix (e.g. a homography) into nested rows
+export const matToArray = (mat: Mat): number[][] => {
+  const rows: number[][] = [];
+  for (let r = 0; r < mat.rows; r++) {
+    const row: number[] = [];
+    for (let c = 0; c < mat.cols; c++) {
+      row.push(mat.doubleAt(r, c));
+    }
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,78 @@
+import { TemplateRegion } from '@/services/templates';
+import { Mat } from './opencv';
+
+//* -------------------------------------------------------------------------- */
+//*                             buildTemplateMask                              */
+//* -------------------------------------------------------------------------- */
+// CV_8U mask at the given size: 255 where the card design is fixed, 0 inside
+// variable regions. Returns null when there is nothing to mask.
+export const buildTemplateMask = (
+  regions: TemplateRegion[],
+  width: number,
+  height: number
+): Mat | null => {
+  if (regions.length === 0) return null;
+
+  const cv = self.cv;
+  const mask = new cv.Mat(height, width, cv.CV_8U, new cv.Scalar(255));
+
+  for (const region of regions) {
+    const x = Math.round(region.x * width);
+    const y = Math.round(region.y * height);
+    cv.rectangle(
+      mask,
+      new cv.Point(x, y),
+      new cv.Point(x + Math.round(region.width * width), y + Math.round(region.height * height)),
+      new cv.Scalar(0),
+      cv.FILLED
+    );
+  }
+
+  return mask;
+};
+
+//* -------------------------------------------------------------------------- */
+//*                              maskedRatio                                   */
+//* -------------------------------------------------------------------------- */
+// Fraction of the mask that is ignored
+export const maskedRatio = (mask: Mat) =>
+  1 - self.cv.countNonZero(mask) / (mask.rows * mask.cols);
+
+//* -------------------------------------------------------------------------- */
+//*                            maskedCorrelation                               */
+//* -------------------------------------------------------------------------- */
+// Pearson correlation of two same-size grayscale images over the unmasked
+// pixels only; equivalent to TM_CCOEFF_NORMED restricted to the mask.
+export const maskedCorrelation = (a: Mat, b: Mat, mask: Mat): number => {
+  const aData: Uint8Array = a.data;
+  const bData: Uint8Array = b.data;
+  const maskData: Uint8Array = mask.data;
+
+  let count = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < maskData.length; i++) {
+    if (!maskData[i]) continue;
+    sumA += aData[i];
+    sumB += bData[i];
+    count++;
+  }
+  if (count === 0) return 0;
+
+  const meanA = sumA / count;
+  const meanB = sumB / count;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < maskData.length; i++) {
+    if (!maskData[i]) continue;
+    const da = aData[i] - meanA;
+    const db = bData[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator > 0 ? covariance / denominator : 0;
+};
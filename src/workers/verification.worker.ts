@@ -0,0 +1,61 @@
+import { VerificationPipeline } from './verificationPipeline';
+import { WorkerRequest, WorkerResponse } from './messages';
+import { resolveAssetConfig } from './assets';
+import { ImageQualityError } from '@/services/quality';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Pipeline                                  */
+//* -------------------------------------------------------------------------- */
+const pipeline = new VerificationPipeline();
+
+const respond = (message: WorkerResponse) => {
+  self.postMessage(message);
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                  onmessage                                 */
+//* -------------------------------------------------------------------------- */
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'initialize':
+        await pipeline.initialize(resolveAssetConfig(request.assets));
+        respond({ id: request.id, type: 'done' });
+        break;
+
+      case 'verify': {
+        const result = await pipeline.verifyDocument(
+          request.idImage,
+          request.templates,
+          (stage, progress) => respond({ id: request.id, type: 'progress', stage, progress }),
+          request.options
+        );
+        respond({ id: request.id, type: 'done', result });
+        break;
+      }
+
+      case 'identify':
+        respond({
+          id: request.id,
+          type: 'done',
+          identification: await pipeline.identifyDocument(request.idImage, request.templates),
+        });
+        break;
+
+      case 'analyzeFrame':
+        respond({ id: request.id, type: 'done', analysis: pipeline.analyzeFrame(request.frame, request.qualityPolicy) });
+        break;
+    }
+  } catch (error) {
+    respond({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      // Error subclasses do not survive postMessage; send the report alongside
+      quality: error instanceof ImageQualityError ? error.report : undefined,
+      side: error instanceof ImageQualityError ? error.side : undefined,
+    });
+  }
+};
@@ -0,0 +1,800 @@
+import { createWorker, PSM, Worker as TesseractWorker } from 'tesseract.js';
+import { SideVerification, VerificationResult } from '@/components/VerificationResults';
+import { alignToReference, scaleHomography, warpToReference } from './alignment';
+import { NormalizedDocument, normalizeDocument } from './documentDetection';
+import { buildTemplateMask, maskedCorrelation, maskedRatio } from './templateMask';
+import { locateMrzBand } from './mrzDetection';
+import { decodePdf417 } from './barcodeReader';
+import { measureImageQuality } from './imageQuality';
+import { readFieldZones, toFraction } from './zonalOcr';
+import { DocumentTemplate, TemplateRegion, TemplateSide, maskRegions, templateLabel } from '@/services/templates';
+import { MRZ_CHARSET, MrzResult, readMrz } from '@/services/mrz';
+import { parseAamva } from '@/services/aamva';
+import { checkConsistency } from '@/services/consistency';
+import { matchLabels } from '@/services/labelMatcher';
+import { validateFields } from '@/services/validation';
+import { RiskWeights, assessRisk, resolveRiskWeights } from '@/services/riskScoring';
+import { DEFAULT_POLICY_SET, PolicySet, evaluatePolicy } from '@/services/policy';
+import { FrameAnalysis, ID1_ASPECT } from '@/services/capture';
+import {
+  ImageQualityError,
+  QualityPolicy,
+  defaultQualityPolicy,
+  evaluateQuality,
+  resolveQualityPolicy,
+} from '@/services/quality';
+import { readMat, toGray } from './opencv';
+import {
+  AssetConfig,
+  CDN_OPENCV_URL,
+  ENGINE_VERSIONS,
+  loadAsset,
+  supportsWasmSimd,
+  toBlobURL,
+} from './assets';
+
+//* -------------------------------------------------------------------------- */
+//*                             TS: PipelineOptions                            */
+//* -------------------------------------------------------------------------- */
+// `backImage` is the second side: verified against the identified template's
+// back reference when it declares one, and decoded for a PDF417 barcode
+// either way; `qualityPolicy` overrides the default
+// thresholds and block/warn actions of the image quality checks;
+// `candidateCount` is how many template candidates the result reports;
+// `riskWeights` overrides the weight of each signal in the risk score;
+// `policy` decides accept/review/reject (the built-in policy when absent)
+export interface PipelineOptions {
+  backImage?: Blob;
+  qualityPolicy?: Partial<QualityPolicy>;
+  candidateCount?: number;
+  riskWeights?: Partial<RiskWeights>;
+  policy?: PolicySet;
+}
+
+const DEFAULT_CANDIDATE_COUNT = 3;
+
+type TextExtraction = VerificationResult['textExtraction'];
+
+// The back's checks plus its card in the reference frame for the MRZ stage
+interface BackSideResult {
+  verification: SideVerification;
+  aligned: OffscreenCanvas;
+  text: TextExtraction | null;
+}
+
+// One template scored against the photo, with the card flattened to its aspect
+interface ScoredTemplate {
+  template: DocumentTemplate;
+  document: NormalizedDocument;
+  match: VerificationResult['templateMatch'];
+  referenceSize: { width: number; height: number };
+}
+
+//* -------------------------------------------------------------------------- */
+//*                              createNormalizer                              */
+//* -------------------------------------------------------------------------- */
+// Crops the card out of the photo and flattens it to a reference's aspect;
+// references of the same card size share one normalization
+const createNormalizer = (image: ImageBitmap) => {
+  const normalized = new Map<string, NormalizedDocument>();
+  return (reference: ImageBitmap) => {
+    const key = (reference.width / reference.height).toFixed(2);
+    if (!normalized.has(key)) normalized.set(key, normalizeDocument(image, reference.width / reference.height));
+    return normalized.get(key)!;
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                                combineText                                 */
+//* -------------------------------------------------------------------------- */
+// One document-level extraction from the sides' zones; a field id read on
+// both sides keeps the front value
+const combineText = (front: TextExtraction, back: TextExtraction | null): TextExtraction => {
+  if (!back) return front;
+  const frontCount = Object.keys(front.extractedData).length;
+  const backCount = Object.keys(back.extractedData).length;
+
+  return {
+    method: front.method,
+    extractedLabels: [...front.extractedLabels, ...back.extractedLabels],
+    extractedData: { ...back.extractedData, ...front.extractedData },
+    missingRequired: [...front.missingRequired, ...back.missingRequired],
+    confidence: frontCount + backCount
+      ? (front.confidence * frontCount + back.confidence * backCount) / (frontCount + backCount)
+      : 0,
+    details: `${front.details} Back side: ${back.details}`,
+  };
+};
+
+//* -------------------------------------------------------------------------- */
+//*                            VerificationPipeline                            */
+//* -------------------------------------------------------------------------- */
+// Runs inside the verification worker: no DOM, images arrive as Blobs and are
+// decoded to ImageBitmaps and drawn on OffscreenCanvases.
+export class VerificationPipeline {
+
+  private tesseractWorker: TesseractWorker | null = null;
+  private isOpenCVReady = false;
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 initialize                                 */
+  /* -------------------------------------------------------------------------- */
+  async initialize(config: AssetConfig): Promise<void> {
+    await this.initializeOpenCV(config);
+    await this.initializeTesseract(config);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              initializeOpenCV                              */
+  /* -------------------------------------------------------------------------- */
+  private async initializeOpenCV(config: AssetConfig): Promise<void> {
+    if (self.cv && self.cv.Mat) {
+      this.isOpenCVReady = true;
+      return;
+    }
+
+    let source: string;
+    if (config.mode === 'local') {
+      source = new TextDecoder().decode(await loadAsset(config, 'opencvPath'));
+    } else {
+      const response = await fetch(CDN_OPENCV_URL);
+      if (!response.ok) {
+        throw new Error(`Failed to load OpenCV (${response.status})`);
+      }
+      source = await response.text();
+    }
+
+    // Module workers cannot use importScripts, so the UMD bundle is evaluated
+    // with the worker global scope as `this`.
+    new Function(source).call(self);
+
+    await new Promise<void>((resolve) => {
+      if (self.cv.Mat) {
+        resolve();
+        return;
+      }
+      self.cv.onRuntimeInitialized = () => resolve();
+    });
+
+    this.isOpenCVReady = true;
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                             initializeTesseract                            */
+  /* -------------------------------------------------------------------------- */
+  private async initializeTesseract(config: AssetConfig): Promise<void> {
+    if (this.tesseractWorker) return;
+
+    if (config.mode === 'cdn') {
+      this.tesseractWorker = await createWorker('eng');
+      return;
+    }
+
+    // Worker script, core and language data are handed over as blob URLs of
+    // the verified bytes, so nothing Tesseract loads is fetched again after
+    // the integrity check. Tesseract treats a core path not ending in "js" as
+    // a directory and appends `/eng.traineddata.gz` to the language path; the
+    // fragments absorb both, and blob URLs resolve without their fragment.
+    const [workerScript, core, language] = await Promise.all([
+      loadAsset(config, 'tesseractWorkerPath'),
+      loadAsset(config, supportsWasmSimd() ? 'tesseractSimdCorePath' : 'tesseractCorePath'),
+      loadAsset(config, 'languagePath'),
+    ]);
+
+    this.tesseractWorker = await createWorker('eng', undefined, {
+      workerPath: toBlobURL(workerScript),
+      corePath: `${toBlobURL(core)}#.js`,
+      langPath: `${toBlobURL(language, 'application/gzip')}#`,
+      gzip: true,
+      workerBlobURL: true,
+      cacheMethod: 'none',
+    });
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                               verifyDocument                               */
+  /* -------------------------------------------------------------------------- */
+  // Every template is scored against the ID and the best-matching one drives
+  // the rest of the pipeline
+  async verifyDocument(
+    idImageFile: Blob,
+    templates: DocumentTemplate[],
+    onProgress?: (stage: string, progress: number) => void,
+    options: PipelineOptions = {}
+  ): Promise<VerificationResult> {
+
+    if (!this.isOpenCVReady || !this.tesseractWorker) {
+      throw new Error('Verification service not initialized');
+    }
+    if (templates.length === 0) {
+      throw new Error('No reference template to verify against');
+    }
+
+    // Released right after template matching, and in `finally` on any failure
+    let images: ImageBitmap[] = [];
+    try {
+
+      onProgress?.('Loading images...', 5);
+
+      // Load images
+      images = await this.loadImages([idImageFile, ...templates.map((template) => template.image)]);
+      const [idImage, ...referenceImages] = images;
+
+      onProgress?.('Detecting document...', 10);
+
+      const normalizeFor = createNormalizer(idImage);
+      const first = normalizeFor(referenceImages[0]);
+
+      onProgress?.('Analyzing image quality...', 20);
+
+      // Blocking issues stop here with the report; the rest only warn
+      const qualityPolicy = resolveQualityPolicy(options.qualityPolicy);
+      const quality = evaluateQuality(measureImageQuality(first.card, first.detection), qualityPolicy);
+      if (quality.blocked) {
+        throw new ImageQualityError(quality);
+      }
+
+      onProgress?.('Identifying document type...', 30);
+
+      const scored = await this.scoreTemplates(templates, referenceImages, normalizeFor, (count) =>
+        onProgress?.('Identifying document type...', 30 + Math.round((25 * count) / templates.length))
+      );
+
+      images.forEach((image) => image.close());
+
+      const [best] = scored;
+      const { card, detection } = best.document;
+      const templateResult = best.match;
+      const identification = this.toIdentification(scored, options.candidateCount);
+
+      // Template zones are defined on the reference, so OCR runs on the card
+      // warped into the reference frame; without an alignment the normalized
+      // card (same aspect as the reference) is the closest approximation
+      const aligned = templateResult.alignment
+        ? warpToReference(card, templateResult.alignment.homography, best.referenceSize)
+        : card;
+
+      onProgress?.('Extracting text fields...', 60);
+
+      // Text extraction
+      const frontText = await this.extractText(aligned, best.template);
+      const sides: SideVerification[] = [{
+        side: 'front',
+        provided: true,
+        documentDetection: detection,
+        quality,
+        templateMatch: templateResult,
+        fieldIds: Object.keys(frontText.extractedData),
+      }];
+
+      // A template with a back is verified on both sides; a missing back is
+      // recorded so risk and policy can weigh it
+      let back: BackSideResult | null = null;
+      if (best.template.back && options.backImage) {
+        onProgress?.('Verifying back side...', 65);
+        back = await this.verifyBackSide(options.backImage, best.template.back, qualityPolicy);
+        sides.push(back.verification);
+      } else if (best.template.back) {
+        sides.push({ side: 'back', provided: false });
+      }
+      const textResult = combineText(frontText, back?.text ?? null);
+
+      onProgress?.('Reading machine-readable zone...', 75);
+
+      // MRZ (passports, ICAO-compliant ID cards). A side whose template has
+      // an MRZ zone is read there; otherwise the band is searched front first.
+      const mrzSides: { card: OffscreenCanvas; template: TemplateSide }[] = [{ card: aligned, template: best.template }];
+      if (back && best.template.back) mrzSides.push({ card: back.aligned, template: best.template.back });
+      const zoned = mrzSides.find(({ template }) => template.fields.some((field) => field.type === 'mrz'));
+      let mrz: MrzResult | null = null;
+      for (const { card: mrzCard, template } of zoned ? [zoned] : mrzSides) {
+        mrz = await this.readMachineReadableZone(mrzCard, template);
+        if (mrz) break;
+      }
+
+      // Back-side PDF417 barcode (US/Canadian licenses)
+      let barcode: VerificationResult['barcode'];
+      if (options.backImage) {
+        onProgress?.('Decoding back-side barcode...', 80);
+        barcode = await this.readBarcode(options.backImage);
+      }
+
+      onProgress?.('Cross-checking sources...', 85);
+
+      // Printed text, MRZ and barcode must describe the same holder
+      const consistency = checkConsistency({
+        extractedData: textResult.extractedData,
+        mrz,
+        barcode: barcode?.aamva,
+      });
+
+      onProgress?.('Validating fields...', 88);
+
+      // Dates, ID number format, expiry and date order
+      const validation = validateFields({
+        extractedData: textResult.extractedData,
+        fields: [...best.template.fields, ...(best.template.back?.fields ?? [])],
+        metadata: best.template.metadata,
+      });
+
+      onProgress?.('Finalizing verification...', 90);
+
+      // Weighted, explainable score over every signal gathered above
+      const signals = {
+        documentDetection: detection,
+        quality,
+        identification,
+        templateMatch: templateResult,
+        textExtraction: textResult,
+        mrz: mrz ?? undefined,
+        barcode,
+        consistency,
+        validation,
+        sides,
+      };
+      const risk = assessRisk(signals, resolveRiskWeights(options.riskWeights));
+
+      onProgress?.('Verification complete', 100);
+
+      const assessed = {
+        ...signals,
+        risk,
+        overall: { isValid: risk.isValid, confidence: risk.score },
+      };
+
+      // Operational outcome; the result records which rule decided
+      return {
+        ...assessed,
+        decision: evaluatePolicy(options.policy ?? DEFAULT_POLICY_SET, assessed),
+        engine: ENGINE_VERSIONS,
+      };
+
+    } catch (error) {
+      if (error instanceof ImageQualityError) throw error;
+      console.error('Verification error:', error);
+      throw new Error(`Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      images.forEach((image) => image.close());
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              identifyDocument                              */
+  /* -------------------------------------------------------------------------- */
+  // Template matching only: tells which design (and so which sides) the photo
+  // shows before the full verification runs. Needs OpenCV, not Tesseract.
+  async identifyDocument(
+    idImageFile: Blob,
+    templates: DocumentTemplate[]
+  ): Promise<VerificationResult['identification']> {
+
+    if (!this.isOpenCVReady) {
+      throw new Error('Verification service not initialized');
+    }
+    if (templates.length === 0) {
+      throw new Error('No reference template to identify against');
+    }
+
+    const images = await this.loadImages([idImageFile, ...templates.map((template) => template.image)]);
+    const [idImage, ...referenceImages] = images;
+    try {
+      return this.toIdentification(await this.scoreTemplates(templates, referenceImages, createNormalizer(idImage)));
+    } finally {
+      images.forEach((image) => image.close());
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                               scoreTemplates                               */
+  /* -------------------------------------------------------------------------- */
+  // Layout match of the photo against every template, best first;
+  // `onScored` gets the number of templates scored so far
+  private async scoreTemplates(
+    templates: DocumentTemplate[],
+    referenceImages: ImageBitmap[],
+    normalizeFor: (reference: ImageBitmap) => NormalizedDocument,
+    onScored?: (count: number) => void
+  ): Promise<ScoredTemplate[]> {
+    const scored: ScoredTemplate[] = [];
+    for (let i = 0; i < templates.length; i++) {
+      const document = normalizeFor(referenceImages[i]);
+      const match = await this.performTemplateMatching(
+        document.card,
+        referenceImages[i],
+        maskRegions(templates[i])
+      );
+      const { width, height } = referenceImages[i];
+      scored.push({ template: templates[i], document, match, referenceSize: { width, height } });
+      onScored?.(i + 1);
+    }
+    return scored.sort((a, b) => b.match.confidence - a.match.confidence);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              toIdentification                              */
+  /* -------------------------------------------------------------------------- */
+  // `scored` is sorted best first; no type is identified when even the best
+  // candidate fails the layout match
+  private toIdentification(
+    scored: { template: DocumentTemplate; match: VerificationResult['templateMatch'] }[],
+    candidateCount = DEFAULT_CANDIDATE_COUNT
+  ): VerificationResult['identification'] {
+    const candidates = scored.slice(0, Math.max(1, candidateCount)).map(({ template, match }) => ({
+      templateId: template.metadata?.id ?? null,
+      label: templateLabel(template),
+      metadata: template.metadata,
+      confidence: match.confidence,
+      isMatch: match.isMatch,
+    }));
+
+    return {
+      evaluated: scored.length,
+      candidates,
+      selected: candidates[0].isMatch ? candidates[0] : null,
+    };
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                analyzeFrame                                */
+  /* -------------------------------------------------------------------------- */
+  // Live camera guidance: the same detection and quality checks as a
+  // verification, on a downscaled frame, without OCR. Resolution is left to
+  // the full-size capture.
+  analyzeFrame(frame: ImageBitmap, qualityPolicy?: Partial<QualityPolicy>): FrameAnalysis {
+    if (!this.isOpenCVReady) {
+      throw new Error('Verification service not initialized');
+    }
+
+    try {
+      const { card, detection } = normalizeDocument(frame, ID1_ASPECT);
+      const policy = resolveQualityPolicy({
+        ...qualityPolicy,
+        resolution: { ...defaultQualityPolicy.resolution, action: 'ignore' },
+      });
+      return { detection, quality: evaluateQuality(measureImageQuality(card, detection), policy) };
+    } finally {
+      frame.close();
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              loadImageFromFile                             */
+  /* -------------------------------------------------------------------------- */
+  private async loadImageFromFile(file: Blob): Promise<ImageBitmap> {
+    return createImageBitmap(file);
+  }
+
+  // All or nothing: when one file fails to decode, the ones already decoded
+  // are closed before the error is rethrown
+  private async loadImages(files: Blob[]): Promise<ImageBitmap[]> {
+    const loaded = await Promise.allSettled(files.map((file) => this.loadImageFromFile(file)));
+    const failed = loaded.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      loaded.forEach((result) => result.status === 'fulfilled' && result.value.close());
+      throw failed.reason;
+    }
+    return loaded.map((result) => (result as PromiseFulfilledResult<ImageBitmap>).value);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                           performTemplateMatching                          */
+  /* -------------------------------------------------------------------------- */
+  private async performTemplateMatching(
+    sourceImg: ImageBitmap | OffscreenCanvas,
+    templateImg: ImageBitmap,
+    variableRegions: TemplateRegion[] = []
+  ): Promise<VerificationResult['templateMatch']> {
+    try {
+      const cv = self.cv;
+
+      // Resize images to manageable size for processing
+      const maxSize = 800;
+      const srcMat = readMat(sourceImg, maxSize);
+      const templateMat = readMat(templateImg, maxSize);
+      const sourceScale = srcMat.cols / sourceImg.width;
+      const templateScale = templateMat.cols / templateImg.width;
+
+      // Convert to grayscale
+      const srcGray = toGray(srcMat);
+      const templateGray = toGray(templateMat);
+      srcMat.delete();
+      templateMat.delete();
+
+      // Portrait and personal data differ on every genuine card, so only the
+      // fixed background, guilloche and printed labels are compared
+      const mask = buildTemplateMask(variableRegions, templateGray.cols, templateGray.rows);
+
+      // Align the ID onto the reference frame; handheld photos rarely share
+      // the reference's scale, rotation or perspective
+      const aligned = alignToReference(srcGray, templateGray, mask);
+
+      // Same-size images give a single correlation value; without an alignment
+      // fall back to sliding the reference over the raw source
+      const result = new cv.Mat();
+      cv.matchTemplate(aligned ? aligned.warped : srcGray, templateGray, result, cv.TM_CCOEFF_NORMED);
+
+      // Find the best match
+      const minMaxLoc = cv.minMaxLoc(result);
+      const unmaskedConfidence = Math.max(0, minMaxLoc.maxVal);
+
+      let masking: VerificationResult['templateMatch']['masking'];
+      if (mask) {
+        let maskedScore: number;
+        if (aligned) {
+          maskedScore = maskedCorrelation(aligned.warped, templateGray, mask);
+        } else {
+          const maskedResult = new cv.Mat();
+          cv.matchTemplate(srcGray, templateGray, maskedResult, cv.TM_CCOEFF_NORMED, mask);
+          maskedScore = cv.minMaxLoc(maskedResult).maxVal;
+          maskedResult.delete();
+        }
+
+        masking = {
+          maskedConfidence: Math.max(0, maskedScore),
+          unmaskedConfidence,
+          ignoredRatio: maskedRatio(mask),
+        };
+      }
+
+      const confidence = masking ? masking.maskedConfidence : unmaskedConfidence;
+
+      // Clean up
+      aligned?.warped.delete();
+      mask?.delete();
+      srcGray.delete();
+      templateGray.delete();
+      result.delete();
+
+      const alignment = aligned && {
+        ...aligned.alignment,
+        homography: scaleHomography(aligned.alignment.homography, sourceScale, templateScale),
+      };
+
+      const isMatch = confidence > 0.3; // Threshold for match
+      const details = `${
+        alignment
+          ? `Aligned with ${alignment.detector.toUpperCase()} (${alignment.inliers} inliers, ${alignment.reprojectionError.toFixed(1)}px error). `
+          : 'Feature alignment failed; compared unaligned images. '
+      }${
+        masking
+          ? `Masked template matching confidence: ${(confidence * 100).toFixed(1)}% over the fixed ${Math.round((1 - masking.ignoredRatio) * 100)}% of the card (unmasked ${(unmaskedConfidence * 100).toFixed(1)}%). `
+          : `Template matching confidence: ${(confidence * 100).toFixed(1)}%. `
+      }${
+        isMatch ? 'Documents appear to match the expected layout.' : 'Documents do not match the expected layout pattern.'
+      }`;
+
+      return {
+        isMatch,
+        confidence,
+        details,
+        method: alignment ? 'feature' : 'template',
+        alignment: alignment ?? undefined,
+        masking,
+      };
+    } catch (error) {
+      console.error('Template matching error:', error);
+      return {
+        isMatch: false,
+        confidence: 0,
+        details: 'Template matching failed due to processing error.',
+        method: 'template',
+      };
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                               verifyBackSide                               */
+  /* -------------------------------------------------------------------------- */
+  // The front already identified the document, so the back is only checked
+  // against the template's back reference: quality, masked layout match and
+  // its own field zones. Full-page OCR is skipped when it defines none.
+  private async verifyBackSide(
+    imageFile: Blob,
+    template: TemplateSide,
+    qualityPolicy: QualityPolicy
+  ): Promise<BackSideResult> {
+    // Both are released as soon as they are used, and in `finally` on failure
+    const [image, reference] = await this.loadImages([imageFile, template.image]);
+    try {
+      const { card, detection } = normalizeDocument(image, reference.width / reference.height);
+      image.close();
+
+      const quality = evaluateQuality(measureImageQuality(card, detection), qualityPolicy);
+      if (quality.blocked) {
+        throw new ImageQualityError(quality, 'back');
+      }
+
+      const templateMatch = await this.performTemplateMatching(card, reference, maskRegions(template));
+      const referenceSize = { width: reference.width, height: reference.height };
+      reference.close();
+
+      const aligned = templateMatch.alignment
+        ? warpToReference(card, templateMatch.alignment.homography, referenceSize)
+        : card;
+      const hasTextZones = template.fields.some((field) => field.type === 'text' || field.type === 'date');
+      const text = hasTextZones ? await this.extractText(aligned, template) : null;
+
+      return {
+        verification: {
+          side: 'back',
+          provided: true,
+          documentDetection: detection,
+          quality,
+          templateMatch,
+          fieldIds: Object.keys(text?.extractedData ?? {}),
+        },
+        aligned,
+        text,
+      };
+    } finally {
+      image.close();
+      reference.close();
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 extractText                                */
+  /* -------------------------------------------------------------------------- */
+  // `image` is the card in the reference frame. Templates with text zones are
+  // read zone by zone; otherwise the whole card is searched for labels.
+  private async extractText(
+    image: OffscreenCanvas,
+    template: TemplateSide
+  ): Promise<VerificationResult['textExtraction']> {
+    const textFields = template.fields.filter((field) => field.type === 'text' || field.type === 'date');
+
+    try {
+      if (textFields.length === 0) {
+        return await this.extractTextLabels(image);
+      }
+
+      const extractedData = await readFieldZones(this.tesseractWorker, image, textFields);
+      const values = Object.values(extractedData);
+      const missingRequired = textFields
+        .filter((field) => field.required && !extractedData[field.id])
+        .map((field) => field.label);
+
+      const confidence = values.length
+        ? values.reduce((sum, field) => sum + field.confidence, 0) / values.length
+        : 0;
+
+      return {
+        method: 'zonal',
+        extractedLabels: values.map((field) => field.label),
+        extractedData,
+        missingRequired,
+        confidence,
+        details: `Read ${values.length} of ${textFields.length} template field zones with ${(confidence * 100).toFixed(1)}% average confidence.${
+          missingRequired.length ? ` Required fields without a value: ${missingRequired.join(', ')}.` : ''
+        }`,
+      };
+    } catch (error) {
+      console.error('Text extraction error:', error);
+      return {
+        method: textFields.length ? 'zonal' : 'fullPage',
+        extractedLabels: [],
+        extractedData: {},
+        missingRequired: textFields.filter((field) => field.required).map((field) => field.label),
+        confidence: 0,
+        details: 'Text extraction failed due to OCR processing error.',
+      };
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                              extractTextLabels                             */
+  /* -------------------------------------------------------------------------- */
+  private async extractTextLabels(image: OffscreenCanvas): Promise<VerificationResult['textExtraction']> {
+    const { data } = await this.tesseractWorker.recognize(image, {}, { blocks: true });
+
+    const lines = (data.blocks ?? [])
+      .flatMap((block) => block.paragraphs)
+      .flatMap((paragraph) => paragraph.lines)
+      .filter((line) => line.text.trim().length > 0);
+
+    const foundLabels: string[] = [];
+    const extractedData: VerificationResult['textExtraction']['extractedData'] = {};
+    const scores: { [fieldId: string]: number } = {};
+
+    // Labels are matched on token boundaries with OCR-tolerant fuzzy scoring
+    // (see labelMatcher); when a label repeats, the best-scoring one wins
+    lines.forEach((line, lineIndex) => {
+      for (const { id, label, score, value } of matchLabels(line.text)) {
+        foundLabels.push(label);
+        if ((scores[id] ?? 0) >= score) continue;
+
+        // A label alone on its line takes its value from the next line
+        const source = value ? line : lines[lineIndex + 1];
+        if (!source) continue;
+
+        scores[id] = score;
+        extractedData[id] = {
+          label,
+          value: value || source.text.trim(),
+          confidence: source.confidence / 100,
+          bbox: toFraction(source.bbox, image),
+        };
+      }
+    });
+
+    // Remove duplicates and sort
+    const uniqueLabels = [...new Set(foundLabels)].sort();
+
+    const confidence = Math.min(data.confidence / 100, 1);
+    const details = `OCR extracted ${data.text.length} characters with ${data.confidence.toFixed(1)}% confidence. Found ${uniqueLabels.length} document field labels with values.`;
+
+    return {
+      method: 'fullPage',
+      extractedLabels: uniqueLabels,
+      extractedData,
+      missingRequired: [],
+      confidence,
+      details,
+    };
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                           readMachineReadableZone                          */
+  /* -------------------------------------------------------------------------- */
+  // Uses the template's MRZ zone when the editor defined one
+  private async readMachineReadableZone(card: OffscreenCanvas, template: TemplateSide): Promise<MrzResult | null> {
+    try {
+      const zone = template.fields.find((field) => field.type === 'mrz');
+      const rectangle = zone
+        ? {
+            left: Math.round(zone.x * card.width),
+            top: Math.round(zone.y * card.height),
+            width: Math.round(zone.width * card.width),
+            height: Math.round(zone.height * card.height),
+          }
+        : locateMrzBand(card);
+
+      // Restrict recognition to the OCR-B character set used by ICAO 9303
+      await this.tesseractWorker.setParameters({
+        tessedit_char_whitelist: MRZ_CHARSET,
+        tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+      });
+      const { data } = await this.tesseractWorker.recognize(card, { rectangle });
+
+      return readMrz(data.text);
+    } catch (error) {
+      console.error('MRZ extraction error:', error);
+      return null;
+    } finally {
+      await this.tesseractWorker.setParameters({ tessedit_char_whitelist: '' });
+    }
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /*                                 readBarcode                                */
+  /* -------------------------------------------------------------------------- */
+  private async readBarcode(imageFile: Blob): Promise<VerificationResult['barcode']> {
+    try {
+      const image = await this.loadImageFromFile(imageFile);
+      let raw: string | null;
+      try {
+        raw = decodePdf417(image);
+      } finally {
+        image.close();
+      }
+
+      if (!raw) {
+        return { decoded: false, details: 'No PDF417 barcode could be decoded from the back image.' };
+      }
+
+      const aamva = parseAamva(raw);
+      return {
+        decoded: true,
+        raw,
+        aamva: aamva ?? undefined,
+        details: aamva
+          ? `Decoded AAMVA v${aamva.version} ${aamva.subfileType} barcode with ${Object.keys(aamva.elements).length} data elements.`
+          : 'Decoded a PDF417 barcode, but it does not contain AAMVA license data.',
+      };
+    } catch (error) {
+      console.error('Barcode decoding error:', error);
+      return { decoded: false, details: 'Barcode decoding failed due to processing error.' };
+    }
+  }
+
+}
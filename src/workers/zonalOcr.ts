@@ -0,0 +1,117 @@
+import { Bbox, PSM, Worker as TesseractWorker } from 'tesseract.js';
+import { ExtractedField } from '@/components/VerificationResults';
+import { FieldValidator, RegionRect, TemplateField } from '@/services/templates';
+
+//* -------------------------------------------------------------------------- */
+//*                                  Settings                                  */
+//* -------------------------------------------------------------------------- */
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const DIGITS = '0123456789';
+
+// Zones are drawn tight around the value; a little context helps Tesseract
+// find the baseline of the outer characters
+const ZONE_PADDING = 0.004;
+
+interface OcrSettings {
+  psm: PSM;
+  whitelist: string;
+}
+
+// An empty whitelist allows every character
+const ocrSettings: { [validator in FieldValidator]: OcrSettings } = {
+  none: { psm: PSM.SINGLE_BLOCK, whitelist: '' },
+  name: { psm: PSM.SINGLE_LINE, whitelist: `${LETTERS} -',.` },
+  date: { psm: PSM.SINGLE_LINE, whitelist: `${DIGITS}${LETTERS} /.-,` },
+  documentNumber: { psm: PSM.SINGLE_LINE, whitelist: `${DIGITS}ABCDEFGHIJKLMNOPQRSTUVWXYZ -` },
+  sex: { psm: PSM.SINGLE_WORD, whitelist: 'MFXmfx' },
+  mrz: { psm: PSM.SINGLE_BLOCK, whitelist: '' },
+};
+
+// Portraits and signatures carry no text; MRZ zones have their own reader
+const isTextField = (field: TemplateField) => field.type === 'text' || field.type === 'date';
+
+//* -------------------------------------------------------------------------- */
+//*                                 toFraction                                 */
+//* -------------------------------------------------------------------------- */
+// Pixel box in the image -> fractions of the image size
+export const toFraction = (
+  { x0, y0, x1, y1 }: Bbox,
+  image: { width: number; height: number }
+): RegionRect => ({
+  x: x0 / image.width,
+  y: y0 / image.height,
+  width: (x1 - x0) / image.width,
+  height: (y1 - y0) / image.height,
+});
+
+//* -------------------------------------------------------------------------- */
+//*                                 unionBbox                                  */
+//* -------------------------------------------------------------------------- */
+const unionBbox = (boxes: Bbox[]): Bbox | null =>
+  boxes.length
+    ? {
+        x0: Math.min(...boxes.map((box) => box.x0)),
+        y0: Math.min(...boxes.map((box) => box.y0)),
+        x1: Math.max(...boxes.map((box) => box.x1)),
+        y1: Math.max(...boxes.map((box) => box.y1)),
+      }
+    : null;
+
+//* -------------------------------------------------------------------------- */
+//*                               readFieldZones                               */
+//* -------------------------------------------------------------------------- */
+// OCRs every text zone of the template separately on an image in the
+// reference frame, with the page segmentation mode and whitelist of the
+// field's validator. Results are keyed by field id; empty zones are omitted.
+export const readFieldZones = async (
+  worker: TesseractWorker,
+  image: OffscreenCanvas,
+  fields: TemplateField[]
+): Promise<{ [fieldId: string]: ExtractedField }> => {
+  const extracted: { [fieldId: string]: ExtractedField } = {};
+
+  try {
+    for (const field of fields.filter(isTextField)) {
+      const { psm, whitelist } = ocrSettings[field.validator];
+      await worker.setParameters({
+        tessedit_pageseg_mode: psm,
+        tessedit_char_whitelist: whitelist,
+      });
+
+      const left = Math.max(0, field.x - ZONE_PADDING);
+      const top = Math.max(0, field.y - ZONE_PADDING);
+      const right = Math.min(1, field.x + field.width + ZONE_PADDING);
+      const bottom = Math.min(1, field.y + field.height + ZONE_PADDING);
+      const rectangle = {
+        left: Math.round(left * image.width),
+        top: Math.round(top * image.height),
+        width: Math.round((right - left) * image.width),
+        height: Math.round((bottom - top) * image.height),
+      };
+
+      const { data } = await worker.recognize(image, { rectangle }, { blocks: true });
+      const value = data.text.replace(/\s+/g, ' ').trim();
+      if (!value) continue;
+
+      const words = (data.blocks ?? [])
+        .flatMap((block) => block.paragraphs)
+        .flatMap((paragraph) => paragraph.lines)
+        .flatMap((line) => line.words);
+      const bbox = unionBbox(words.map((word) => word.bbox));
+
+      extracted[field.id] = {
+        label: field.label,
+        value,
+        confidence: Math.min(data.confidence / 100, 1),
+        bbox: bbox ? toFraction(bbox, image) : { x: field.x, y: field.y, width: field.width, height: field.height },
+      };
+    }
+  } finally {
+    await worker.setParameters({
+      tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+      tessedit_char_whitelist: '',
+    });
+  }
+
+  return extracted;
+};
@@ -1,8 +1,72 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+// Model of the English language data package that is served and recorded
+const LANGUAGE_MODEL = "4.0.0_best_int";
+
+// OpenCV and Tesseract files served from /vendor so verification runs offline.
+// Their SHA-256 digests are baked into the bundle and checked before use.
+const offlineAssets: Record<string, string> = {
+  "opencv.js": "node_modules/@techstark/opencv-js/dist/opencv.js",
+  "tesseract-worker.min.js": "node_modules/tesseract.js/dist/worker.min.js",
+  "tesseract-core-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "tesseract-core-simd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "eng.traineddata.gz": `node_modules/@tesseract.js-data/eng/${LANGUAGE_MODEL}/eng.traineddata.gz`,
+};
+
+function offlineAssetsPlugin(): Plugin {
+  const read = (name: string) => fs.readFileSync(path.resolve(__dirname, offlineAssets[name]));
+
+  return {
+    name: "offline-assets",
+    config: () => ({
+      define: {
+        __OFFLINE_ASSET_INTEGRITY__: JSON.stringify(
+          Object.fromEntries(
+            Object.keys(offlineAssets).map((name) => [
+              name,
+              `sha256-${createHash("sha256").update(read(name)).digest("base64")}`,
+            ])
+          )
+        ),
+      },
+    }),
+    configureServer(server) {
+      server.middlewares.use("/vendor", (req, res, next) => {
+        const name = decodeURIComponent((req.url ?? "").split("?")[0].replace(/^\//, ""));
+        if (!offlineAssets[name]) return next();
+        res.setHeader(
+          "Content-Type",
+          name.endsWith(".js") ? "text/javascript" : "application/octet-stream"
+        );
+        res.end(read(name));
+      });
+    },
+    generateBundle() {
+      for (const name of Object.keys(offlineAssets)) {
+        this.emitFile({ type: "asset", fileName: `vendor/${name}`, source: read(name) });
+      }
+    },
+  };
+}
+
+// Versions of the engines behind every result, recorded in the result itself
+const packageVersion = (name: string) =>
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, "node_modules", name, "package.json"), "utf8")).version;
+
+const engineVersions = {
+  app: JSON.parse(fs.readFileSync(path.resolve(__dirname, "package.json"), "utf8")).version,
+  opencv: packageVersion("@techstark/opencv-js"),
+  tesseract: packageVersion("tesseract.js"),
+  tesseractCore: packageVersion("tesseract.js-core"),
+  languageData: `eng ${LANGUAGE_MODEL} (@tesseract.js-data/eng ${packageVersion("@tesseract.js-data/eng")})`,
+  zxing: packageVersion("@zxing/library"),
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,9 +75,16 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    offlineAssetsPlugin(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  define: {
+    __ENGINE_VERSIONS__: JSON.stringify(engineVersions),
+  },
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),